@@ -0,0 +1,70 @@
+// Builds a DRep vote from fixed wallet and ledger fixtures, without network
+// access, and checks the transaction body the wallet would be asked to sign.
+//
+//   npm run check:vote-tx
+import { strict as assert } from "node:assert";
+import { core } from "@meshsdk/core";
+import { buildVoteTx, GovernanceTxError } from "@/lib/governanceTx";
+import { CHANGE_ADDRESS, DREP_KEY_HASH, PROTOCOL_PARAMETERS, UTXOS, VOTE } from "./fixtures/voteTx";
+
+// Ledger encoding of the vote: No, Yes, Abstain
+const LEDGER_VOTES = ["No", "Yes", "Abstain"];
+
+const lovelaceOf = (utxo: (typeof UTXOS)[number]) =>
+  BigInt(utxo.output.amount.find((asset) => asset.unit === "lovelace")?.quantity ?? 0);
+
+async function checkVote() {
+  const preview = await buildVoteTx(VOTE);
+  const body = core.deserializeTx(preview.unsignedTx).body().toCore();
+
+  assert.equal(body.votingProcedures?.length, 1, "one voter");
+  const [{ voter, votes }] = body.votingProcedures;
+  assert.equal(voter.__typename, "dRepKeyHash");
+  assert.equal(voter.credential.hash, DREP_KEY_HASH);
+
+  assert.equal(votes.length, 1, "one vote");
+  const [{ actionId, votingProcedure }] = votes;
+  assert.deepEqual(actionId, { id: VOTE.action.txHash, actionIndex: VOTE.action.index });
+  assert.equal(LEDGER_VOTES[votingProcedure.vote], VOTE.vote);
+  assert.deepEqual(votingProcedure.anchor, VOTE.anchor);
+
+  // Every input comes from the wallet and the change goes back to it, less the fee
+  const inputs = body.inputs.map((input) => {
+    const utxo = UTXOS.find((u) => u.input.txHash === input.txId && u.input.outputIndex === input.index);
+    assert.ok(utxo, `input ${input.txId}#${input.index} is a wallet UTxO`);
+    return utxo;
+  });
+  assert.ok(
+    body.outputs.every((output) => output.address === CHANGE_ADDRESS),
+    "outputs go to the change address"
+  );
+  const spent = inputs.reduce((sum, utxo) => sum + lovelaceOf(utxo), BigInt(0));
+  const returned = body.outputs.reduce((sum, output) => sum + output.value.coins, BigInt(0));
+  assert.equal(spent, returned + body.fee, "inputs balance outputs plus fee");
+
+  const minFee = BigInt(PROTOCOL_PARAMETERS.minFeeA * preview.sizeBytes + PROTOCOL_PARAMETERS.minFeeB);
+  assert.ok(body.fee >= minFee, `fee ${body.fee} covers the unsigned size's minimum ${minFee}`);
+  assert.equal(String(body.fee), preview.feeLovelace);
+  assert.equal(preview.inputCount, body.inputs.length);
+  assert.equal(body.certificates, undefined);
+  assert.equal(body.proposalProcedures, undefined);
+}
+
+async function checkRejected() {
+  await assert.rejects(buildVoteTx({ ...VOTE, utxos: [] }), GovernanceTxError);
+  await assert.rejects(buildVoteTx({ ...VOTE, action: { ...VOTE.action, index: -1 } }), GovernanceTxError);
+  await assert.rejects(
+    buildVoteTx({ ...VOTE, anchor: { ...VOTE.anchor!, url: "http://example.com" } }),
+    GovernanceTxError
+  );
+}
+
+checkVote()
+  .then(checkRejected)
+  .then(
+    () => console.log("Vote transaction body matches the fixtures"),
+    (error) => {
+      console.error(error);
+      process.exit(1);
+    }
+  );
@@ -0,0 +1,66 @@
+// Wallet and ledger state for building a DRep vote offline. Values are made
+// up but well-formed: a preprod base address, its UTxOs and preprod-like
+// protocol parameters.
+import type { Protocol, UTxO } from "@meshsdk/core";
+import type { VoteTxParams } from "@/lib/governanceTx";
+
+export const CHANGE_ADDRESS =
+  "addr_test1qpvx0sacufuypa2k4sngk7q40zc5c4npl337uusdh64kv0uafhxhu32dys6pvn6wlw8dav6cmp4pmtv7cc3yel9uu0nq93swx9";
+
+/** CIP-105 ID of the voting DRep and the key hash it encodes */
+export const DREP_ID = "drep1tuk8585a8dxx4rs0rg4ncn27dacgry4rknzadelcpydzktmds7f";
+export const DREP_KEY_HASH = "5f2c7a1e9d3b4c6a8e0f1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b";
+
+export const UTXOS: UTxO[] = [
+  {
+    input: { txHash: "0b4f5a6c8e2d1f3a5c7e9b0d2f4a6c8e1b3d5f7a9c0e2b4d6f8a1c3e5b7d9f0a", outputIndex: 0 },
+    output: { address: CHANGE_ADDRESS, amount: [{ unit: "lovelace", quantity: "25000000" }] },
+  },
+  {
+    input: { txHash: "7c1e3a5b9d0f2c4e6a8b1d3f5c7e9a0b2d4f6a8c1e3b5d7f9a0c2e4b6d8f1a3c", outputIndex: 2 },
+    output: {
+      address: CHANGE_ADDRESS,
+      amount: [
+        { unit: "lovelace", quantity: "1500000" },
+        { unit: "c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00c0ffee00c0ffee0074657374", quantity: "10" },
+      ],
+    },
+  },
+];
+
+export const PROTOCOL_PARAMETERS: Protocol = {
+  epoch: 200,
+  coinsPerUtxoSize: 4310,
+  priceMem: 0.0577,
+  priceStep: 0.0000721,
+  minFeeA: 44,
+  minFeeB: 155381,
+  keyDeposit: 2000000,
+  maxTxSize: 16384,
+  maxValSize: 5000,
+  poolDeposit: 500000000,
+  maxCollateralInputs: 3,
+  decentralisation: 0,
+  maxBlockSize: 90112,
+  collateralPercent: 150,
+  maxBlockHeaderSize: 1100,
+  minPoolCost: "170000000",
+  maxTxExMem: "14000000",
+  maxTxExSteps: "10000000000",
+  maxBlockExMem: "62000000",
+  maxBlockExSteps: "20000000000",
+  minFeeRefScriptCostPerByte: 15,
+};
+
+export const VOTE: VoteTxParams = {
+  drepId: DREP_ID,
+  action: { txHash: "3f6e1b7a2c9d4e8f0a5b6c1d7e2f3a8b9c0d4e5f1a6b7c2d8e3f9a0b5c1d6e7f", index: 1 },
+  vote: "No",
+  anchor: {
+    url: "ipfs://bafkreidtyyc4pd4mz4ojibhlnfvvoew7qmw7tkmfykr6e6nvflnqzgozpy",
+    dataHash: "6c9d53a1b9f4a4ee3f1b5a0d8e7c2f6a1b3d5e7f9a0c2e4b6d8f1a3c5e7b9d0f",
+  },
+  utxos: UTXOS,
+  changeAddress: CHANGE_ADDRESS,
+  protocolParameters: PROTOCOL_PARAMETERS,
+};
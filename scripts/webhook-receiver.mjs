@@ -0,0 +1,61 @@
+// Local webhook receiver for trying out governance event webhooks.
+//
+//   WEBHOOK_SECRET=dev-secret npm run webhook-receiver
+//   WEBHOOKS="http://localhost:4000/|dev-secret" npm run dev
+//   curl -X POST http://localhost:3000/api/webhooks/ping
+//
+// PORT sets the port (4000). FAIL_FIRST=n answers the first n requests with a
+// 500 so the sender's retries can be watched.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+let failuresLeft = Number(process.env.FAIL_FIRST || 0);
+// Requests signed longer ago than this are rejected as replays
+const MAX_AGE_SECONDS = 5 * 60;
+
+if (!secret) {
+  console.error("Set WEBHOOK_SECRET to the secret configured for this receiver in WEBHOOKS");
+  process.exit(1);
+}
+
+function verify(headers, body) {
+  const timestamp = Number(headers["x-cgov-timestamp"]);
+  const signature = String(headers["x-cgov-signature"] ?? "");
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > MAX_AGE_SECONDS) return "stale or missing timestamp";
+
+  const expected = `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  const valid =
+    signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? null : "signature mismatch";
+}
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const delivery = req.headers["x-cgov-delivery"];
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`✗ ${delivery}: failing on purpose (${failuresLeft} more)`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    const problem = verify(req.headers, body);
+    if (problem) {
+      console.log(`✗ ${delivery}: rejected, ${problem}`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    const event = JSON.parse(body);
+    console.log(`✓ ${delivery} [${event.type}] ${event.summary}`);
+    res.writeHead(204).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { fetchAnchorVerification } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { AnchorIntegrity, AnchorVerification } from "@/types/governance";
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react";
+
+interface AnchorIntegrityBadgeProps {
+  anchorUrl: string;
+  anchorHash?: string;
+  className?: string;
+}
+
+// Shared across badges so a rationale shown in a table row and its dialog is only checked once
+const verifications = new Map<string, Promise<AnchorVerification>>();
+
+function loadVerification(anchorUrl: string, anchorHash: string | undefined): Promise<AnchorVerification> {
+  // Without a well-formed hash there is nothing to compare, so skip the download
+  if (!anchorHash || !/^[0-9a-f]{64}$/i.test(anchorHash)) {
+    return Promise.resolve({ integrity: "unverifiable", reason: "No valid blake2b-256 anchor hash was recorded" });
+  }
+
+  const key = `${anchorUrl}#${anchorHash}`;
+  if (!verifications.has(key)) {
+    const verification = fetchAnchorVerification(anchorUrl, anchorHash);
+    verifications.set(key, verification);
+    // Unreachable documents may come back later, so only keep final answers
+    verification
+      .then((result) => {
+        if (result.integrity === "unverifiable") verifications.delete(key);
+      })
+      .catch(() => verifications.delete(key));
+  }
+  return verifications.get(key)!;
+}
+
+/** Verification result for an anchor, or null while it is being checked */
+export function useAnchorVerification(anchorUrl: string, anchorHash?: string): AnchorVerification | null {
+  const [verification, setVerification] = useState<AnchorVerification | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerification(null);
+
+    loadVerification(anchorUrl, anchorHash)
+      .then((result) => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setVerification({ integrity: "unverifiable", reason: err.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [anchorUrl, anchorHash]);
+
+  return verification;
+}
+
+const INTEGRITY_STYLES: Record<AnchorIntegrity, { label: string; className: string; icon: typeof ShieldCheck }> = {
+  verified: { label: "Verified", className: "bg-success/20 text-success border-success/30", icon: ShieldCheck },
+  mismatch: {
+    label: "Hash mismatch",
+    className: "bg-destructive/20 text-destructive border-destructive/30",
+    icon: ShieldAlert,
+  },
+  unverifiable: {
+    label: "Unverifiable",
+    className: "bg-muted text-muted-foreground border-border",
+    icon: ShieldQuestion,
+  },
+};
+
+function describe(verification: AnchorVerification): string {
+  switch (verification.integrity) {
+    case "verified":
+      return `Document matches the on-chain hash ${verification.expectedHash}`;
+    case "mismatch":
+      return `On-chain hash ${verification.expectedHash} does not match the document (${verification.computedHash})`;
+    case "unverifiable":
+      return verification.reason ?? "The document could not be checked";
+  }
+}
+
+interface IntegrityBadgeProps {
+  verification: AnchorVerification | null;
+  className?: string;
+}
+
+/** Verified / mismatch / unverifiable badge for an anchor check that has already been started */
+export function IntegrityBadge({ verification, className }: IntegrityBadgeProps) {
+  if (!verification) {
+    return (
+      <Badge variant="outline" className={cn("bg-muted text-muted-foreground border-border", className)}>
+        Verifying...
+      </Badge>
+    );
+  }
+
+  const { label, className: integrityClassName, icon: Icon } = INTEGRITY_STYLES[verification.integrity];
+  return (
+    <Badge
+      variant="outline"
+      title={describe(verification)}
+      className={cn("gap-1 whitespace-nowrap", integrityClassName, className)}>
+      <Icon className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+}
+
+/** Compares an anchor's document with its on-chain hash and shows the result */
+export function AnchorIntegrityBadge({ anchorUrl, anchorHash, className }: AnchorIntegrityBadgeProps) {
+  const verification = useAnchorVerification(anchorUrl, anchorHash);
+  return <IntegrityBadge verification={verification} className={className} />;
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAppSelector } from "@/store/hooks";
+import { ApiError, fetchDRep, fetchProtocolParameters } from "@/lib/api";
+import { getWalletDRepId, getWalletTxInputs, signAndSubmit } from "@/lib/wallet";
+import { buildVoteTx, type TxPreview } from "@/lib/governanceTx";
+import type { DRepProfile, GovernanceActionDetail, VoteRecord } from "@/types/governance";
+import { Vote } from "lucide-react";
+
+type VoteChoice = VoteRecord["vote"];
+
+const VOTE_CHOICES: VoteChoice[] = ["Yes", "No", "Abstain"];
+
+type VoterState =
+  { status: "checking" } | { status: "registered"; drep: DRepProfile } | { status: "unavailable"; reason: string };
+
+function formatLovelace(lovelace: string): string {
+  return `${(Number(lovelace) / 1_000_000).toFixed(6)} ₳`;
+}
+
+/** Finds out whether the connected wallet's DRep key belongs to a registered, non-retired DRep */
+function useWalletDRep(walletId: string | null): VoterState {
+  const [voter, setVoter] = useState<VoterState>({ status: "checking" });
+
+  useEffect(() => {
+    if (!walletId) return;
+    let cancelled = false;
+    setVoter({ status: "checking" });
+
+    getWalletDRepId()
+      .then(async (drepId): Promise<VoterState> => {
+        if (!drepId) return { status: "unavailable", reason: "This wallet does not expose a DRep key (CIP-95)." };
+        try {
+          const drep = await fetchDRep(drepId);
+          return drep.status === "Retired"
+            ? { status: "unavailable", reason: "The wallet's DRep has retired." }
+            : { status: "registered", drep };
+        } catch (err) {
+          if (err instanceof ApiError && err.status === 404) {
+            return { status: "unavailable", reason: "The wallet's DRep key is not registered as a DRep." };
+          }
+          throw err;
+        }
+      })
+      .catch((err: Error): VoterState => ({
+        status: "unavailable",
+        reason: `Could not check DRep status: ${err.message}`,
+      }))
+      .then((next) => {
+        if (!cancelled) setVoter(next);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [walletId]);
+
+  return voter;
+}
+
+interface CastVotePanelProps {
+  action: GovernanceActionDetail;
+}
+
+/** Lets a connected DRep build, preview, sign and submit a vote on an active action */
+export function CastVotePanel({ action }: CastVotePanelProps) {
+  const { status, walletId } = useAppSelector((state) => state.wallet);
+  const voter = useWalletDRep(status === "connected" ? walletId : null);
+  const [vote, setVote] = useState<VoteChoice | null>(null);
+  const [anchorUrl, setAnchorUrl] = useState("");
+  const [anchorHash, setAnchorHash] = useState("");
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+  const [busy, setBusy] = useState<"building" | "submitting" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submittedTx, setSubmittedTx] = useState<string | null>(null);
+
+  // Any edit invalidates a transaction that was already built
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [vote, anchorUrl, anchorHash, walletId]);
+
+  if (action.status !== "Active") return null;
+
+  const drep = voter.status === "registered" ? voter.drep : null;
+  const previousVote = drep && action.votes?.find((record) => record.drepId === drep.drepId);
+  const anchor = anchorUrl.trim() ? { url: anchorUrl.trim(), dataHash: anchorHash.trim().toLowerCase() } : undefined;
+
+  const handleBuild = async () => {
+    if (!drep || !vote) return;
+    if (action.index === undefined) {
+      setError("The proposal index of this action is unknown, so it cannot be voted on here.");
+      return;
+    }
+    setBusy("building");
+    setError(null);
+    try {
+      const [protocolParameters, { utxos, changeAddress }] = await Promise.all([
+        fetchProtocolParameters(),
+        getWalletTxInputs(),
+      ]);
+      setPreview(
+        await buildVoteTx({
+          drepId: drep.drepId,
+          action: { txHash: action.hash, index: action.index },
+          vote,
+          anchor,
+          utxos,
+          changeAddress,
+          protocolParameters,
+        })
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!preview) return;
+    setBusy("submitting");
+    setError(null);
+    try {
+      setSubmittedTx(await signAndSubmit(preview.unsignedTx));
+      setPreview(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Vote className="h-4 w-4" />
+        Cast vote
+      </h3>
+
+      {status !== "connected" ? (
+        <p className="text-sm text-muted-foreground">Connect a wallet registered as a DRep to vote on this action.</p>
+      ) : voter.status === "checking" ? (
+        <p className="text-sm text-muted-foreground">Checking DRep registration...</p>
+      ) : voter.status === "unavailable" ? (
+        <p className="text-sm text-muted-foreground">{voter.reason}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="text-sm">
+            Voting as <span className="font-medium">{voter.drep.name ?? voter.drep.drepId}</span>
+            {previousVote && (
+              <div className="text-muted-foreground mt-1">
+                Current vote: {previousVote.vote}. A new vote replaces it.
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            {VOTE_CHOICES.map((choice) => (
+              <Button
+                key={choice}
+                size="sm"
+                variant={vote === choice ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setVote(choice)}>
+                {choice}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="font-medium text-muted-foreground">Rationale anchor (optional)</span>
+              <Link href="/rationale" target="_blank" className="text-primary hover:underline">
+                Write a rationale
+              </Link>
+            </div>
+            <Input
+              placeholder="https:// or ipfs:// URL"
+              aria-label="Rationale anchor URL"
+              value={anchorUrl}
+              onChange={(e) => setAnchorUrl(e.target.value)}
+              className="h-9"
+            />
+            {anchor && (
+              <Input
+                placeholder="blake2b-256 hash of the document"
+                aria-label="Rationale anchor hash"
+                value={anchorHash}
+                onChange={(e) => setAnchorHash(e.target.value)}
+                className="h-9 font-mono text-xs"
+              />
+            )}
+          </div>
+
+          {preview ? (
+            <div className="space-y-3">
+              <dl className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Vote</dt>
+                  <dd className="font-medium">{vote}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Fee</dt>
+                  <dd className="font-medium">{formatLovelace(preview.feeLovelace)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Inputs</dt>
+                  <dd>{preview.inputCount}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Size</dt>
+                  <dd>{preview.sizeBytes} bytes</dd>
+                </div>
+                {anchor && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">Anchor</dt>
+                    <dd className="truncate" title={anchor.url}>
+                      {anchor.url}
+                    </dd>
+                  </div>
+                )}
+              </dl>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" disabled={busy !== null} onClick={() => setPreview(null)}>
+                  Edit
+                </Button>
+                <Button className="flex-1" disabled={busy !== null} onClick={handleSubmit}>
+                  {busy === "submitting" ? "Waiting for wallet..." : "Sign & submit"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button className="w-full" disabled={!vote || busy !== null} onClick={handleBuild}>
+              {busy === "building" ? "Building transaction..." : "Build transaction"}
+            </Button>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {submittedTx && (
+            <p className="text-sm text-success break-all">
+              Vote submitted in transaction <span className="font-mono">{submittedTx}</span>
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
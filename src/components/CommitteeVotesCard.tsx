@@ -0,0 +1,60 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { CommitteeTally } from "@/lib/committee";
+
+interface CommitteeVotesCardProps {
+  tally: CommitteeTally;
+}
+
+/** Sidebar card with the Constitutional Committee tally against its threshold */
+export function CommitteeVotesCard({ tally }: CommitteeVotesCardProps) {
+  const voted = tally.yes + tally.no + tally.abstain;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="font-semibold">Constitutional Committee</h3>
+        <Badge
+          variant="outline"
+          className={
+            tally.quorumReached
+              ? "bg-success/20 text-success border-success/30"
+              : "bg-muted text-muted-foreground border-border"
+          }>
+          {tally.quorumReached ? "Threshold reached" : "Below threshold"}
+        </Badge>
+      </div>
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between mb-2">
+            <span className="text-sm text-success">Yes: {tally.yesPercent.toFixed(1)}%</span>
+            <span className="text-sm text-muted-foreground">Needs {tally.threshold.toFixed(0)}%</span>
+          </div>
+          <Progress value={tally.yesPercent} marker={tally.threshold} className="h-3 bg-secondary" />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {voted} of {tally.activeMembers} active members voted
+        </p>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Yes</span>
+            <span className="text-sm font-semibold text-success">{tally.yes}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">No</span>
+            <span className="text-sm font-semibold text-destructive">{tally.no}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Abstain</span>
+            <span className="text-sm font-semibold">{tally.abstain}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Not voted (counts as No)</span>
+            <span className="text-sm font-semibold">{tally.notVoted}</span>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { ActionTurnout, GovernanceActionKind } from "@/types/governance";
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+interface DRepTurnoutCardProps {
+  turnout: ActionTurnout | null;
+  /** Shown instead of the loading message when the turnout could not be loaded */
+  error: string | null;
+  actionType: GovernanceActionKind;
+}
+
+/** Sidebar card with the share of DRep stake that voted and what the DRep Yes share is measured against */
+export function DRepTurnoutCard({ turnout, error, actionType }: DRepTurnoutCardProps) {
+  if (!turnout) {
+    return (
+      <Card className="p-6">
+        <h3 className="font-semibold mb-2">DRep Turnout</h3>
+        <p className="text-sm text-muted-foreground">{error ?? "Loading turnout..."}</p>
+      </Card>
+    );
+  }
+
+  // On a motion of no confidence, Always No Confidence stake is a Yes
+  const noConfidenceIsYes = actionType === "NoConfidence";
+  const percentOfDenominator = (ada: number) => (turnout.denominatorAda > 0 ? (ada / turnout.denominatorAda) * 100 : 0);
+
+  const counted = [
+    { label: "Yes", ada: turnout.yesAda, className: "bg-success" },
+    { label: "No", ada: turnout.noAda, className: "bg-destructive" },
+    { label: "Not voted (counts as No)", ada: turnout.nonVotingAda, className: "bg-muted-foreground/40" },
+    {
+      label: `Always No Confidence (counts as ${noConfidenceIsYes ? "Yes" : "No"})`,
+      ada: turnout.alwaysNoConfidenceAda,
+      className: noConfidenceIsYes ? "bg-success/50" : "bg-destructive/50",
+    },
+  ];
+  const excluded = [
+    { label: "Abstain votes", ada: turnout.abstainAda },
+    { label: "Always Abstain", ada: turnout.alwaysAbstainAda },
+  ];
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-4">DRep Turnout</h3>
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between mb-2">
+            <span className="text-sm">{turnout.turnoutPercent.toFixed(1)}% of active stake voted</span>
+            <span className="text-sm text-muted-foreground">
+              {turnout.voterCount} of {turnout.activeDRepCount} DReps
+            </span>
+          </div>
+          <Progress value={turnout.turnoutPercent} className="h-3 bg-secondary" />
+        </div>
+
+        <div>
+          <div className="text-sm text-muted-foreground mb-2">
+            DRep Yes share is measured against {formatAda(turnout.denominatorAda)} ₳
+          </div>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-secondary">
+            {counted.map(({ label, ada, className }) => (
+              <div key={label} className={className} style={{ width: `${percentOfDenominator(ada)}%` }} title={label} />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {counted.map(({ label, ada, className }) => (
+            <div key={label} className="flex justify-between gap-2">
+              <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span className={cn("h-2 w-2 shrink-0 rounded-full", className)} />
+                {label}
+              </span>
+              <span className="text-sm font-semibold whitespace-nowrap">{formatAda(ada)} ₳</span>
+            </div>
+          ))}
+          <div className="pt-2 border-t border-border mt-2 space-y-2">
+            <div className="text-xs text-muted-foreground uppercase tracking-wide">Left out of the denominator</div>
+            {excluded.map(({ label, ada }) => (
+              <div key={label} className="flex justify-between gap-2">
+                <span className="text-sm text-muted-foreground">{label}</span>
+                <span className="text-sm font-semibold whitespace-nowrap">{formatAda(ada)} ₳</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAppSelector } from "@/store/hooks";
+import { fetchDRep, fetchProtocolParameters } from "@/lib/api";
+import { getWalletTxInputs, signAndSubmit } from "@/lib/wallet";
+import { buildVoteDelegationTx, type TxPreview } from "@/lib/governanceTx";
+import { getDelegationLabel, getDRepLabel } from "@/lib/delegation";
+import { UserCheck } from "lucide-react";
+
+type DelegationPreview = TxPreview & { depositLovelace: string };
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function formatLovelace(lovelace: string): string {
+  return `${(Number(lovelace) / 1_000_000).toFixed(6)} ₳`;
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="text-muted-foreground shrink-0">{label}</dt>
+      <dd className="text-right break-all">{children}</dd>
+    </div>
+  );
+}
+
+interface DelegateDialogProps {
+  /** Bech32 DRep ID, or one of the predefined `drep_always_*` options */
+  drepId: string;
+  drepName?: string;
+  /** Current voting power of the DRep, to show it before and after */
+  votingPowerAda?: number;
+  size?: "default" | "sm";
+}
+
+/** Builds, previews and submits a vote delegation from the connected wallet */
+export function DelegateDialog({ drepId, drepName, votingPowerAda, size = "sm" }: DelegateDialogProps) {
+  const {
+    status,
+    stakeAddress,
+    delegation,
+    loadingDelegation,
+    error: walletError,
+  } = useAppSelector((state) => state.wallet);
+  const [open, setOpen] = useState(false);
+  const [currentPowerAda, setCurrentPowerAda] = useState<number | null>(null);
+  const [preview, setPreview] = useState<DelegationPreview | null>(null);
+  const [busy, setBusy] = useState<"building" | "submitting" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submittedTx, setSubmittedTx] = useState<string | null>(null);
+
+  const currentDRepId = delegation?.drepId ?? null;
+  const targetLabel = getDRepLabel(drepId, drepName);
+  const alreadyDelegated = currentDRepId === drepId;
+  // A connected account without delegation data is not registered yet, unless loading it failed
+  const registerStake = status === "connected" && !loadingDelegation && !walletError && delegation === null;
+
+  // Voting power of the DRep the stake moves away from
+  useEffect(() => {
+    setCurrentPowerAda(null);
+    if (!open || !currentDRepId?.startsWith("drep1") || alreadyDelegated) return;
+    let cancelled = false;
+    fetchDRep(currentDRepId)
+      .then((drep) => {
+        if (!cancelled) setCurrentPowerAda(drep.votingPowerAda);
+      })
+      .catch(() => {
+        // The before/after row is left out when the DRep can't be loaded
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, currentDRepId, alreadyDelegated]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setPreview(null);
+      setError(null);
+      setSubmittedTx(null);
+    }
+  };
+
+  const handleBuild = async () => {
+    if (!stakeAddress) return;
+    setBusy("building");
+    setError(null);
+    try {
+      const [protocolParameters, { utxos, changeAddress }] = await Promise.all([
+        fetchProtocolParameters(),
+        getWalletTxInputs(),
+      ]);
+      setPreview(
+        await buildVoteDelegationTx({ stakeAddress, drepId, registerStake, utxos, changeAddress, protocolParameters })
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!preview) return;
+    setBusy("submitting");
+    setError(null);
+    try {
+      setSubmittedTx(await signAndSubmit(preview.unsignedTx));
+      setPreview(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const stakeAda = delegation?.stakeAda;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size={size} variant={alreadyDelegated ? "outline" : "default"}>
+          <UserCheck className="h-4 w-4 mr-1" />
+          {alreadyDelegated ? "Delegated" : "Delegate"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Delegate to {targetLabel}</DialogTitle>
+          <DialogDescription>
+            Your ADA stays in your wallet; only the voting power of your stake moves.
+          </DialogDescription>
+        </DialogHeader>
+
+        {status !== "connected" ? (
+          <p className="text-sm text-muted-foreground">Connect a wallet to delegate its voting power.</p>
+        ) : loadingDelegation ? (
+          <p className="text-sm text-muted-foreground">Loading your current delegation...</p>
+        ) : walletError && !delegation ? (
+          <p className="text-sm text-destructive">Your current delegation could not be loaded: {walletError}</p>
+        ) : alreadyDelegated && !submittedTx ? (
+          <p className="text-sm text-muted-foreground">Your stake is already delegated to {targetLabel}.</p>
+        ) : (
+          <div className="space-y-4">
+            <dl className="text-sm space-y-1">
+              <Row label="Delegation">
+                {delegation ? getDelegationLabel(delegation) : "Not registered"} → {targetLabel}
+              </Row>
+              {stakeAda !== undefined && <Row label="Your stake">{formatAda(stakeAda)} ₳</Row>}
+              {stakeAda !== undefined && votingPowerAda !== undefined && (
+                <Row label={`${targetLabel} power`}>
+                  {formatAda(votingPowerAda)} → {formatAda(votingPowerAda + stakeAda)} ₳
+                </Row>
+              )}
+              {stakeAda !== undefined && delegation && currentPowerAda !== null && (
+                <Row label={`${getDelegationLabel(delegation)} power`}>
+                  {formatAda(currentPowerAda)} → {formatAda(Math.max(currentPowerAda - stakeAda, 0))} ₳
+                </Row>
+              )}
+              {preview && (
+                <>
+                  <Row label="Fee">{formatLovelace(preview.feeLovelace)}</Row>
+                  {preview.depositLovelace !== "0" && (
+                    <Row label="Refundable deposit">{formatLovelace(preview.depositLovelace)}</Row>
+                  )}
+                  <Row label="Inputs">{preview.inputCount}</Row>
+                  <Row label="Size">{preview.sizeBytes} bytes</Row>
+                </>
+              )}
+            </dl>
+
+            {registerStake && !preview && (
+              <p className="text-xs text-muted-foreground">
+                Your stake address is not registered yet, so the transaction registers it and pays the refundable key
+                deposit.
+              </p>
+            )}
+
+            {submittedTx ? (
+              <p className="text-sm text-success break-all">
+                Delegation submitted in transaction <span className="font-mono">{submittedTx}</span>. It shows here once
+                the transaction is confirmed.
+              </p>
+            ) : preview ? (
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" disabled={busy !== null} onClick={() => setPreview(null)}>
+                  Cancel
+                </Button>
+                <Button className="flex-1" disabled={busy !== null} onClick={handleSubmit}>
+                  {busy === "submitting" ? "Waiting for wallet..." : "Sign & submit"}
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full" disabled={busy !== null} onClick={handleBuild}>
+                {busy === "building" ? "Building transaction..." : "Build transaction"}
+              </Button>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { formatCountdown, getActionDeadline } from "@/lib/cardanoTime";
+import { cn } from "@/lib/utils";
+
+interface ExpiryCountdownProps {
+  expiryEpoch: number;
+  className?: string;
+}
+
+/** Live "expires in ..." label for an Active action, refreshed every minute */
+export function ExpiryCountdown({ expiryEpoch, className }: ExpiryCountdownProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const deadline = getActionDeadline(expiryEpoch);
+  const passed = deadline.getTime() <= now.getTime();
+
+  return (
+    <span
+      title={`Voting closes ${deadline.toLocaleString()}`}
+      className={cn(passed ? "text-muted-foreground" : "text-amber-400", className)}>
+      {passed ? "Voting closed" : `Expires in ${formatCountdown(deadline, now)}`}
+    </span>
+  );
+}
@@ -0,0 +1,31 @@
+import { Button } from "@/components/ui/button";
+import type { ExportFormat } from "@/types/governance";
+import { Download } from "lucide-react";
+
+interface ExportButtonsProps {
+  /** Download URL for the current view in the given format */
+  getUrl: (format: ExportFormat) => string;
+  /** What is being exported, for the buttons' accessible labels */
+  label: string;
+}
+
+const FORMATS: { format: ExportFormat; text: string }[] = [
+  { format: "csv", text: "CSV" },
+  { format: "json", text: "JSON" },
+];
+
+/** CSV and JSON download links for a filtered view */
+export function ExportButtons({ getUrl, label }: ExportButtonsProps) {
+  return (
+    <div className="flex items-center gap-2">
+      {FORMATS.map(({ format, text }) => (
+        <Button key={format} asChild variant="outline" size="sm">
+          <a href={getUrl(format)} download aria-label={`Export ${label} as ${text}`}>
+            <Download className="h-4 w-4 mr-1" />
+            {text}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { useRouter } from "next/router";
+import { Input } from "@/components/ui/input";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { setSearchQuery } from "@/store/governanceSlice";
+import { searchGovernance } from "@/lib/api";
+import { GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import { getActionId } from "@/lib/cip129";
+import { cn } from "@/lib/utils";
+import type { ActionSearchResult, SearchResults } from "@/types/governance";
+import { Search } from "lucide-react";
+
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+interface SearchItem {
+  id: string;
+  group: "Governance actions" | "DReps" | "Vote rationales";
+  href: string;
+  title: string;
+  subtitle: string;
+  snippet?: string;
+}
+
+const MATCH_LABELS: Record<ActionSearchResult["matchedField"], string> = {
+  id: "Action ID",
+  hash: "Hash",
+  title: "Title",
+  description: "Description",
+  rationale: "Rationale",
+};
+
+function formatHash(hash: string): string {
+  if (hash.length <= 18) return hash;
+  return `${hash.slice(0, 12)}...${hash.slice(-6)}`;
+}
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(ada);
+}
+
+function toItems(results: SearchResults): SearchItem[] {
+  return [
+    ...results.actions.map((action): SearchItem => ({
+      id: `action-${action.hash}-${action.index ?? 0}`,
+      group: "Governance actions",
+      href: `/governance/${getActionId(action)}`,
+      title: action.title,
+      subtitle: `${GOVERNANCE_ACTION_LABELS[action.type]} · ${action.status} · ${MATCH_LABELS[action.matchedField]} match · ${formatHash(action.hash)}`,
+      snippet: action.snippet,
+    })),
+    ...results.dreps.map((drep): SearchItem => ({
+      id: `drep-${drep.drepId}`,
+      group: "DReps",
+      href: `/drep/${drep.drepId}`,
+      title: drep.name ?? formatHash(drep.drepId),
+      subtitle: `${drep.status} · ${formatAda(drep.votingPowerAda)} ₳ · ${formatHash(drep.drepId)}`,
+    })),
+    ...results.rationales.map((rationale): SearchItem => ({
+      id: `rationale-${rationale.anchorUrl}`,
+      group: "Vote rationales",
+      href: `/governance/${rationale.actionHash}`,
+      title: rationale.actionTitle,
+      subtitle: rationale.anchorUrl,
+      snippet: rationale.snippet,
+    })),
+  ];
+}
+
+/** Dashboard search over actions, hashes and action IDs, DReps and resolved vote rationales */
+export function GlobalSearch() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const query = useAppSelector((state) => state.governance.filters.searchQuery);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchGovernance(trimmed)
+        .then((found) => {
+          if (cancelled) return;
+          setResults(found);
+          setError(null);
+          setActiveIndex(0);
+        })
+        .catch((err: Error) => {
+          if (!cancelled) setError(err.message);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const items = useMemo(() => (results ? toItems(results) : []), [results]);
+  const showPanel = open && query.trim().length >= MIN_QUERY_LENGTH && (results !== null || error !== null);
+
+  const select = (item: SearchItem) => {
+    setOpen(false);
+    router.push(item.href);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setOpen(true);
+        setActiveIndex((index) => (items.length === 0 ? 0 : (index + 1) % items.length));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((index) => (items.length === 0 ? 0 : (index - 1 + items.length) % items.length));
+        break;
+      case "Enter":
+        if (showPanel && items[activeIndex]) {
+          event.preventDefault();
+          select(items[activeIndex]);
+        }
+        break;
+      case "Escape":
+        setOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative max-w-2xl mx-auto mb-8">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        role="combobox"
+        aria-expanded={showPanel}
+        aria-controls="global-search-results"
+        aria-activedescendant={showPanel && items[activeIndex] ? `global-search-${items[activeIndex].id}` : undefined}
+        placeholder="Search actions, hashes, gov_action IDs, DReps or rationales..."
+        value={query}
+        onChange={(e) => {
+          dispatch(setSearchQuery(e.target.value));
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="pl-10"
+      />
+
+      {showPanel && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          className="absolute z-50 mt-2 w-full max-h-[28rem] overflow-y-auto rounded-md border border-border bg-card shadow-lg">
+          {error ? (
+            <p className="p-4 text-sm text-destructive">Search failed: {error}</p>
+          ) : items.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No results for &ldquo;{query.trim()}&rdquo;</p>
+          ) : (
+            items.map((item, index) => (
+              <div key={item.id}>
+                {(index === 0 || items[index - 1].group !== item.group) && (
+                  <div className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {item.group}
+                  </div>
+                )}
+                <div
+                  id={`global-search-${item.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input so the blur handler doesn't close the panel first
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => select(item)}
+                  className={cn("px-4 py-2 cursor-pointer", index === activeIndex && "bg-secondary")}>
+                  <div className="text-sm font-medium truncate">{item.title}</div>
+                  <div className="text-xs text-muted-foreground truncate">{item.subtitle}</div>
+                  {item.snippet && <div className="text-xs text-foreground/80 mt-1 line-clamp-2">{item.snippet}</div>}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { getAnchorHref } from "@/lib/api";
+import { getProtocolParameterInfo, PROTOCOL_PARAMETER_GROUP_LABELS } from "@/lib/protocolParameters";
+import type {
+  GovernanceAction,
+  NewConstitutionAction,
+  ParameterChangeAction,
+  TreasuryWithdrawalsAction,
+  UpdateCommitteeAction,
+} from "@/types/governance";
+import { ExternalLink } from "lucide-react";
+
+interface GovernanceActionDetailsProps {
+  action: GovernanceAction;
+}
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function formatCredential(credential: string): string {
+  if (credential.length <= 24) return credential;
+  return `${credential.slice(0, 14)}...${credential.slice(-8)}`;
+}
+
+function ParameterChanges({ action }: { action: ParameterChangeAction }) {
+  return (
+    <div className="space-y-3">
+      {action.parameterChanges.map((change) => (
+        <div key={change.parameter} className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">{getProtocolParameterInfo(change.parameter).label}</span>
+            <div className="flex gap-1">
+              <Badge variant="outline" className="bg-secondary/50">
+                {PROTOCOL_PARAMETER_GROUP_LABELS[change.group]}
+              </Badge>
+              {change.securityRelevant && (
+                <Badge variant="outline" className="bg-amber-500/20 text-amber-400 border-amber-500/30">
+                  Security
+                </Badge>
+              )}
+            </div>
+          </div>
+          <div className="text-sm text-muted-foreground font-mono break-all">
+            {change.currentValue !== undefined && `${change.currentValue} → `}
+            {change.proposedValue}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CommitteeChanges({ action }: { action: UpdateCommitteeAction }) {
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <div className="text-muted-foreground mb-1">Members added</div>
+        {action.membersToAdd.length === 0 ? (
+          <div>None</div>
+        ) : (
+          action.membersToAdd.map((member) => (
+            <div key={member.coldCredential} className="flex justify-between gap-2">
+              <span className="font-mono" title={member.coldCredential}>
+                {formatCredential(member.coldCredential)}
+              </span>
+              <span className="text-muted-foreground">until Epoch {member.expiryEpoch}</span>
+            </div>
+          ))
+        )}
+      </div>
+      <div>
+        <div className="text-muted-foreground mb-1">Members removed</div>
+        {action.membersToRemove.length === 0 ? (
+          <div>None</div>
+        ) : (
+          action.membersToRemove.map((credential) => (
+            <div key={credential} className="font-mono" title={credential}>
+              {formatCredential(credential)}
+            </div>
+          ))
+        )}
+      </div>
+      <div className="flex justify-between pt-2 border-t border-border">
+        <span className="text-muted-foreground">New threshold</span>
+        <span className="font-semibold">{(action.newThreshold * 100).toFixed(0)}%</span>
+      </div>
+    </div>
+  );
+}
+
+function ConstitutionDetails({ action }: { action: NewConstitutionAction }) {
+  const { anchorUrl, anchorHash, guardrailsScriptHash } = action.constitution;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <a
+        href={getAnchorHref(anchorUrl)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary hover:underline flex items-center gap-1 break-all">
+        <ExternalLink className="h-3 w-3 shrink-0" />
+        Constitution document
+      </a>
+      <div>
+        <div className="text-muted-foreground">Document hash</div>
+        <div className="font-mono text-xs break-all">{anchorHash}</div>
+      </div>
+      <div>
+        <div className="text-muted-foreground">Guardrails script</div>
+        <div className="font-mono text-xs break-all">{guardrailsScriptHash ?? "None"}</div>
+      </div>
+    </div>
+  );
+}
+
+function TreasuryWithdrawals({ action }: { action: TreasuryWithdrawalsAction }) {
+  const total = action.withdrawals.reduce((sum, w) => sum + w.amountAda, 0);
+
+  return (
+    <div className="space-y-2 text-sm">
+      {action.withdrawals.map((withdrawal) => (
+        <div key={withdrawal.stakeAddress} className="flex justify-between gap-2">
+          <span className="font-mono" title={withdrawal.stakeAddress}>
+            {formatCredential(withdrawal.stakeAddress)}
+          </span>
+          <span>{formatAda(withdrawal.amountAda)} ₳</span>
+        </div>
+      ))}
+      <div className="flex justify-between pt-2 border-t border-border font-semibold">
+        <span>Total</span>
+        <span>{formatAda(total)} ₳</span>
+      </div>
+    </div>
+  );
+}
+
+function getHeading(action: GovernanceAction): string {
+  switch (action.type) {
+    case "ParameterChange":
+      return "Parameter Changes";
+    case "HardForkInitiation":
+      return "Hard Fork";
+    case "NoConfidence":
+      return "No Confidence";
+    case "UpdateCommittee":
+      return "Committee Changes";
+    case "NewConstitution":
+      return "Proposed Constitution";
+    case "TreasuryWithdrawals":
+      return "Withdrawals";
+    case "Info":
+      return "Info Action";
+  }
+}
+
+function renderDetails(action: GovernanceAction) {
+  switch (action.type) {
+    case "ParameterChange":
+      return <ParameterChanges action={action} />;
+    case "HardForkInitiation":
+      return (
+        <p className="text-sm text-muted-foreground">
+          Upgrades the network to protocol version{" "}
+          <span className="font-semibold text-foreground">
+            {action.protocolVersion.major}.{action.protocolVersion.minor}
+          </span>
+        </p>
+      );
+    case "NoConfidence":
+      return (
+        <p className="text-sm text-muted-foreground">
+          If enacted, the current Constitutional Committee is removed and the chain enters a state of no confidence
+          until a new committee is elected.
+        </p>
+      );
+    case "UpdateCommittee":
+      return <CommitteeChanges action={action} />;
+    case "NewConstitution":
+      return <ConstitutionDetails action={action} />;
+    case "TreasuryWithdrawals":
+      return <TreasuryWithdrawals action={action} />;
+    case "Info":
+      return <p className="text-sm text-muted-foreground">Info actions record a vote and have no on-chain effect.</p>;
+  }
+}
+
+/** Sidebar card with the type-specific contents of a governance action */
+export function GovernanceActionDetails({ action }: GovernanceActionDetailsProps) {
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-4">{getHeading(action)}</h3>
+      {renderDetails(action)}
+    </Card>
+  );
+}
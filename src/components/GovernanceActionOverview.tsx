@@ -0,0 +1,112 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AnchorIntegrityBadge } from "@/components/AnchorIntegrityBadge";
+import { ExpiryCountdown } from "@/components/ExpiryCountdown";
+import { formatEpochDate } from "@/lib/cardanoTime";
+import { GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import type { GovernanceActionDetail } from "@/types/governance";
+
+interface GovernanceActionOverviewProps {
+  action: GovernanceActionDetail;
+  /** Drafts have no on-chain ID, epochs or anchor yet */
+  draft?: boolean;
+}
+
+function getStatusColor(status: string): string {
+  switch (status) {
+    case "Active":
+      return "bg-success/20 text-success border-success/30";
+    case "Ratified":
+    case "Approved":
+      return "bg-primary/20 text-primary border-primary/30";
+    case "Expired":
+      return "bg-muted text-muted-foreground border-border";
+    case "Not approved":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+    default:
+      return "bg-muted text-muted-foreground border-border";
+  }
+}
+
+/** Status and type badges, title, ID and lifetime of an action */
+export function GovernanceActionHeader({ action, draft = false }: GovernanceActionOverviewProps) {
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap gap-3 mb-4">
+        {draft ? (
+          <Badge variant="outline" className="bg-amber-500/20 text-amber-400 border-amber-500/30">
+            Draft
+          </Badge>
+        ) : (
+          <Badge variant="outline" className={getStatusColor(action.status)}>
+            {action.status}
+          </Badge>
+        )}
+        <Badge variant="outline" className="border-border">
+          {GOVERNANCE_ACTION_LABELS[action.type]}
+        </Badge>
+      </div>
+      <h1 className="text-3xl md:text-4xl font-bold mb-4">{action.title || "Untitled proposal"}</h1>
+      {draft ? (
+        <p className="text-sm text-muted-foreground">
+          Not submitted yet. The ID and voting period are set once the proposal is on-chain.
+        </p>
+      ) : (
+        <>
+          <code className="text-sm text-muted-foreground bg-secondary px-3 py-1 rounded font-mono">{action.hash}</code>
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-4">
+            <span>
+              Submission: Epoch {action.submissionEpoch} ({formatEpochDate(action.submissionEpoch)})
+            </span>
+            <span>•</span>
+            <span>
+              Expiry: Epoch {action.expiryEpoch} ({formatEpochDate(action.expiryEpoch)})
+            </span>
+            {action.status === "Active" && (
+              <>
+                <span>•</span>
+                <ExpiryCountdown expiryEpoch={action.expiryEpoch} className="font-medium" />
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Description, motivation and rationale cards read from the action's CIP-108 metadata */
+export function GovernanceActionText({ action, draft = false }: GovernanceActionOverviewProps) {
+  return (
+    <>
+      {/* Description Card */}
+      <Card className="p-6">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-semibold">Description</h2>
+          {!draft && action.anchorUrl && (
+            <AnchorIntegrityBadge anchorUrl={action.anchorUrl} anchorHash={action.anchorHash} />
+          )}
+        </div>
+        <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
+          {action.description || "No description provided."}
+        </div>
+      </Card>
+
+      {/* Motivation Card */}
+      {action.motivation && (
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-4">Motivation</h2>
+          <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">{action.motivation}</div>
+        </Card>
+      )}
+
+      {/* Rationale Card */}
+      {action.rationale && (
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-4">Rationale</h2>
+          <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">{action.rationale}</div>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -1,10 +1,13 @@
+import Link from "next/link";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useAppSelector } from "@/store/hooks";
-import { mockNCLData } from "@/data/mockData";
+import { getNCLPeriodLabel, getProjectedNCLValue } from "@/lib/treasury";
+import { AlertTriangle } from "lucide-react";
 
 export function GovernanceStats() {
   const actions = useAppSelector((state) => state.governance.actions);
+  const ncl = useAppSelector((state) => state.governance.ncl?.current ?? null);
 
   const stats = {
     total: actions.length,
@@ -13,7 +16,10 @@ export function GovernanceStats() {
   };
 
   // Calculate NCL progress percentage
-  const nclProgress = (mockNCLData.currentValue / mockNCLData.targetValue) * 100;
+  const nclProgress = ncl ? (ncl.enactedAda / ncl.limitAda) * 100 : 0;
+  // Everything ratified or still being voted on, on top of what was already withdrawn
+  const projectedValue = ncl ? getProjectedNCLValue(ncl) : 0;
+  const exceedsLimit = ncl !== null && projectedValue > ncl.limitAda;
 
   // Format large numbers to M (millions)
   const formatToMillions = (value: number): string => {
@@ -43,16 +49,34 @@ export function GovernanceStats() {
 
       <Card className="p-6 bg-gradient-to-br from-blue-500/20 to-blue-500/5 border-blue-500/30">
         <div className="text-sm text-muted-foreground uppercase tracking-wide mb-2">
-          {mockNCLData.year} NCL Progress
+          NCL Progress{ncl && ` · ${getNCLPeriodLabel(ncl)}`}
         </div>
-        <div className="flex items-baseline gap-2 mb-3">
-          <span className="text-3xl font-bold text-foreground">{formatToMillions(mockNCLData.currentValue)}</span>
-          <span className="text-lg text-muted-foreground">/ {formatToMillions(mockNCLData.targetValue)}</span>
-        </div>
-        <Progress value={nclProgress} className="h-2 mb-2" />
-        <div className="text-right">
-          <span className="text-xl font-bold text-blue-500">{nclProgress.toFixed(1)}%</span>
+        {ncl ? (
+          <>
+            <div className="flex items-baseline gap-2 mb-3">
+              <span className="text-3xl font-bold text-foreground">{formatToMillions(ncl.enactedAda)}</span>
+              <span className="text-lg text-muted-foreground">/ {formatToMillions(ncl.limitAda)}</span>
+            </div>
+            <Progress value={nclProgress} className="h-2 mb-2" />
+          </>
+        ) : (
+          <div className="text-lg text-muted-foreground mb-3">No active NCL</div>
+        )}
+        <div className="flex items-center justify-between">
+          <Link href="/treasury" className="text-sm text-primary hover:underline">
+            View withdrawals
+          </Link>
+          {ncl && <span className="text-xl font-bold text-blue-500">{nclProgress.toFixed(1)}%</span>}
         </div>
+        {ncl && exceedsLimit && (
+          <div className="flex items-start gap-2 mt-3 text-sm text-amber-400">
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+            <span>
+              Ratified and pending withdrawals would bring the total to {formatToMillions(projectedValue)}, over the{" "}
+              {formatToMillions(ncl.limitAda)} limit.
+            </span>
+          </div>
+        )}
       </Card>
     </div>
   );
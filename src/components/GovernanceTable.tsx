@@ -3,15 +3,59 @@ import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAppSelector, useAppDispatch } from "@/store/hooks";
-import { setTypeFilter } from "@/store/governanceSlice";
-import type { GovernanceAction, GovernanceActionType } from "@/types/governance";
+import { applyFilters, setActionSort, setEpochRange, setStatusFilter, setTypeFilter } from "@/store/governanceSlice";
+import {
+  ACTION_LIST_FILTERS,
+  ACTION_SORT_LABELS,
+  ACTION_STATUSES,
+  DEFAULT_FILTERS,
+  filterActions,
+} from "@/lib/filters";
+import { useFilterQuerySync } from "@/lib/filterQuerySync";
+import { evaluateRatification, isVotingBodyRequired } from "@/lib/ratification";
+import { GOVERNANCE_ACTION_KINDS, GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import { RatificationBadge } from "@/components/RatificationVerdict";
+import { ExpiryCountdown } from "@/components/ExpiryCountdown";
+import { ExportButtons } from "@/components/ExportButtons";
+import { WatchActionButton } from "@/components/Watchlist";
+import { formatEpochDate } from "@/lib/cardanoTime";
+import { getActionId } from "@/lib/cip129";
+import { getDelegatedVote } from "@/lib/delegation";
+import { getActionChanges } from "@/lib/watchlist";
+import { cn } from "@/lib/utils";
+import { getActionsExportUrl } from "@/lib/api";
+import type {
+  ActionSortKey,
+  DRepVote,
+  GovernanceAction,
+  GovernanceActionStatus,
+  GovernanceActionType,
+} from "@/types/governance";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide } from "lucide-react";
 
 function formatHash(hash: string): string {
   if (hash.length <= 18) return hash;
   return `${hash.slice(0, 12)}...${hash.slice(-6)}`;
 }
 
+function DelegatedVoteBadge({ vote }: { vote: DRepVote["vote"] | null }) {
+  const classes =
+    vote === "Yes"
+      ? "bg-emerald-500/20 text-emerald-400 border-emerald-500/30"
+      : vote === "No"
+        ? "bg-red-500/20 text-red-400 border-red-500/30"
+        : "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  return (
+    <Badge variant="outline" className={cn("ring-1 ring-primary/60", classes)}>
+      Your DRep: {vote ?? "Not voted"}
+    </Badge>
+  );
+}
+
 function getStatusColor(status: GovernanceAction["status"]): string {
   switch (status) {
     case "Active":
@@ -32,12 +76,18 @@ export function GovernanceTable() {
   const router = useRouter();
   const dispatch = useAppDispatch();
   const actions = useAppSelector((state) => state.governance.actions);
-  const currentFilter = useAppSelector((state) => state.governance.filters.type);
+  const filters = useAppSelector((state) => state.governance.filters);
+  const currentFilter = filters.type;
+  const thresholds = useAppSelector((state) => state.governance.thresholds);
+  useFilterQuerySync(ACTION_LIST_FILTERS);
+  const { delegation, drepVotes } = useAppSelector((state) => state.wallet);
+  const watchedActions = useAppSelector((state) => state.watchlist.actions);
+
+  const filteredActions = filterActions(actions, filters);
 
-  const filteredActions = actions.filter((action) => {
-    if (currentFilter === "All") return true;
-    return action.type === currentFilter;
-  });
+  const ratifications = thresholds
+    ? new Map(filteredActions.map((action) => [getActionId(action), evaluateRatification(action, thresholds)]))
+    : null;
 
   const handleRowClick = (hash: string) => {
     router.push(`/governance/${hash}`);
@@ -47,6 +97,28 @@ export function GovernanceTable() {
     dispatch(setTypeFilter(value as GovernanceActionType));
   };
 
+  const toggleStatus = (status: GovernanceActionStatus) => {
+    const statuses = filters.statuses.includes(status)
+      ? filters.statuses.filter((s) => s !== status)
+      : [...filters.statuses, status];
+    dispatch(setStatusFilter(statuses));
+  };
+
+  const handleEpochChange = (bound: "from" | "to", value: string) => {
+    const epoch = value === "" ? null : Math.max(0, Math.floor(Number(value)));
+    dispatch(
+      setEpochRange({
+        from: bound === "from" ? epoch : filters.epochFrom,
+        to: bound === "to" ? epoch : filters.epochTo,
+      })
+    );
+  };
+
+  const handleResetFilters = () => {
+    const { type, statuses, epochFrom, epochTo, sortBy, sortDirection } = DEFAULT_FILTERS;
+    dispatch(applyFilters({ type, statuses, epochFrom, epochTo, sortBy, sortDirection }));
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -56,26 +128,113 @@ export function GovernanceTable() {
         </p>
       </div>
 
+      {/* Filters */}
+      <Card className="p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Status</div>
+            <div className="flex flex-wrap gap-2">
+              {ACTION_STATUSES.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={filters.statuses.includes(status) ? "default" : "outline"}
+                  aria-pressed={filters.statuses.includes(status)}
+                  onClick={() => toggleStatus(status)}>
+                  {status}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Submitted in epochs</div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                placeholder="From"
+                aria-label="From epoch"
+                value={filters.epochFrom ?? ""}
+                onChange={(e) => handleEpochChange("from", e.target.value)}
+                className="w-24 h-9"
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder="To"
+                aria-label="To epoch"
+                value={filters.epochTo ?? ""}
+                onChange={(e) => handleEpochChange("to", e.target.value)}
+                className="w-24 h-9"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Sort by</div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={filters.sortBy}
+                onValueChange={(value) =>
+                  dispatch(setActionSort({ sortBy: value as ActionSortKey, sortDirection: filters.sortDirection }))
+                }>
+                <SelectTrigger className="w-48 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ACTION_SORT_LABELS) as ActionSortKey[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {ACTION_SORT_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-9 w-9"
+                aria-label={filters.sortDirection === "asc" ? "Sort ascending" : "Sort descending"}
+                onClick={() =>
+                  dispatch(
+                    setActionSort({
+                      sortBy: filters.sortBy,
+                      sortDirection: filters.sortDirection === "asc" ? "desc" : "asc",
+                    })
+                  )
+                }>
+                {filters.sortDirection === "asc" ? (
+                  <ArrowUpNarrowWide className="h-4 w-4" />
+                ) : (
+                  <ArrowDownWideNarrow className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleResetFilters}>
+            Reset
+          </Button>
+          <div className="ml-auto">
+            <ExportButtons
+              label="governance actions"
+              getUrl={(format) => getActionsExportUrl(ACTION_LIST_FILTERS.serialize(filters), format)}
+            />
+          </div>
+        </div>
+      </Card>
+
       <Tabs value={currentFilter} onValueChange={handleTabChange} className="w-full">
         <TabsList className="bg-secondary/50 flex-wrap h-auto">
           <TabsTrigger value="All" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
             All
           </TabsTrigger>
-          <TabsTrigger
-            value="Info"
-            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-            Info action
-          </TabsTrigger>
-          <TabsTrigger
-            value="Treasury"
-            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-            Treasury withdrawals
-          </TabsTrigger>
-          <TabsTrigger
-            value="Constitution"
-            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-            New constitution
-          </TabsTrigger>
+          {GOVERNANCE_ACTION_KINDS.map((kind) => (
+            <TabsTrigger
+              key={kind}
+              value={kind}
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+              {GOVERNANCE_ACTION_LABELS[kind]}
+            </TabsTrigger>
+          ))}
         </TabsList>
 
         <TabsContent value={currentFilter} className="mt-6 space-y-4">
@@ -86,9 +245,9 @@ export function GovernanceTable() {
           ) : (
             filteredActions.map((action) => (
               <Card
-                key={action.hash}
+                key={getActionId(action)}
                 className="p-6 hover:border-primary/50 transition-all duration-300 cursor-pointer"
-                onClick={() => handleRowClick(action.hash)}>
+                onClick={() => handleRowClick(getActionId(action))}>
                 <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
                   {/* Main Info - 5 columns */}
                   <div className="lg:col-span-5 space-y-3">
@@ -97,10 +256,28 @@ export function GovernanceTable() {
                         {action.status}
                       </Badge>
                       <Badge variant="outline" className="bg-secondary/50">
-                        {action.type}
+                        {GOVERNANCE_ACTION_LABELS[action.type]}
                       </Badge>
+                      {action.status === "Active" && ratifications?.has(getActionId(action)) && (
+                        <RatificationBadge result={ratifications.get(action.hash)!} />
+                      )}
+                      {delegation?.drepId && (
+                        <DelegatedVoteBadge vote={getDelegatedVote(delegation, drepVotes, action)} />
+                      )}
+                    </div>
+                    <div className="flex items-start gap-1">
+                      <h3 className="text-lg font-semibold flex-1">{action.title}</h3>
+                      {watchedActions[getActionId(action)] &&
+                        getActionChanges(watchedActions[getActionId(action)].seen, action).length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="bg-amber-500/20 text-amber-400 border-amber-500/30"
+                            title="Changed since your last visit">
+                            Updated
+                          </Badge>
+                        )}
+                      <WatchActionButton action={action} className="-mt-1 -mr-2" />
                     </div>
-                    <h3 className="text-lg font-semibold">{action.title}</h3>
                     <p className="text-xs text-muted-foreground font-mono">{formatHash(action.hash)}</p>
                   </div>
 
@@ -112,7 +289,11 @@ export function GovernanceTable() {
                         <span className="text-success">Yes: {action.drepYesPercent.toFixed(1)}%</span>
                         <span className="text-muted-foreground">{action.drepYesAda} ₳</span>
                       </div>
-                      <Progress value={action.drepYesPercent} className="h-2 bg-secondary" />
+                      <Progress
+                        value={action.drepYesPercent}
+                        marker={ratifications?.get(getActionId(action))?.bodies.drep.threshold ?? undefined}
+                        className="h-2 bg-secondary"
+                      />
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
                       <span>No: {action.drepNoPercent.toFixed(1)}%</span>
@@ -122,7 +303,7 @@ export function GovernanceTable() {
 
                   {/* SPO Votes - 3 columns */}
                   <div className="lg:col-span-3 space-y-2">
-                    {action.spoYesPercent !== undefined ? (
+                    {action.spoYesPercent !== undefined && isVotingBodyRequired(action, "spo") ? (
                       <>
                         <div className="text-sm font-medium text-muted-foreground">SPO Votes</div>
                         <div className="space-y-1">
@@ -130,7 +311,11 @@ export function GovernanceTable() {
                             <span className="text-success">Yes: {action.spoYesPercent.toFixed(1)}%</span>
                             <span className="text-muted-foreground">{action.spoYesAda || "0"} ₳</span>
                           </div>
-                          <Progress value={action.spoYesPercent} className="h-2 bg-secondary" />
+                          <Progress
+                            value={action.spoYesPercent}
+                            marker={ratifications?.get(getActionId(action))?.bodies.spo.threshold ?? undefined}
+                            className="h-2 bg-secondary"
+                          />
                         </div>
                         <div className="flex justify-between text-xs text-muted-foreground">
                           <span>No: {action.spoNoPercent?.toFixed(1) || "0"}%</span>
@@ -160,9 +345,19 @@ export function GovernanceTable() {
                 </div>
 
                 {/* Footer */}
-                <div className="mt-4 pt-4 border-t border-border/50 flex justify-between text-xs text-muted-foreground">
-                  <span>Submission: Epoch {action.submissionEpoch}</span>
-                  <span>Expiry: Epoch {action.expiryEpoch}</span>
+                <div className="mt-4 pt-4 border-t border-border/50 flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    Submission: Epoch {action.submissionEpoch} ({formatEpochDate(action.submissionEpoch)})
+                  </span>
+                  <span>
+                    Expiry: Epoch {action.expiryEpoch} ({formatEpochDate(action.expiryEpoch)})
+                    {action.status === "Active" && (
+                      <>
+                        {" · "}
+                        <ExpiryCountdown expiryEpoch={action.expiryEpoch} className="font-medium" />
+                      </>
+                    )}
+                  </span>
                 </div>
               </Card>
             ))
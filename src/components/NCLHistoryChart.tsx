@@ -0,0 +1,94 @@
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { TooltipProps } from "recharts";
+import { Card } from "@/components/ui/card";
+import { formatEpochDate } from "@/lib/cardanoTime";
+import { getNCLPeriodLabel } from "@/lib/treasury";
+import type { NCLPeriodUsage } from "@/types/governance";
+
+interface NCLHistoryChartProps {
+  periods: NCLPeriodUsage[];
+}
+
+interface NCLHistoryPoint extends NCLPeriodUsage {
+  label: string;
+}
+
+const COLORS = {
+  enacted: "hsl(var(--primary))",
+  ratified: "hsl(var(--success))",
+  // Tailwind amber-400, matching the pending badges
+  pending: "rgb(251 191 36)",
+  limit: "hsl(var(--destructive))",
+  axis: "hsl(var(--muted-foreground))",
+  grid: "hsl(var(--border))",
+};
+
+function formatCompactAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(ada);
+}
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function HistoryTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as NCLHistoryPoint;
+  const used = point.enactedAda + point.ratifiedAda;
+
+  return (
+    <div className="rounded-md border border-border bg-card p-3 text-xs shadow-md space-y-1">
+      <div className="font-semibold text-sm">{point.label}</div>
+      <div className="text-muted-foreground">
+        {formatEpochDate(point.startEpoch)} – {formatEpochDate(point.endEpoch + 1)}
+      </div>
+      <div className="text-primary">Withdrawn: {formatAda(point.enactedAda)} ₳</div>
+      {point.ratifiedAda > 0 && <div className="text-success">Ratified: {formatAda(point.ratifiedAda)} ₳</div>}
+      {point.pendingAda > 0 && <div className="text-amber-400">Pending vote: {formatAda(point.pendingAda)} ₳</div>}
+      <div className="text-destructive">Limit: {formatAda(point.limitAda)} ₳</div>
+      <div>{((used / point.limitAda) * 100).toFixed(1)}% of the limit used</div>
+    </div>
+  );
+}
+
+/** Withdrawals against each Net Change Limit period, with each period's limit */
+export function NCLHistoryChart({ periods }: NCLHistoryChartProps) {
+  const points: NCLHistoryPoint[] = periods.map((period) => ({ ...period, label: getNCLPeriodLabel(period) }));
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-semibold mb-4">Net Change Limit History</h2>
+      {points.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No Net Change Limit periods configured.</p>
+      ) : (
+        <>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} stroke={COLORS.axis} />
+                <YAxis tickFormatter={formatCompactAda} tick={{ fontSize: 12 }} stroke={COLORS.axis} width={48} />
+                <Tooltip content={<HistoryTooltip />} cursor={{ fill: COLORS.grid, fillOpacity: 0.3 }} />
+                <Bar dataKey="enactedAda" stackId="ncl" fill={COLORS.enacted} fillOpacity={0.8} maxBarSize={64} />
+                <Bar dataKey="ratifiedAda" stackId="ncl" fill={COLORS.ratified} fillOpacity={0.8} maxBarSize={64} />
+                <Bar dataKey="pendingAda" stackId="ncl" fill={COLORS.pending} fillOpacity={0.5} maxBarSize={64} />
+                <Line
+                  type="linear"
+                  dataKey="limitAda"
+                  stroke={COLORS.limit}
+                  strokeDasharray="6 4"
+                  strokeWidth={2}
+                  dot={{ r: 4, fill: COLORS.limit }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Bars stack ADA withdrawn, ratified and still being voted on in each period; the dashed line is the
+            period&apos;s limit. Pending withdrawals are only shown on the current period.
+          </p>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  VOTING_BODY_LABELS,
+  type BodyRatification,
+  type RatificationResult,
+  type RatificationVerdict,
+} from "@/lib/ratification";
+import { cn } from "@/lib/utils";
+
+interface RatificationVerdictProps {
+  result: RatificationResult;
+  className?: string;
+}
+
+function describeBlocking(result: RatificationResult): string {
+  if (result.blockingBodies.length > 0) {
+    return `Blocked by ${result.blockingBodies.map((b) => VOTING_BODY_LABELS[b]).join(", ")}`;
+  }
+  if (result.pendingBodies.length > 0) {
+    return `Awaiting ${result.pendingBodies.map((b) => VOTING_BODY_LABELS[b]).join(", ")}`;
+  }
+  return "All voting bodies above threshold";
+}
+
+const VERDICT_LABELS: Record<RatificationVerdict, string> = {
+  passing: "Currently passing",
+  failing: "Currently failing",
+  pending: "Awaiting votes",
+};
+
+const VERDICT_COLORS: Record<RatificationVerdict, string> = {
+  passing: "bg-success/20 text-success border-success/30",
+  failing: "bg-destructive/20 text-destructive border-destructive/30",
+  pending: "bg-amber-500/20 text-amber-400 border-amber-500/30",
+};
+
+function formatMargin(margin: number): string {
+  return `${margin >= 0 ? "+" : ""}${margin.toFixed(1)} pp`;
+}
+
+export function RatificationBadge({ result, className }: RatificationVerdictProps) {
+  return (
+    <Badge variant="outline" title={describeBlocking(result)} className={cn(VERDICT_COLORS[result.verdict], className)}>
+      {VERDICT_LABELS[result.verdict]}
+    </Badge>
+  );
+}
+
+function BodyRow({ body }: { body: BodyRatification }) {
+  return (
+    <div className="flex justify-between items-center text-sm">
+      <span className="text-muted-foreground">{VOTING_BODY_LABELS[body.body]}</span>
+      {body.yesPercent === null || body.margin === null ? (
+        <span className="text-muted-foreground">Needs {body.threshold?.toFixed(0)}% · no tally yet</span>
+      ) : (
+        <span>
+          {body.yesPercent.toFixed(1)}% / {body.threshold?.toFixed(0)}%{" "}
+          <span className={cn("font-semibold", body.passing ? "text-success" : "text-destructive")}>
+            ({formatMargin(body.margin)})
+          </span>
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface RatificationSummaryProps extends RatificationVerdictProps {
+  /** Hide the passing/failing verdict, e.g. once voting has closed */
+  showVerdict?: boolean;
+}
+
+export function RatificationSummary({ result, className, showVerdict = true }: RatificationSummaryProps) {
+  const requiredBodies = Object.values(result.bodies).filter((b) => b.required);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {showVerdict && (
+        <div className="flex items-center justify-between gap-2">
+          <RatificationBadge result={result} />
+          <span className="text-xs text-muted-foreground text-right">{describeBlocking(result)}</span>
+        </div>
+      )}
+      <div className="space-y-2">
+        {requiredBodies.map((body) => (
+          <BodyRow key={body.body} body={body} />
+        ))}
+      </div>
+    </div>
+  );
+}
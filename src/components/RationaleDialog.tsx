@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { IntegrityBadge, useAnchorVerification } from "@/components/AnchorIntegrityBadge";
+import { ApiError, fetchRationale, getAnchorHref } from "@/lib/api";
+import { hasRationaleText } from "@/lib/rationale";
+import type { VoteRationale, VoteRecord } from "@/types/governance";
+import { AlertTriangle, ExternalLink, FileText, ShieldAlert } from "lucide-react";
+
+interface RationaleDialogProps {
+  voterName: string;
+  vote: VoteRecord["vote"];
+  anchorUrl: string;
+  anchorHash?: string;
+  /** Action the vote was cast on, so the server can index the rationale for search */
+  actionHash?: string;
+}
+
+type RationaleState =
+  | { status: "idle" | "loading" }
+  | { status: "loaded"; rationale: VoteRationale }
+  | { status: "error"; title: string; message: string };
+
+function getVoteBadgeClasses(vote: VoteRecord["vote"]): string {
+  switch (vote) {
+    case "Yes":
+      return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30 hover:bg-emerald-500/30";
+    case "No":
+      return "bg-red-500/20 text-red-400 border-red-500/30 hover:bg-red-500/30";
+    case "Abstain":
+      return "bg-gray-500/20 text-gray-400 border-gray-500/30 hover:bg-gray-500/30";
+    default:
+      return "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  }
+}
+
+function getErrorTitle(error: Error): string {
+  if (!(error instanceof ApiError)) return "Could not load rationale";
+  switch (error.status) {
+    case 400:
+      return "Unsupported anchor";
+    case 422:
+      return "Malformed rationale document";
+    case 502:
+      return "Rationale document unreachable";
+    default:
+      return "Could not load rationale";
+  }
+}
+
+function Section({ title, text }: { title: string; text?: string }) {
+  if (!text) return null;
+  return (
+    <div>
+      <h4 className="font-semibold mb-1">{title}</h4>
+      <div className="text-sm text-muted-foreground whitespace-pre-wrap">{text}</div>
+    </div>
+  );
+}
+
+/** Renders a parsed rationale; shared by the vote dialog and the rationale editor preview */
+export function RationaleContent({ rationale }: { rationale: VoteRationale }) {
+  return (
+    <div className="space-y-4">
+      {!hasRationaleText(rationale) && (
+        <p className="text-sm text-muted-foreground">The document does not contain any rationale text.</p>
+      )}
+      <Section title="Summary" text={rationale.summary} />
+      <Section title="Rationale" text={rationale.rationaleStatement} />
+      <Section title="Precedent Discussion" text={rationale.precedentDiscussion} />
+      <Section title="Counterarguments" text={rationale.counterargumentDiscussion} />
+      <Section title="Conclusion" text={rationale.conclusion} />
+      <Section title="Comment" text={rationale.comment} />
+
+      {rationale.references.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-1">References</h4>
+          <ul className="space-y-1 text-sm">
+            {rationale.references.map((reference) => (
+              <li key={reference.uri}>
+                <a
+                  href={getAnchorHref(reference.uri)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline inline-flex items-center gap-1 break-all">
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                  {reference.label}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {rationale.authors.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-1">Authors</h4>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {rationale.authors.map((author, index) => (
+              <li key={`${author.publicKey ?? author.name}-${index}`}>
+                {author.name ?? "Anonymous"}
+                {author.publicKey && (
+                  <span className="ml-2 font-mono text-xs" title={author.publicKey}>
+                    {author.witnessAlgorithm ?? "key"}: {author.publicKey.slice(0, 16)}...
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Button that opens a dialog with the rationale document behind a vote's anchor */
+export function RationaleDialog({ voterName, vote, anchorUrl, anchorHash, actionHash }: RationaleDialogProps) {
+  const [state, setState] = useState<RationaleState>({ status: "idle" });
+  const verification = useAnchorVerification(anchorUrl, anchorHash);
+
+  const handleOpenChange = (open: boolean) => {
+    // Anchored documents are immutable, so one successful load is enough
+    if (!open || state.status === "loading" || state.status === "loaded") return;
+
+    setState({ status: "loading" });
+    fetchRationale(anchorUrl, actionHash)
+      .then((rationale) => setState({ status: "loaded", rationale }))
+      .catch((err: Error) => setState({ status: "error", title: getErrorTitle(err), message: err.message }));
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <IntegrityBadge verification={verification} />
+      <Dialog onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <FileText className="h-4 w-4 mr-1" />
+            View
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-3xl max-h-[80vh]">
+          <DialogHeader>
+            <DialogTitle>Voting Rationale - {voterName}</DialogTitle>
+            <DialogDescription>View the detailed reasoning for this vote</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-[500px] w-full rounded-md border p-4">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={getVoteBadgeClasses(vote)}>
+                    {vote}
+                  </Badge>
+                  <IntegrityBadge verification={verification} />
+                </div>
+                <a
+                  href={getAnchorHref(anchorUrl)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline text-sm flex items-center gap-1">
+                  <ExternalLink className="h-3 w-3" />
+                  Open original document
+                </a>
+              </div>
+              {verification?.integrity === "mismatch" && (
+                <div className="flex gap-3 rounded-md border border-destructive/30 bg-destructive/10 p-4">
+                  <ShieldAlert className="h-5 w-5 shrink-0 text-destructive" />
+                  <div className="text-sm">
+                    <div className="font-semibold text-destructive">Document does not match its on-chain hash</div>
+                    <div className="text-muted-foreground">
+                      The rationale below may have been changed after the vote was cast.
+                    </div>
+                  </div>
+                </div>
+              )}
+              {state.status === "loaded" && <RationaleContent rationale={state.rationale} />}
+              {state.status === "error" && (
+                <div className="flex gap-3 rounded-md border border-destructive/30 bg-destructive/10 p-4">
+                  <AlertTriangle className="h-5 w-5 shrink-0 text-destructive" />
+                  <div>
+                    <div className="font-semibold text-destructive">{state.title}</div>
+                    <div className="text-sm text-muted-foreground break-all">{state.message}</div>
+                  </div>
+                </div>
+              )}
+              {(state.status === "idle" || state.status === "loading") && (
+                <p className="text-sm text-muted-foreground">Loading rationale document...</p>
+              )}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+      <a
+        href={getAnchorHref(anchorUrl)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary hover:underline">
+        <ExternalLink className="h-4 w-4" />
+      </a>
+    </div>
+  );
+}
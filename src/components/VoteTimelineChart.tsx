@@ -0,0 +1,199 @@
+import { useMemo, useState } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { TooltipProps } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { buildVoteTimeline, LARGE_VOTE_SHARE } from "@/lib/voteTimeline";
+import type { DRepStakeBase, TimelineGranularity, VoteTimelinePoint } from "@/lib/voteTimeline";
+import type { VoteRecord } from "@/types/governance";
+
+interface VoteTimelineChartProps {
+  votes: VoteRecord[];
+  /** Required DRep Yes share in percent, null when DReps don't vote on the action */
+  threshold: number | null;
+  /** The DRep denominator; the Yes share and threshold are left out until it is known */
+  stakeBase: DRepStakeBase | null;
+}
+
+const COLORS = {
+  Yes: "hsl(var(--success))",
+  No: "hsl(var(--destructive))",
+  Abstain: "hsl(var(--muted-foreground))",
+  share: "hsl(var(--primary))",
+  grid: "hsl(var(--border))",
+};
+
+function formatCompactAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(ada);
+}
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function TimelineTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as VoteTimelinePoint;
+
+  return (
+    <div className="rounded-md border border-border bg-card p-3 text-xs shadow-md space-y-1">
+      <div className="font-semibold text-sm">{point.label}</div>
+      <div className="text-success">Yes: {formatAda(point.yesAda)} ₳</div>
+      <div className="text-destructive">No: {formatAda(point.noAda)} ₳</div>
+      <div className="text-muted-foreground">Abstain: {formatAda(point.abstainAda)} ₳</div>
+      {point.yesPercent !== null && <div>Yes share: {point.yesPercent.toFixed(1)}%</div>}
+      {point.largeVotes.length > 0 && (
+        <div className="pt-1 mt-1 border-t border-border space-y-0.5">
+          {point.largeVotes.map((vote) => (
+            <div key={vote.drepId}>
+              {vote.drepName} voted {vote.vote} with {formatCompactAda(vote.votingPowerAda)} ₳
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Cumulative DRep stake per vote over time, with the Yes share against the ratification threshold */
+export function VoteTimelineChart({ votes, threshold: requiredShare, stakeBase }: VoteTimelineChartProps) {
+  const [granularity, setGranularity] = useState<TimelineGranularity>("day");
+  const threshold = stakeBase ? requiredShare : null;
+  const timeline = useMemo(
+    () => buildVoteTimeline(votes, granularity, threshold, stakeBase),
+    [votes, granularity, threshold, stakeBase]
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold">Vote Timeline</h2>
+        <Tabs value={granularity} onValueChange={(value) => setGranularity(value as TimelineGranularity)}>
+          <TabsList>
+            <TabsTrigger value="day">By day</TabsTrigger>
+            <TabsTrigger value="epoch">By epoch</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {timeline.points.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No DRep votes yet.</p>
+      ) : (
+        <>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timeline.points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} stroke={COLORS.Abstain} minTickGap={16} />
+                <YAxis
+                  yAxisId="stake"
+                  tickFormatter={formatCompactAda}
+                  tick={{ fontSize: 12 }}
+                  stroke={COLORS.Abstain}
+                  width={48}
+                />
+                <YAxis
+                  yAxisId="share"
+                  orientation="right"
+                  domain={[0, 100]}
+                  tickFormatter={(value: number) => `${value}%`}
+                  tick={{ fontSize: 12 }}
+                  stroke={COLORS.Abstain}
+                  width={40}
+                />
+                <Tooltip content={<TimelineTooltip />} />
+                <Area
+                  yAxisId="stake"
+                  type="stepAfter"
+                  dataKey="yesAda"
+                  stackId="stake"
+                  stroke={COLORS.Yes}
+                  fill={COLORS.Yes}
+                  fillOpacity={0.3}
+                />
+                <Area
+                  yAxisId="stake"
+                  type="stepAfter"
+                  dataKey="noAda"
+                  stackId="stake"
+                  stroke={COLORS.No}
+                  fill={COLORS.No}
+                  fillOpacity={0.3}
+                />
+                <Area
+                  yAxisId="stake"
+                  type="stepAfter"
+                  dataKey="abstainAda"
+                  stackId="stake"
+                  stroke={COLORS.Abstain}
+                  fill={COLORS.Abstain}
+                  fillOpacity={0.2}
+                />
+                <Line
+                  yAxisId="share"
+                  type="monotone"
+                  dataKey="yesPercent"
+                  stroke={COLORS.share}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+                {threshold !== null && (
+                  <ReferenceLine
+                    yAxisId="share"
+                    y={threshold}
+                    stroke={COLORS.share}
+                    strokeDasharray="6 4"
+                    label={{ value: `Threshold ${threshold.toFixed(0)}%`, position: "insideTopLeft", fontSize: 12 }}
+                  />
+                )}
+                {timeline.points.flatMap((point) =>
+                  point.yesPercent === null
+                    ? []
+                    : point.largeVotes.map((vote) => (
+                        <ReferenceDot
+                          key={`${point.key}-${vote.drepId}`}
+                          yAxisId="share"
+                          x={point.label}
+                          y={point.yesPercent ?? 0}
+                          r={5}
+                          fill={COLORS[vote.vote]}
+                          stroke="hsl(var(--background))"
+                        />
+                      ))
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="mt-4 space-y-1 text-xs text-muted-foreground">
+            <p>
+              Areas show cumulative stake per vote;{" "}
+              {stakeBase
+                ? "the line is the Yes share of all active DRep stake and Always No Confidence, less Abstain votes, as the threshold counts it."
+                : "the Yes share appears once the active DRep stake has loaded."}{" "}
+              Dots mark votes carrying at least {(LARGE_VOTE_SHARE * 100).toFixed(0)}% of the voting stake.
+            </p>
+            {timeline.tippingVote && (
+              <p className="text-foreground">
+                {`Crossed the threshold with ${timeline.tippingVote.drepName}'s Yes vote ` +
+                  `(${formatCompactAda(timeline.tippingVote.votingPowerAda)} ₳) ` +
+                  `on ${new Date(timeline.tippingVote.votedAt).toLocaleDateString()}.`}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -1,9 +1,11 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
 import {
   Select,
   SelectContent,
@@ -11,20 +13,38 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import type { VoteRecord } from "@/types/governance";
-import { Search, ExternalLink, FileText } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RationaleDialog } from "@/components/RationaleDialog";
+import { ExportButtons } from "@/components/ExportButtons";
+import { isActiveMember } from "@/lib/committee";
+import { VOTING_RECORD_FILTERS } from "@/lib/filters";
+import { useFilterQuerySync } from "@/lib/filterQuerySync";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { setVoteFilter, setVoterRole, setVoterSearch, setVoteSort } from "@/store/governanceSlice";
+import { fetchDRepVotePage, fetchSpoVotePage, getVotesExportUrl, type VotePageQuery } from "@/lib/api";
+import { dateToEpoch } from "@/lib/cardanoTime";
+import { getDelegationLabel } from "@/lib/delegation";
+import type {
+  AccountDelegation,
+  Committee,
+  CommitteeMember,
+  CommitteeVoteRecord,
+  SpoVoteRecord,
+  VotePage,
+  VoteRecord,
+  VoteSortKey,
+  VoteType,
+  VotingBody,
+} from "@/types/governance";
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from "lucide-react";
 
 interface VotingRecordsProps {
-  votes: VoteRecord[];
+  /** Action the votes were cast on; DRep and SPO votes are paged in for it */
+  actionHash: string;
+  committeeVotes?: CommitteeVoteRecord[];
+  committee?: Committee | null;
+  /** Epoch used to decide which committee members are active */
+  epoch?: number;
 }
 
 function formatAda(ada: number): string {
@@ -46,243 +66,662 @@ function getVoteBadgeClasses(vote: VoteRecord["vote"]): string {
   }
 }
 
-export function VotingRecords({ votes }: VotingRecordsProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [voteFilter, setVoteFilter] = useState<string>("all");
+function formatCredential(credential: string): string {
+  if (credential.length <= 24) return credential;
+  return `${credential.slice(0, 14)}...${credential.slice(-8)}`;
+}
+
+const SEARCH_PLACEHOLDERS: Record<VotingBody, string> = {
+  drep: "Search by DRep name or ID...",
+  spo: "Search by pool name, ticker or ID...",
+  committee: "Search by member name or credential...",
+};
 
-  const filteredVotes = votes.filter((vote) => {
-    const matchesSearch =
-      searchQuery === "" ||
-      vote.drepName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      vote.drepId.toLowerCase().includes(searchQuery.toLowerCase());
+const EXPORT_LABELS: Record<VotingBody, string> = {
+  drep: "DRep",
+  spo: "SPO",
+  committee: "Constitutional Committee",
+};
+
+function EmptyRow({ colSpan, message = "No voting records found" }: { colSpan: number; message?: string }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="text-center text-muted-foreground py-12">
+        {message}
+      </TableCell>
+    </TableRow>
+  );
+}
 
-    const matchesVote = voteFilter === "all" || vote.vote.toLowerCase() === voteFilter;
+const ROW_HEIGHT_ESTIMATE = 64;
+/** Fetch the next page once the rendered window is this close to the loaded rows' end */
+const LOAD_MORE_THRESHOLD = 20;
+const SEARCH_DEBOUNCE_MS = 250;
 
-    return matchesSearch && matchesVote;
+interface VotePagesState<T> {
+  items: T[];
+  total: number;
+  tally: VotePage<T>["tally"] | null;
+  nextCursor: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface VotePages<T> extends VotePagesState<T> {
+  loadMore: () => void;
+  retry: () => void;
+}
+
+/**
+ * Loads an action's votes page by page from the votes search API. Changing
+ * the query starts over from the first page; responses for a superseded
+ * query are dropped.
+ */
+function useVotePages<T>(
+  fetchPage: (hash: string, query: VotePageQuery) => Promise<VotePage<T>>,
+  actionHash: string,
+  query: VotePageQuery,
+  enabled: boolean
+): VotePages<T> {
+  const [state, setState] = useState<VotePagesState<T>>({
+    items: [],
+    total: 0,
+    tally: null,
+    nextCursor: null,
+    loading: false,
+    error: null,
   });
+  const requestId = useRef(0);
+  const queryKey = JSON.stringify(query);
 
-  const voteStats = {
-    total: votes.length,
-    yes: votes.filter((v) => v.vote === "Yes").length,
-    no: votes.filter((v) => v.vote === "No").length,
-    abstain: votes.filter((v) => v.vote === "Abstain").length,
+  const load = useCallback(
+    (cursor?: string) => {
+      const id = ++requestId.current;
+      setState((current) =>
+        cursor
+          ? { ...current, loading: true, error: null }
+          : { ...current, items: [], nextCursor: null, loading: true, error: null }
+      );
+      fetchPage(actionHash, { ...(JSON.parse(queryKey) as VotePageQuery), cursor })
+        .then((page) => {
+          if (id !== requestId.current) return;
+          setState((current) => ({
+            items: cursor ? [...current.items, ...page.items] : page.items,
+            total: page.total,
+            tally: page.tally,
+            nextCursor: page.nextCursor,
+            loading: false,
+            error: null,
+          }));
+        })
+        .catch((err: Error) => {
+          if (id === requestId.current) setState((current) => ({ ...current, loading: false, error: err.message }));
+        });
+    },
+    [fetchPage, actionHash, queryKey]
+  );
+
+  useEffect(() => {
+    if (enabled) load();
+  }, [enabled, load]);
+
+  const { loading, nextCursor } = state;
+  const loadMore = useCallback(() => {
+    if (!loading && nextCursor) load(nextCursor);
+  }, [loading, nextCursor, load]);
+  const retry = useCallback(() => load(nextCursor ?? undefined), [nextCursor, load]);
+
+  return { ...state, loadMore, retry };
+}
+
+interface VoteColumn {
+  label: string;
+  sortKey?: VoteSortKey;
+  className?: string;
+}
+
+interface VirtualVotesTableProps<T> {
+  pages: VotePages<T>;
+  columns: VoteColumn[];
+  getKey: (vote: T) => string;
+  renderCells: (vote: T) => ReactNode;
+  /** Scroll position is reset whenever this changes */
+  resetKey: string;
+  /** Row kept above the scrolling list, e.g. the connected wallet's DRep */
+  pinned?: ReactNode;
+}
+
+/**
+ * Renders only the rows in view, padding the table body above and below so
+ * the scrollbar reflects every loaded row, and pulls further pages in as the
+ * window nears the end.
+ */
+function VirtualVotesTable<T>({ pages, columns, getKey, renderCells, resetKey, pinned }: VirtualVotesTableProps<T>) {
+  const dispatch = useAppDispatch();
+  const { voteSortBy, voteSortDirection } = useAppSelector((state) => state.governance.filters);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { items, total, loading, error, loadMore, retry } = pages;
+
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT_ESTIMATE,
+    getItemKey: (index) => getKey(items[index]),
+    overscan: 10,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom =
+    virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+  const lastRenderedIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  useEffect(() => {
+    if (items.length > 0 && lastRenderedIndex >= items.length - LOAD_MORE_THRESHOLD) loadMore();
+  }, [lastRenderedIndex, items.length, loadMore]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [resetKey]);
+
+  const toggleSort = (sortBy: VoteSortKey) => {
+    const sortDirection = sortBy === voteSortBy && voteSortDirection === "desc" ? "asc" : "desc";
+    dispatch(setVoteSort({ sortBy, sortDirection }));
   };
 
   return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div>
-        <h2 className="text-2xl font-bold mb-2">Voting Records</h2>
-        <p className="text-muted-foreground">Individual DRep votes and their rationale</p>
+    <Card>
+      <div ref={scrollRef} className="max-h-[640px] overflow-auto">
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-card">
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead key={column.label} className={column.className}>
+                  {column.sortKey ? (
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.sortKey as VoteSortKey)}
+                      className="inline-flex items-center gap-1 hover:text-foreground">
+                      {column.label}
+                      {column.sortKey !== voteSortBy ? (
+                        <ArrowUpDown className="h-3 w-3 opacity-50" />
+                      ) : voteSortDirection === "asc" ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pinned}
+            {items.length === 0 ? (
+              <EmptyRow
+                colSpan={columns.length}
+                message={loading ? "Loading votes..." : error ? `Failed to load votes: ${error}` : undefined}
+              />
+            ) : (
+              <>
+                {paddingTop > 0 && (
+                  <tr>
+                    <td colSpan={columns.length} style={{ height: paddingTop }} />
+                  </tr>
+                )}
+                {virtualRows.map((row) => (
+                  <TableRow
+                    key={row.key}
+                    data-index={row.index}
+                    ref={virtualizer.measureElement}
+                    className="hover:bg-muted/50">
+                    {renderCells(items[row.index])}
+                  </TableRow>
+                ))}
+                {paddingBottom > 0 && (
+                  <tr>
+                    <td colSpan={columns.length} style={{ height: paddingBottom }} />
+                  </tr>
+                )}
+              </>
+            )}
+          </TableBody>
+        </Table>
       </div>
+      {items.length > 0 && (
+        <div className="flex items-center justify-between gap-4 border-t border-border px-4 py-2 text-xs text-muted-foreground">
+          <span>
+            Showing {items.length.toLocaleString()} of {total.toLocaleString()} votes
+          </span>
+          {loading ? (
+            <span>Loading more...</span>
+          ) : error ? (
+            <button type="button" onClick={retry} className="text-destructive hover:underline">
+              Failed to load more votes, retry
+            </button>
+          ) : null}
+        </div>
+      )}
+    </Card>
+  );
+}
 
-      {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <Card className="p-4">
-          <div className="text-2xl font-bold">{voteStats.total}</div>
-          <div className="text-sm text-muted-foreground">Total Votes</div>
-        </Card>
-        <Card className="p-4 border-success/30">
-          <div className="text-2xl font-bold text-success">{voteStats.yes}</div>
-          <div className="text-sm text-muted-foreground">Yes Votes</div>
-        </Card>
-        <Card className="p-4 border-destructive/30">
-          <div className="text-2xl font-bold text-destructive">{voteStats.no}</div>
-          <div className="text-sm text-muted-foreground">No Votes</div>
-        </Card>
-        <Card className="p-4">
-          <div className="text-2xl font-bold">{voteStats.abstain}</div>
-          <div className="text-sm text-muted-foreground">Abstain</div>
-        </Card>
-      </div>
+const DREP_COLUMNS: VoteColumn[] = [
+  { label: "DRep" },
+  { label: "Vote" },
+  { label: "Voting Power", sortKey: "power" },
+  { label: "Voted At", sortKey: "time" },
+  { label: "Rationale", className: "text-right" },
+];
 
-      {/* Filters */}
-      <Card className="p-4">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search by DRep name or ID..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
-          </div>
-          <Select value={voteFilter} onValueChange={setVoteFilter}>
-            <SelectTrigger>
-              <SelectValue placeholder="Filter by vote" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Votes</SelectItem>
-              <SelectItem value="yes">Yes</SelectItem>
-              <SelectItem value="no">No</SelectItem>
-              <SelectItem value="abstain">Abstain</SelectItem>
-            </SelectContent>
-          </Select>
+function DRepVoteCells({ vote, actionHash, pinned }: { vote: VoteRecord; actionHash: string; pinned?: boolean }) {
+  return (
+    <>
+      <TableCell>
+        <div>
+          <Link href={`/drep/${encodeURIComponent(vote.drepId)}`} className="font-semibold hover:underline">
+            {vote.drepName}
+          </Link>
+          {pinned && (
+            <Badge variant="outline" className="ml-2 bg-primary/20 text-primary border-primary/30">
+              Your DRep
+            </Badge>
+          )}
+          <div className="text-xs text-muted-foreground font-mono">{vote.drepId.slice(0, 20)}...</div>
+        </div>
+      </TableCell>
+      <TableCell>
+        <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
+          {vote.vote}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <div>
+          <div className="font-semibold">{formatAda(vote.votingPowerAda)}</div>
+          <div className="text-xs text-muted-foreground">{vote.votingPower} ADA</div>
+        </div>
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">
+        <div>{new Date(vote.votedAt).toLocaleDateString()}</div>
+        <div className="text-xs">Epoch {dateToEpoch(new Date(vote.votedAt))}</div>
+      </TableCell>
+      <TableCell className="text-right">
+        {vote.anchorUrl ? (
+          <RationaleDialog
+            voterName={vote.drepName}
+            vote={vote.vote}
+            anchorUrl={vote.anchorUrl}
+            anchorHash={vote.anchorHash}
+            actionHash={actionHash}
+          />
+        ) : (
+          <span className="text-xs text-muted-foreground">No rationale</span>
+        )}
+      </TableCell>
+    </>
+  );
+}
+
+/** The connected wallet's DRep and their vote on this action, looked up by DRep ID */
+function DelegatedDRepRow({ delegation, actionHash }: { delegation: AccountDelegation; actionHash: string }) {
+  const drepId = delegation.drepId?.startsWith("drep1") ? delegation.drepId : null;
+  const [vote, setVote] = useState<VoteRecord | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!drepId) return;
+    let cancelled = false;
+    setVote(undefined);
+    fetchDRepVotePage(actionHash, { q: drepId, limit: 1 })
+      .then((page) => {
+        if (!cancelled) setVote(page.items.find((item) => item.drepId === drepId) ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setVote(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [actionHash, drepId]);
+
+  if (drepId && vote) {
+    return (
+      <TableRow className="bg-primary/10 hover:bg-primary/15 border-b-2 border-primary/30">
+        <DRepVoteCells vote={vote} actionHash={actionHash} pinned />
+      </TableRow>
+    );
+  }
+  const message = !drepId
+    ? `Your stake is delegated to ${getDelegationLabel(delegation)}`
+    : vote === null
+      ? `Your DRep, ${getDelegationLabel(delegation)}, has not voted on this action`
+      : "Looking up your DRep's vote...";
+  return (
+    <TableRow className="bg-primary/10 hover:bg-primary/10 border-b-2 border-primary/30">
+      <TableCell colSpan={DREP_COLUMNS.length} className="text-sm">
+        {message}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function getPoolName(vote: SpoVoteRecord): string {
+  return vote.poolName ?? vote.ticker ?? formatCredential(vote.poolId);
+}
+
+const SPO_COLUMNS: VoteColumn[] = [
+  { label: "Pool" },
+  { label: "Vote" },
+  { label: "Active Stake", sortKey: "power" },
+  { label: "Pledge" },
+  { label: "Voted At", sortKey: "time" },
+  { label: "Rationale", className: "text-right" },
+];
+
+function SpoVoteCells({ vote, actionHash }: { vote: SpoVoteRecord; actionHash: string }) {
+  return (
+    <>
+      <TableCell>
+        <div className="font-semibold">
+          {getPoolName(vote)}
+          {vote.ticker && vote.poolName && <span className="ml-2 text-xs text-muted-foreground">[{vote.ticker}]</span>}
+        </div>
+        <div className="text-xs text-muted-foreground font-mono" title={vote.poolId}>
+          {formatCredential(vote.poolId)}
         </div>
-      </Card>
-
-      {/* Voting Table */}
-      <Card>
-        <div className="overflow-x-auto">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>DRep</TableHead>
-                <TableHead>Vote</TableHead>
-                <TableHead>Voting Power</TableHead>
-                <TableHead>Voted At</TableHead>
-                <TableHead className="text-right">Rationale</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredVotes.length === 0 ? (
-                <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground py-12">
-                    No voting records found
-                  </TableCell>
-                </TableRow>
-              ) : (
-                filteredVotes.map((vote, index) => (
-                  <TableRow key={`${vote.drepId}-${index}`} className="hover:bg-muted/50">
+      </TableCell>
+      <TableCell>
+        <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
+          {vote.vote}
+        </Badge>
+      </TableCell>
+      <TableCell className="font-semibold">{formatAda(vote.activeStakeAda)} ₳</TableCell>
+      <TableCell className="text-sm text-muted-foreground">{formatAda(vote.pledgeAda)} ₳</TableCell>
+      <TableCell className="text-sm text-muted-foreground">
+        <div>{new Date(vote.votedAt).toLocaleDateString()}</div>
+        <div className="text-xs">Epoch {dateToEpoch(new Date(vote.votedAt))}</div>
+      </TableCell>
+      <TableCell className="text-right">
+        {vote.anchorUrl ? (
+          <RationaleDialog
+            voterName={getPoolName(vote)}
+            vote={vote.vote}
+            anchorUrl={vote.anchorUrl}
+            anchorHash={vote.anchorHash}
+            actionHash={actionHash}
+          />
+        ) : (
+          <span className="text-xs text-muted-foreground">No rationale</span>
+        )}
+      </TableCell>
+    </>
+  );
+}
+
+interface CommitteeRosterProps {
+  members: CommitteeMember[];
+  voteByMember: Map<string, CommitteeVoteRecord>;
+  epoch: number;
+  available: boolean;
+  actionHash?: string;
+}
+
+function CommitteeRoster({ members, voteByMember, epoch, available, actionHash }: CommitteeRosterProps) {
+  return (
+    <Card>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Hot Credential</TableHead>
+              <TableHead>Term Expiry</TableHead>
+              <TableHead>Vote</TableHead>
+              <TableHead className="text-right">Rationale</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.length === 0 ? (
+              <EmptyRow
+                colSpan={5}
+                message={available ? "No voting records found" : "Committee data is not available"}
+              />
+            ) : (
+              members.map((member) => {
+                const vote = voteByMember.get(member.coldCredential);
+                const name = member.name ?? vote?.memberName ?? formatCredential(member.coldCredential);
+                return (
+                  <TableRow key={member.coldCredential} className="hover:bg-muted/50">
                     <TableCell>
-                      <div>
-                        <div className="font-semibold">{vote.drepName}</div>
-                        <div className="text-xs text-muted-foreground font-mono">{vote.drepId.slice(0, 20)}...</div>
+                      <div className="font-semibold">{name}</div>
+                      <div className="text-xs text-muted-foreground font-mono" title={member.coldCredential}>
+                        {formatCredential(member.coldCredential)}
                       </div>
                     </TableCell>
-                    <TableCell>
-                      <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
-                        {vote.vote}
-                      </Badge>
+                    <TableCell className="text-xs font-mono text-muted-foreground">
+                      {member.hotCredential ? (
+                        <span title={member.hotCredential}>{formatCredential(member.hotCredential)}</span>
+                      ) : (
+                        "Not authorized"
+                      )}
                     </TableCell>
-                    <TableCell>
-                      <div>
-                        <div className="font-semibold">{formatAda(vote.votingPowerAda)}</div>
-                        <div className="text-xs text-muted-foreground">{vote.votingPower} ADA</div>
-                      </div>
+                    <TableCell className="text-sm">
+                      <div>Epoch {member.expiryEpoch}</div>
+                      {!isActiveMember(member, epoch) && (
+                        <div className="text-xs text-muted-foreground">
+                          {member.status === "Authorized" ? "Expired" : "Inactive"}
+                        </div>
+                      )}
                     </TableCell>
-                    <TableCell className="text-sm text-muted-foreground">
-                      {new Date(vote.votedAt).toLocaleDateString()}
+                    <TableCell>
+                      {vote ? (
+                        <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
+                          {vote.vote}
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Not voted</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
-                      {vote.anchorUrl ? (
-                        <div className="flex items-center justify-end gap-2">
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <Button size="sm" variant="ghost">
-                                <FileText className="h-4 w-4 mr-1" />
-                                View
-                              </Button>
-                            </DialogTrigger>
-                            <DialogContent className="max-w-3xl max-h-[80vh]">
-                              <DialogHeader>
-                                <DialogTitle>Voting Rationale - {vote.drepName}</DialogTitle>
-                                <DialogDescription>
-                                  View the detailed reasoning for this vote
-                                </DialogDescription>
-                              </DialogHeader>
-                              <ScrollArea className="h-[500px] w-full rounded-md border p-4">
-                                <div className="space-y-4">
-                                  <div className="flex items-center justify-between mb-4">
-                                    <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
-                                      {vote.vote}
-                                    </Badge>
-                                    <a
-                                      href={vote.anchorUrl}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-primary hover:underline text-sm flex items-center gap-1"
-                                    >
-                                      <ExternalLink className="h-3 w-3" />
-                                      Open on IPFS
-                                    </a>
-                                  </div>
-                                  <div className="text-sm text-muted-foreground whitespace-pre-wrap">
-                                    {getMockRationale(vote.drepName, vote.vote)}
-                                  </div>
-                                </div>
-                              </ScrollArea>
-                            </DialogContent>
-                          </Dialog>
-                          <a
-                            href={vote.anchorUrl}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-primary hover:underline"
-                          >
-                            <ExternalLink className="h-4 w-4" />
-                          </a>
-                        </div>
+                      {vote?.anchorUrl ? (
+                        <RationaleDialog
+                          voterName={name}
+                          vote={vote.vote}
+                          anchorUrl={vote.anchorUrl}
+                          anchorHash={vote.anchorHash}
+                          actionHash={actionHash}
+                        />
                       ) : (
                         <span className="text-xs text-muted-foreground">No rationale</span>
                       )}
                     </TableCell>
                   </TableRow>
-                ))
-              )}
-            </TableBody>
-          </Table>
-        </div>
-      </Card>
-    </div>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
   );
 }
 
-// Mock rationale function - in real app, this would fetch from IPFS
-function getMockRationale(drepName: string, vote: string): string {
-  if (drepName === "SIPO") {
-    return `SIPO has chosen to ${vote} on this proposal.
-
-Our decision reflects both recognition of the proposal's innovation and concern for its structural implications on fairness, governance precedent, and long-term ecosystem balance.
-
-On the Loan-Based Treasury Model
-SIPO deeply appreciates the innovation behind this proposal—the introduction of a repayable, interest-bearing treasury loan.
-This marks a significant step toward treating Cardano's treasury not merely as a grant pool, but as a public revolving fund—a self-sustaining capital engine for ecosystem growth.
-
-Such a model introduces accountability and enables the treasury to recycle its funds through investment, repayment, and reinvestment, strengthening Cardano's financial autonomy and maturity as a decentralized system.
-
-Why SIPO ${vote}s
-SIPO supports the spirit and direction of this proposal:
-• Introducing a repayable, audited, legally binding treasury mechanism;
-• Enhancing visibility and liquidity for Cardano Native Tokens;
-• And promoting sustainable financial governance.
-
-We believe this pilot can become an educational milestone—demonstrating how a decentralized treasury can evolve from "funding" to responsible capital management, if built with transparency and replicability in mind.`;
-  }
-
-  const templates = {
-    Yes: `After careful consideration, ${drepName} votes YES on this proposal.
+function getVoteStats(votes: { vote: VoteRecord["vote"] }[]) {
+  return {
+    total: votes.length,
+    yes: votes.filter((v) => v.vote === "Yes").length,
+    no: votes.filter((v) => v.vote === "No").length,
+    abstain: votes.filter((v) => v.vote === "Abstain").length,
+  };
+}
 
-We believe this initiative aligns with Cardano's long-term vision and will contribute positively to the ecosystem's growth. The proposal demonstrates:
+function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+}
 
-• Clear objectives and measurable outcomes
-• Responsible use of treasury funds
-• Strong community support and engagement
-• Alignment with Cardano's governance principles
+export function VotingRecords({ committeeVotes = [], committee, actionHash, epoch = 0 }: VotingRecordsProps) {
+  const dispatch = useAppDispatch();
+  const {
+    voterRole: role,
+    voterSearch,
+    voteFilter,
+    voteSortBy,
+    voteSortDirection,
+  } = useAppSelector((state) => state.governance.filters);
+  useFilterQuerySync(VOTING_RECORD_FILTERS);
+  const delegation = useAppSelector((state) => state.wallet.delegation);
 
-We support this action and look forward to seeing its positive impact on the ecosystem.`,
-    No: `${drepName} votes NO on this proposal.
+  // DRep and SPO votes are searched, filtered and sorted server side
+  const debouncedSearch = useDebouncedValue(voterSearch.trim(), SEARCH_DEBOUNCE_MS);
+  const pageQuery = useMemo(
+    (): VotePageQuery => ({
+      q: debouncedSearch || undefined,
+      vote: voteFilter === "All" ? undefined : voteFilter,
+      sort: voteSortBy,
+      dir: voteSortDirection,
+    }),
+    [debouncedSearch, voteFilter, voteSortBy, voteSortDirection]
+  );
+  const resetKey = JSON.stringify(pageQuery);
+  const drepPages = useVotePages(fetchDRepVotePage, actionHash, pageQuery, role === "drep");
+  const spoPages = useVotePages(fetchSpoVotePage, actionHash, pageQuery, role === "spo");
 
-While we appreciate the effort behind this submission, we have concerns about:
+  // The committee is small enough to filter in place
+  const query = voterSearch.toLowerCase();
+  const voteByMember = new Map(committeeVotes.map((vote) => [vote.coldCredential, vote]));
+  const filteredMembers = (committee?.members ?? []).filter((member) => {
+    const vote = voteByMember.get(member.coldCredential);
+    const matchesSearch =
+      query === "" ||
+      [member.name, member.coldCredential, member.hotCredential].some((field) => field?.toLowerCase().includes(query));
+    return matchesSearch && (voteFilter === "All" || vote?.vote === voteFilter);
+  });
 
-• The current structure and implementation plan
-• Potential risks to the treasury and ecosystem
-• Lack of sufficient detail in certain areas
-• Questions about long-term sustainability
+  const tally = role === "drep" ? drepPages.tally : role === "spo" ? spoPages.tally : getVoteStats(committeeVotes);
+  const voteStats = tally
+    ? { ...tally, total: tally.yes + tally.no + tally.abstain }
+    : { total: "–", yes: "–", no: "–", abstain: "–" };
 
-We encourage the proposers to address these concerns and potentially resubmit with improvements.`,
-    Abstain: `${drepName} chooses to ABSTAIN on this proposal.
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Voting Records</h2>
+          <p className="text-muted-foreground">
+            Individual DRep, SPO and Constitutional Committee votes and their rationale
+          </p>
+        </div>
+        <ExportButtons
+          label={`${EXPORT_LABELS[role]} votes`}
+          getUrl={(format) => getVotesExportUrl(actionHash, role === "committee" ? "cc" : role, pageQuery, format)}
+        />
+      </div>
 
-This decision reflects our position that while the proposal has merit, we require additional information or time for proper evaluation:
+      <Tabs
+        value={role}
+        onValueChange={(value) => dispatch(setVoterRole(value as VotingBody))}
+        className="w-full space-y-6">
+        <TabsList className="bg-secondary/50">
+          <TabsTrigger
+            value="drep"
+            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+            DReps
+          </TabsTrigger>
+          <TabsTrigger
+            value="spo"
+            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+            SPOs
+          </TabsTrigger>
+          <TabsTrigger
+            value="committee"
+            className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+            Constitutional Committee
+          </TabsTrigger>
+        </TabsList>
 
-• Further community discussion needed
-• Awaiting clarification on specific technical details
-• Observing how governance precedent develops
-• Maintaining neutrality on this particular matter
+        {/* Stats Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="p-4">
+            <div className="text-2xl font-bold">{voteStats.total}</div>
+            <div className="text-sm text-muted-foreground">Total Votes</div>
+          </Card>
+          <Card className="p-4 border-success/30">
+            <div className="text-2xl font-bold text-success">{voteStats.yes}</div>
+            <div className="text-sm text-muted-foreground">Yes Votes</div>
+          </Card>
+          <Card className="p-4 border-destructive/30">
+            <div className="text-2xl font-bold text-destructive">{voteStats.no}</div>
+            <div className="text-sm text-muted-foreground">No Votes</div>
+          </Card>
+          <Card className="p-4">
+            <div className="text-2xl font-bold">{voteStats.abstain}</div>
+            <div className="text-sm text-muted-foreground">Abstain</div>
+          </Card>
+        </div>
 
-We remain engaged and will continue monitoring the proposal's progress.`,
-  };
+        {/* Filters */}
+        <Card className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={SEARCH_PLACEHOLDERS[role]}
+                value={voterSearch}
+                onChange={(e) => dispatch(setVoterSearch(e.target.value))}
+                className="pl-10"
+              />
+            </div>
+            <Select value={voteFilter} onValueChange={(value) => dispatch(setVoteFilter(value as VoteType))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by vote" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="All">All Votes</SelectItem>
+                <SelectItem value="Yes">Yes</SelectItem>
+                <SelectItem value="No">No</SelectItem>
+                <SelectItem value="Abstain">Abstain</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
 
-  return templates[vote as keyof typeof templates] || "No rationale provided.";
+        {/* Voting Tables */}
+        <TabsContent value="drep" className="mt-0">
+          <VirtualVotesTable
+            pages={drepPages}
+            columns={DREP_COLUMNS}
+            getKey={(vote) => vote.drepId}
+            renderCells={(vote) => <DRepVoteCells vote={vote} actionHash={actionHash} />}
+            resetKey={resetKey}
+            pinned={delegation?.drepId && <DelegatedDRepRow delegation={delegation} actionHash={actionHash} />}
+          />
+        </TabsContent>
+        <TabsContent value="spo" className="mt-0">
+          <VirtualVotesTable
+            pages={spoPages}
+            columns={SPO_COLUMNS}
+            getKey={(vote) => vote.poolId}
+            renderCells={(vote) => <SpoVoteCells vote={vote} actionHash={actionHash} />}
+            resetKey={resetKey}
+          />
+        </TabsContent>
+        <TabsContent value="committee" className="mt-0">
+          <CommitteeRoster
+            members={filteredMembers}
+            voteByMember={voteByMember}
+            epoch={epoch}
+            available={committee !== null && committee !== undefined}
+            actionHash={actionHash}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
 }
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  disconnectWallet,
+  setDelegation,
+  setWalletConnected,
+  setWalletConnecting,
+  setWalletError,
+} from "@/store/walletSlice";
+import { ApiError, fetchAccountDelegation, fetchDRepVotes } from "@/lib/api";
+import {
+  connectWallet,
+  forgetWallet,
+  getAuthorizedWallet,
+  getInstalledWallets,
+  type InstalledWallet,
+} from "@/lib/wallet";
+import { getDelegationLabel } from "@/lib/delegation";
+import { LogOut, Wallet } from "lucide-react";
+
+function formatStakeAddress(address: string): string {
+  return `${address.slice(0, 12)}...${address.slice(-6)}`;
+}
+
+/** Resolves to null for 404s, which mean "not registered" rather than a failure */
+function orNullIfMissing<T>(promise: Promise<T>): Promise<T | null> {
+  return promise.catch((err) => {
+    if (err instanceof ApiError && err.status === 404) return null;
+    throw err;
+  });
+}
+
+/** Connects a CIP-30 wallet and loads where its stake is delegated and how that DRep voted */
+export function WalletConnect() {
+  const dispatch = useAppDispatch();
+  const { status, stakeAddress, delegation, loadingDelegation, error } = useAppSelector((state) => state.wallet);
+  const [wallets, setWallets] = useState<InstalledWallet[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const connect = useCallback(
+    async (walletId: string) => {
+      dispatch(setWalletConnecting(walletId));
+      try {
+        const address = await connectWallet(walletId);
+        dispatch(setWalletConnected({ walletId, stakeAddress: address }));
+        setOpen(false);
+
+        const account = await orNullIfMissing(fetchAccountDelegation(address));
+        const drepVotes = account?.drepId?.startsWith("drep1")
+          ? ((await orNullIfMissing(fetchDRepVotes(account.drepId))) ?? [])
+          : [];
+        dispatch(setDelegation({ delegation: account, drepVotes }));
+      } catch (err) {
+        dispatch(setWalletError((err as Error).message));
+      }
+    },
+    [dispatch]
+  );
+
+  // Reconnect silently when the last used wallet still has the site authorized
+  useEffect(() => {
+    let cancelled = false;
+    getAuthorizedWallet().then((walletId) => {
+      if (walletId && !cancelled) connect(walletId);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [connect]);
+
+  const handleDisconnect = () => {
+    forgetWallet();
+    dispatch(disconnectWallet());
+  };
+
+  if (status === "connected" && stakeAddress) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        <div className="text-right">
+          <div className="font-mono text-xs text-muted-foreground" title={stakeAddress}>
+            {formatStakeAddress(stakeAddress)}
+          </div>
+          {delegation?.drepId?.startsWith("drep1") ? (
+            <Link href={`/drep/${encodeURIComponent(delegation.drepId)}`} className="hover:underline">
+              DRep: {getDelegationLabel(delegation)}
+            </Link>
+          ) : (
+            <div>
+              {delegation
+                ? getDelegationLabel(delegation)
+                : loadingDelegation
+                  ? "Loading delegation..."
+                  : error
+                    ? "Delegation unavailable"
+                    : "Not registered"}
+            </div>
+          )}
+        </div>
+        <Button size="icon" variant="ghost" aria-label="Disconnect wallet" onClick={handleDisconnect}>
+          <LogOut className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        // Wallets inject themselves after page load, so look again on every open
+        if (next) setWallets(getInstalledWallets());
+        setOpen(next);
+      }}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={status === "connecting"}>
+          <Wallet className="h-4 w-4 mr-1" />
+          {status === "connecting" ? "Connecting..." : "Connect wallet"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Connect a wallet</DialogTitle>
+          <DialogDescription>
+            Only your stake address is read, to show which DRep you delegate to and how they voted.
+          </DialogDescription>
+        </DialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {wallets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No CIP-30 wallet extension was found in this browser.</p>
+        ) : (
+          <div className="space-y-2">
+            {wallets.map((wallet) => (
+              <Button
+                key={wallet.id}
+                variant="outline"
+                className="w-full justify-start"
+                disabled={status === "connecting"}
+                onClick={() => connect(wallet.id)}>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={wallet.icon} alt="" className="h-5 w-5 mr-2" />
+                {wallet.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
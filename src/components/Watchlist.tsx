@@ -0,0 +1,82 @@
+import type { MouseEvent } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { toggleWatchAction, toggleWatchDRep } from "@/store/watchlistSlice";
+import type { WatchableDRep } from "@/store/watchlistSlice";
+import { getActionId } from "@/lib/cip129";
+import { cn } from "@/lib/utils";
+import type { GovernanceAction } from "@/types/governance";
+import { Star } from "lucide-react";
+
+interface StarButtonProps {
+  watched: boolean;
+  label: string;
+  onToggle: () => void;
+  className?: string;
+}
+
+function StarButton({ watched, label, onToggle, className }: StarButtonProps) {
+  const title = watched ? `Stop watching ${label}` : `Watch ${label}`;
+  // Stars sit inside clickable cards and rows, which must not navigate
+  const handleClick = (event: MouseEvent) => {
+    event.stopPropagation();
+    onToggle();
+  };
+
+  return (
+    <Button
+      size="icon"
+      variant="ghost"
+      className={cn("h-8 w-8 shrink-0", className)}
+      aria-pressed={watched}
+      aria-label={title}
+      title={title}
+      onClick={handleClick}>
+      <Star className={cn("h-4 w-4", watched ? "fill-amber-400 text-amber-400" : "text-muted-foreground")} />
+    </Button>
+  );
+}
+
+export function WatchActionButton({ action, className }: { action: GovernanceAction; className?: string }) {
+  const dispatch = useAppDispatch();
+  const watched = useAppSelector((state) => getActionId(action) in state.watchlist.actions);
+
+  return (
+    <StarButton
+      watched={watched}
+      label={action.title}
+      onToggle={() => dispatch(toggleWatchAction(action))}
+      className={className}
+    />
+  );
+}
+
+export function WatchDRepButton({ drep, className }: { drep: WatchableDRep; className?: string }) {
+  const dispatch = useAppDispatch();
+  const watched = useAppSelector((state) => drep.drepId in state.watchlist.dreps);
+
+  return (
+    <StarButton
+      watched={watched}
+      label={drep.name ?? drep.drepId}
+      onToggle={() => dispatch(toggleWatchDRep(drep))}
+      className={className}
+    />
+  );
+}
+
+/** One badge per change since the item was last seen */
+export function WatchChanges({ changes, className }: { changes: string[]; className?: string }) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {changes.map((change) => (
+        <Badge key={change} variant="outline" className="bg-amber-500/20 text-amber-400 border-amber-500/30">
+          {change}
+        </Badge>
+      ))}
+    </div>
+  );
+}
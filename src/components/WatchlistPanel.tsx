@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { WatchActionButton, WatchChanges, WatchDRepButton } from "@/components/Watchlist";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { markSeen, setDRepVoteBaseline } from "@/store/watchlistSlice";
+import type { WatchableDRep } from "@/store/watchlistSlice";
+import { fetchDRep, fetchDRepVotes } from "@/lib/api";
+import { getActionChanges, getDRepChanges } from "@/lib/watchlist";
+import { GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import { getActionId } from "@/lib/cip129";
+import type { GovernanceAction, WatchedAction, WatchedDRep } from "@/types/governance";
+
+function getStatusColor(status: GovernanceAction["status"] | WatchableDRep["status"]): string {
+  switch (status) {
+    case "Active":
+      return "bg-success/20 text-success border-success/30";
+    case "Ratified":
+    case "Approved":
+      return "bg-primary/20 text-primary border-primary/30";
+    case "Not approved":
+    case "Retired":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+    default:
+      return "bg-muted text-muted-foreground border-border";
+  }
+}
+
+function LastSeen({ watched }: { watched: WatchedAction | WatchedDRep }) {
+  return (
+    <span className="text-xs text-muted-foreground whitespace-nowrap">
+      Seen {formatDistanceToNow(new Date(watched.seenAt), { addSuffix: true })}
+    </span>
+  );
+}
+
+/** Changed items first, then the most recently watched */
+function byChangesThenWatched<T extends { watched: WatchedAction | WatchedDRep; changes: string[] }>(a: T, b: T) {
+  return (
+    Number(b.changes.length > 0) - Number(a.changes.length > 0) ||
+    b.watched.watchedAt.localeCompare(a.watched.watchedAt)
+  );
+}
+
+/** Watched DReps with their current profile and vote count; null once a DRep can't be loaded */
+function useWatchedDReps(drepIds: string[]): Record<string, WatchableDRep | null> {
+  const [dreps, setDReps] = useState<Record<string, WatchableDRep | null>>({});
+  const key = drepIds.join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+
+    Promise.all(
+      key.split(",").map((drepId) =>
+        Promise.all([fetchDRep(drepId), fetchDRepVotes(drepId)])
+          .then(([drep, votes]): [string, WatchableDRep | null] => [drepId, { ...drep, voteCount: votes.length }])
+          .catch((): [string, null] => [drepId, null])
+      )
+    ).then((entries) => {
+      if (!cancelled) setDReps(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return dreps;
+}
+
+/** The dashboard's Watching tab: starred actions and DReps with what changed since they were last seen */
+export function WatchlistPanel() {
+  const dispatch = useAppDispatch();
+  const actions = useAppSelector((state) => state.governance.actions);
+  const watchlist = useAppSelector((state) => state.watchlist);
+  const drepIds = useMemo(() => Object.keys(watchlist.dreps).sort(), [watchlist.dreps]);
+  const dreps = useWatchedDReps(drepIds);
+
+  // DReps starred from the directory have no vote count to compare against yet
+  useEffect(() => {
+    for (const drep of Object.values(dreps)) {
+      if (drep?.voteCount !== undefined && watchlist.dreps[drep.drepId]?.seen.voteCount === undefined) {
+        dispatch(setDRepVoteBaseline({ drepId: drep.drepId, voteCount: drep.voteCount }));
+      }
+    }
+  }, [dreps, watchlist.dreps, dispatch]);
+
+  const watchedActions = actions
+    .filter((action) => getActionId(action) in watchlist.actions)
+    .map((action) => {
+      const watched = watchlist.actions[getActionId(action)];
+      return { action, watched, changes: getActionChanges(watched.seen, action) };
+    })
+    .sort(byChangesThenWatched);
+
+  const watchedDReps = Object.values(watchlist.dreps)
+    .map((watched) => {
+      const current = dreps[watched.drepId];
+      return { watched, current, changes: current ? getDRepChanges(watched.seen, current) : [] };
+    })
+    .sort(byChangesThenWatched);
+
+  const changedCount = [...watchedActions, ...watchedDReps].filter((item) => item.changes.length > 0).length;
+
+  const handleMarkAllSeen = () => {
+    dispatch(
+      markSeen({
+        actions: watchedActions.map((item) => item.action),
+        dreps: watchedDReps.flatMap((item) => (item.current ? [item.current] : [])),
+      })
+    );
+  };
+
+  if (!watchlist.loaded) {
+    return <p className="text-center text-muted-foreground py-12">Loading watchlist...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Watching</h2>
+          <p className="text-muted-foreground">
+            {changedCount > 0
+              ? `${changedCount} of your starred items changed since you last opened them`
+              : "Star actions and DReps to see what changes between your visits"}
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleMarkAllSeen} disabled={changedCount === 0}>
+          Mark all as seen
+        </Button>
+      </div>
+
+      <Card>
+        <div className="p-6 pb-2">
+          <h3 className="text-xl font-semibold">Governance Actions</h3>
+        </div>
+        {watchedActions.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">
+            {Object.keys(watchlist.actions).length > 0 && actions.length === 0
+              ? "Loading governance actions..."
+              : "No watched actions. Use the star on an action to follow it."}
+          </p>
+        ) : (
+          <ul>
+            {watchedActions.map(({ action, watched, changes }) => (
+              <li key={getActionId(action)} className="flex items-start gap-3 px-4 py-3 border-t border-border/50">
+                <WatchActionButton action={action} />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className={getStatusColor(action.status)}>
+                      {action.status}
+                    </Badge>
+                    <Badge variant="outline" className="bg-secondary/50">
+                      {GOVERNANCE_ACTION_LABELS[action.type]}
+                    </Badge>
+                    <Link href={`/governance/${getActionId(action)}`} className="font-semibold hover:underline">
+                      {action.title}
+                    </Link>
+                  </div>
+                  <WatchChanges changes={changes} />
+                </div>
+                <LastSeen watched={watched} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <Card>
+        <div className="p-6 pb-2">
+          <h3 className="text-xl font-semibold">DReps</h3>
+        </div>
+        {watchedDReps.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">
+            No watched DReps. Use the star in the DRep directory or on a DRep&apos;s page to follow one.
+          </p>
+        ) : (
+          <ul>
+            {watchedDReps.map(({ watched, current, changes }) => (
+              <li key={watched.drepId} className="flex items-start gap-3 px-4 py-3 border-t border-border/50">
+                <WatchDRepButton
+                  drep={
+                    current ?? {
+                      drepId: watched.drepId,
+                      name: watched.name,
+                      status: watched.seen.status,
+                      votingPowerAda: watched.seen.votingPowerAda,
+                    }
+                  }
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {current && (
+                      <Badge variant="outline" className={getStatusColor(current.status)}>
+                        {current.status}
+                      </Badge>
+                    )}
+                    <Link
+                      href={`/drep/${encodeURIComponent(watched.drepId)}`}
+                      className="font-semibold hover:underline">
+                      {current?.name ?? watched.name ?? "Unnamed DRep"}
+                    </Link>
+                  </div>
+                  <div className="text-xs text-muted-foreground font-mono truncate">{watched.drepId}</div>
+                  {current === null ? (
+                    <p className="text-xs text-muted-foreground">Could not load this DRep.</p>
+                  ) : (
+                    <WatchChanges changes={changes} />
+                  )}
+                </div>
+                <LastSeen watched={watched} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -4,10 +4,13 @@ import { cn } from "@/lib/utils";
 interface ProgressProps extends React.HTMLAttributes<HTMLDivElement> {
   value?: number;
   indicatorClassName?: string;
+  /** Position (0-100) of a vertical marker line, e.g. a ratification threshold */
+  marker?: number;
+  markerClassName?: string;
 }
 
 const Progress = React.forwardRef<HTMLDivElement, ProgressProps>(
-  ({ className, value = 0, indicatorClassName, ...props }, ref) => (
+  ({ className, value = 0, indicatorClassName, marker, markerClassName, ...props }, ref) => (
     <div
       ref={ref}
       className={cn("relative h-2 w-full overflow-hidden rounded-full bg-secondary", className)}
@@ -16,6 +19,12 @@ const Progress = React.forwardRef<HTMLDivElement, ProgressProps>(
         className={cn("h-full w-full flex-1 bg-primary transition-all", indicatorClassName)}
         style={{ transform: `translateX(-${100 - (value || 0)}%)` }}
       />
+      {marker !== undefined && (
+        <div
+          className={cn("absolute inset-y-0 w-0.5 -translate-x-1/2 bg-foreground", markerClassName)}
+          style={{ left: `${Math.min(Math.max(marker, 0), 100)}%` }}
+        />
+      )}
     </div>
   )
 );
@@ -0,0 +1,34 @@
+export const env = {
+  apiBaseUrl: process.env.NEXT_PUBLIC_API_BASE_URL || "/api",
+  network: process.env.NEXT_PUBLIC_NETWORK || "mainnet",
+} as const;
+
+// Server-only settings (no NEXT_PUBLIC prefix), read by API routes only
+export const serverEnv = {
+  dataSource: process.env.GOVERNANCE_DATA_SOURCE || "mock",
+  koiosBaseUrl: process.env.KOIOS_BASE_URL || "https://api.koios.rest/api/v1",
+  koiosApiKey: process.env.KOIOS_API_KEY || "",
+  nclYear: Number(process.env.NCL_YEAR || 2025),
+  nclLimitAda: Number(process.env.NCL_LIMIT_ADA || 350000000),
+  // Comma-separated "startEpoch-endEpoch:limitAda"; replaces NCL_YEAR / NCL_LIMIT_ADA when set
+  nclPeriods: process.env.NCL_PERIODS || "",
+  // Ordered, comma-separated; an entry may carry its own timeout as "https://gateway|8000"
+  ipfsGateways: process.env.IPFS_GATEWAYS || "https://ipfs.io,https://dweb.link,https://w3s.link",
+  ipfsGatewayTimeoutMs: Number(process.env.IPFS_GATEWAY_TIMEOUT_MS || 5000),
+  // Set to an empty string to disable the on-disk IPFS cache
+  ipfsCacheDir: process.env.IPFS_CACHE_DIR ?? ".cache/ipfs",
+  // Least recently used files are removed once the cache grows past this many bytes
+  ipfsCacheMaxBytes: Number(process.env.IPFS_CACHE_MAX_BYTES || 104857600),
+  // Public origin used for absolute links, e.g. in the Atom feed; only development falls back to the request's host
+  publicSiteUrl: process.env.PUBLIC_SITE_URL || "",
+  // Comma-separated "url|secret" entries; append "|type+type" to only send some event types
+  webhooks: process.env.WEBHOOKS || "",
+  webhookMaxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 5),
+  // Background polling for webhooks; 0 disables it, the feed still refreshes on request
+  eventPollIntervalMs: Number(process.env.EVENT_POLL_INTERVAL_MS || 60000),
+  expiryWarningEpochs: Number(process.env.EXPIRY_WARNING_EPOCHS || 2),
+  // Comma-separated DRep IDs whose votes raise events
+  watchedDReps: process.env.WATCHED_DREPS || "",
+  // Set to an empty string to keep event state in memory only
+  eventStateFile: process.env.EVENT_STATE_FILE ?? ".cache/events.json",
+} as const;
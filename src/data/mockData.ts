@@ -1,21 +1,40 @@
 import type {
+  Committee,
+  CommitteeVoteRecord,
+  DRepProfile,
   GovernanceAction,
   GovernanceActionDetail,
+  SpoVoteRecord,
   VoteRecord,
-  NCLData,
+  NCLPeriod,
+  PredefinedDRepStake,
 } from "@/types/governance";
+import { isVotingBodyRequired } from "@/lib/ratification";
+import { getCurrentEpoch } from "@/lib/cardanoTime";
+
+// Mock epochs are written relative to epoch 453 and shifted to the current
+// epoch, so Active actions always expire in the near future
+const MOCK_EPOCH_SHIFT = getCurrentEpoch() - 453;
+const epoch = (n: number): number => n + MOCK_EPOCH_SHIFT;
 
 export const mockGovernanceActions: GovernanceAction[] = [
   {
     hash: "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855abc123",
     title: "Treasury Withdrawal for Development Fund",
-    type: "Treasury",
+    type: "TreasuryWithdrawals",
+    withdrawals: [
+      { stakeAddress: "stake1u8pcjgmx7962w6hey5hhsd502araxp26kdtgagakhaqtq8sxy9w7g", amountAda: 25000000 },
+      { stakeAddress: "stake1uxqwe4ufd5j2l8yvnr3r7dpe4qqp4kqhyf6dqkhr7zz8l7cy2hgam", amountAda: 15000000 },
+      { stakeAddress: "stake1u9ylzsgxaa6xctf4juup682ar3juj85n8tx3hthnljg47zctvm3rc", amountAda: 10000000 },
+    ],
     status: "Active",
     constitutionality: "Constitutional",
     drepYesPercent: 65.4,
     drepNoPercent: 34.6,
     drepYesAda: "12500000",
     drepNoAda: "6620000",
+    drepYesLovelace: "12500000000000",
+    drepNoLovelace: "6620000000000",
     spoYesPercent: 58.2,
     spoNoPercent: 41.8,
     spoYesAda: "8900000",
@@ -23,19 +42,30 @@ export const mockGovernanceActions: GovernanceAction[] = [
     totalYes: 1247,
     totalNo: 658,
     totalAbstain: 95,
-    submissionEpoch: 450,
-    expiryEpoch: 456,
+    submissionEpoch: epoch(450),
+    expiryEpoch: epoch(456),
   },
   {
     hash: "a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0u1v2w3x4y5z6a7b8c9d0e1f2g3",
     title: "Protocol Parameter Update - Transaction Fee",
-    type: "Info",
+    type: "ParameterChange",
+    parameterChanges: [
+      {
+        parameter: "min_fee_a",
+        group: "economic",
+        securityRelevant: true,
+        currentValue: "44",
+        proposedValue: "40",
+      },
+    ],
     status: "Ratified",
     constitutionality: "Constitutional",
     drepYesPercent: 78.9,
     drepNoPercent: 21.1,
     drepYesAda: "18750000",
     drepNoAda: "5020000",
+    drepYesLovelace: "18750000000000",
+    drepNoLovelace: "5020000000000",
     spoYesPercent: 82.5,
     spoNoPercent: 17.5,
     spoYesAda: "16200000",
@@ -43,19 +73,27 @@ export const mockGovernanceActions: GovernanceAction[] = [
     totalYes: 1889,
     totalNo: 504,
     totalAbstain: 107,
-    submissionEpoch: 445,
-    expiryEpoch: 451,
+    submissionEpoch: epoch(445),
+    expiryEpoch: epoch(451),
+    ratifiedEpoch: epoch(452),
   },
   {
     hash: "b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0u1v2w3x4y5z6a7b8c9d0e1f2g3h4",
     title: "New Constitution Proposal",
-    type: "Constitution",
+    type: "NewConstitution",
+    constitution: {
+      anchorUrl: "ipfs://bafkreiazhhawe7sjwuthcfgl3mmv2swec7sukvclu3oli7qdyz4uhhuvmy",
+      anchorHash: "2a61e2f4b63442978140c77a70daab3961b22b12b63b13949a390c097214d1c5",
+      guardrailsScriptHash: "fa24fb305126805cf2164c161d852a0e7330cf988f1fe558cf7d4a64",
+    },
     status: "Active",
     constitutionality: "Constitutional",
     drepYesPercent: 52.3,
     drepNoPercent: 47.7,
     drepYesAda: "9840000",
     drepNoAda: "8970000",
+    drepYesLovelace: "9840000000000",
+    drepNoLovelace: "8970000000000",
     spoYesPercent: 48.6,
     spoNoPercent: 51.4,
     spoYesAda: "7650000",
@@ -63,8 +101,8 @@ export const mockGovernanceActions: GovernanceAction[] = [
     totalYes: 987,
     totalNo: 901,
     totalAbstain: 112,
-    submissionEpoch: 452,
-    expiryEpoch: 458,
+    submissionEpoch: epoch(452),
+    expiryEpoch: epoch(458),
   },
   {
     hash: "c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0u1v2w3x4y5z6a7b8c9d0e1f2g3h4i5",
@@ -76,22 +114,31 @@ export const mockGovernanceActions: GovernanceAction[] = [
     drepNoPercent: 8.8,
     drepYesAda: "21500000",
     drepNoAda: "2070000",
+    drepYesLovelace: "21500000000000",
+    drepNoLovelace: "2070000000000",
     totalYes: 2145,
     totalNo: 207,
     totalAbstain: 48,
-    submissionEpoch: 448,
-    expiryEpoch: 454,
+    submissionEpoch: epoch(448),
+    expiryEpoch: epoch(454),
+    ratifiedEpoch: epoch(451),
+    enactedEpoch: epoch(452),
   },
   {
     hash: "d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0u1v2w3x4y5z6a7b8c9d0e1f2g3h4i5j6",
     title: "Treasury Withdrawal for Marketing Campaign",
-    type: "Treasury",
+    type: "TreasuryWithdrawals",
+    withdrawals: [
+      { stakeAddress: "stake1u80kzr0ju2pcl3hwsuvjtftmny7swjkgy5tfrl8fyy2hzvgqpu7kr", amountAda: 12000000 },
+    ],
     status: "Expired",
     constitutionality: "Constitutional",
     drepYesPercent: 42.7,
     drepNoPercent: 57.3,
     drepYesAda: "6540000",
     drepNoAda: "8770000",
+    drepYesLovelace: "6540000000000",
+    drepNoLovelace: "8770000000000",
     spoYesPercent: 39.4,
     spoNoPercent: 60.6,
     spoYesAda: "5230000",
@@ -99,19 +146,24 @@ export const mockGovernanceActions: GovernanceAction[] = [
     totalYes: 654,
     totalNo: 877,
     totalAbstain: 169,
-    submissionEpoch: 440,
-    expiryEpoch: 446,
+    submissionEpoch: epoch(440),
+    expiryEpoch: epoch(446),
   },
   {
     hash: "e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0u1v2w3x4y5z6a7b8c9d0e1f2g3h4i5j6k7",
     title: "Constitutional Committee Update",
-    type: "Constitution",
+    type: "UpdateCommittee",
+    membersToAdd: [{ coldCredential: "cc_cold1zvqfa0pqkhn8gq6xmwr6jdvphk8s3w0zrlgqyq0c6z9ep2s7ynd5r", expiryEpoch: epoch(580) }],
+    membersToRemove: ["cc_cold1zgf6jxvwrrzl0rrxfqrgk27kyt6xkp3pg2ev2zq3ujw9rqg3pdxmu"],
+    newThreshold: 0.67,
     status: "Not approved",
     constitutionality: "Unconstitutional",
     drepYesPercent: 28.5,
     drepNoPercent: 71.5,
     drepYesAda: "4120000",
     drepNoAda: "10340000",
+    drepYesLovelace: "4120000000000",
+    drepNoLovelace: "10340000000000",
     spoYesPercent: 31.2,
     spoNoPercent: 68.8,
     spoYesAda: "4780000",
@@ -119,8 +171,8 @@ export const mockGovernanceActions: GovernanceAction[] = [
     totalYes: 412,
     totalNo: 1034,
     totalAbstain: 154,
-    submissionEpoch: 449,
-    expiryEpoch: 455,
+    submissionEpoch: epoch(449),
+    expiryEpoch: epoch(455),
   },
   {
     hash: "f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0u1v2w3x4y5z6a7b8c9d0e1f2g3h4i5j6k7l8",
@@ -132,39 +184,208 @@ export const mockGovernanceActions: GovernanceAction[] = [
     drepNoPercent: 14.4,
     drepYesAda: "19870000",
     drepNoAda: "3340000",
+    drepYesLovelace: "19870000000000",
+    drepNoLovelace: "3340000000000",
     totalYes: 1987,
     totalNo: 334,
     totalAbstain: 79,
-    submissionEpoch: 451,
-    expiryEpoch: 457,
+    submissionEpoch: epoch(451),
+    expiryEpoch: epoch(457),
+  },
+  {
+    hash: "3f1a9c0d5be24e6f8a7d1c2b3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f",
+    title: "Hard Fork to Protocol Version 11",
+    type: "HardForkInitiation",
+    protocolVersion: { major: 11, minor: 0 },
+    status: "Active",
+    constitutionality: "Constitutional",
+    drepYesPercent: 71.8,
+    drepNoPercent: 28.2,
+    drepYesAda: "16320000",
+    drepNoAda: "6410000",
+    drepYesLovelace: "16320000000000",
+    drepNoLovelace: "6410000000000",
+    spoYesPercent: 63.4,
+    spoNoPercent: 36.6,
+    spoYesAda: "11850000",
+    spoNoAda: "6840000",
+    totalYes: 1532,
+    totalNo: 402,
+    totalAbstain: 66,
+    submissionEpoch: epoch(452),
+    expiryEpoch: epoch(458),
+  },
+  {
+    hash: "7c2e4a6b8d0f1e3c5a7b9d1f2e4c6a8b0d2f4e6a8c0b2d4f6e8a0c2b4d6f8e0a",
+    title: "Motion of No Confidence in the Constitutional Committee",
+    type: "NoConfidence",
+    status: "Expired",
+    constitutionality: "Constitutional",
+    drepYesPercent: 12.4,
+    drepNoPercent: 87.6,
+    drepYesAda: "2310000",
+    drepNoAda: "16290000",
+    drepYesLovelace: "2310000000000",
+    drepNoLovelace: "16290000000000",
+    spoYesPercent: 9.7,
+    spoNoPercent: 90.3,
+    spoYesAda: "1520000",
+    spoNoAda: "14150000",
+    totalYes: 187,
+    totalNo: 1699,
+    totalAbstain: 114,
+    submissionEpoch: epoch(441),
+    expiryEpoch: epoch(447),
+  },
+  {
+    hash: "9d4b1e7a3c5f8e2d6a0b4c8e1f3a5d7b9c2e4f6a8b0d1c3e5f7a9b2d4c6e8f0a",
+    title: "Treasury Withdrawal for the Annual Development Budget",
+    type: "TreasuryWithdrawals",
+    withdrawals: [
+      { stakeAddress: "stake1u8pcjgmx7962w6hey5hhsd502araxp26kdtgagakhaqtq8sxy9w7g", amountAda: 220000000 },
+      { stakeAddress: "stake1u9ylzsgxaa6xctf4juup682ar3juj85n8tx3hthnljg47zctvm3rc", amountAda: 50000000 },
+    ],
+    status: "Approved",
+    constitutionality: "Constitutional",
+    drepYesPercent: 74.3,
+    drepNoPercent: 25.7,
+    drepYesAda: "17620000",
+    drepNoAda: "6100000",
+    drepYesLovelace: "17620000000000",
+    drepNoLovelace: "6100000000000",
+    totalYes: 1734,
+    totalNo: 596,
+    totalAbstain: 210,
+    submissionEpoch: epoch(446),
+    expiryEpoch: epoch(452),
+    ratifiedEpoch: epoch(451),
+    enactedEpoch: epoch(452),
+  },
+  {
+    hash: "2a6c0e4b8f1d5a9c3e7b2d6f0a4c8e1b5d9f3a7c2e6b0d4f8a1c5e9b3d7f2a6c",
+    title: "Treasury Withdrawal for Ecosystem Security Audits",
+    type: "TreasuryWithdrawals",
+    withdrawals: [
+      { stakeAddress: "stake1uxqwe4ufd5j2l8yvnr3r7dpe4qqp4kqhyf6dqkhr7zz8l7cy2hgam", amountAda: 35000000 },
+    ],
+    status: "Ratified",
+    constitutionality: "Constitutional",
+    drepYesPercent: 69.8,
+    drepNoPercent: 30.2,
+    drepYesAda: "16480000",
+    drepNoAda: "7130000",
+    drepYesLovelace: "16480000000000",
+    drepNoLovelace: "7130000000000",
+    totalYes: 1602,
+    totalNo: 688,
+    totalAbstain: 143,
+    submissionEpoch: epoch(447),
+    expiryEpoch: epoch(453),
+    ratifiedEpoch: epoch(452),
+  },
+  {
+    hash: "5e9a3c7f1b4d8e2a6c0f5b9d3e7a1c4f8b2e6d0a5c9f3b7e1d4a8c2f6b0e9d3a",
+    title: "Treasury Withdrawal for the 2nd Year Development Budget",
+    type: "TreasuryWithdrawals",
+    withdrawals: [
+      { stakeAddress: "stake1u8pcjgmx7962w6hey5hhsd502araxp26kdtgagakhaqtq8sxy9w7g", amountAda: 185000000 },
+      { stakeAddress: "stake1u80kzr0ju2pcl3hwsuvjtftmny7swjkgy5tfrl8fyy2hzvgqpu7kr", amountAda: 40000000 },
+    ],
+    status: "Approved",
+    constitutionality: "Constitutional",
+    drepYesPercent: 71.6,
+    drepNoPercent: 28.4,
+    drepYesAda: "15930000",
+    drepNoAda: "6320000",
+    drepYesLovelace: "15930000000000",
+    drepNoLovelace: "6320000000000",
+    totalYes: 1488,
+    totalNo: 571,
+    totalAbstain: 187,
+    submissionEpoch: epoch(374),
+    expiryEpoch: epoch(380),
+    ratifiedEpoch: epoch(378),
+    enactedEpoch: epoch(379),
+  },
+  {
+    hash: "c3f7b1e5a9d2c6f0b4e8a3d7c1f5b9e2a6d0c4f8b3e7a1d5c9f2b6e0a4d8c3f7",
+    title: "Treasury Withdrawal for the 1st Year Development Budget",
+    type: "TreasuryWithdrawals",
+    withdrawals: [
+      { stakeAddress: "stake1u8pcjgmx7962w6hey5hhsd502araxp26kdtgagakhaqtq8sxy9w7g", amountAda: 120000000 },
+    ],
+    status: "Approved",
+    constitutionality: "Constitutional",
+    drepYesPercent: 68.9,
+    drepNoPercent: 31.1,
+    drepYesAda: "13270000",
+    drepNoAda: "5990000",
+    drepYesLovelace: "13270000000000",
+    drepNoLovelace: "5990000000000",
+    totalYes: 1215,
+    totalNo: 548,
+    totalAbstain: 164,
+    submissionEpoch: epoch(301),
+    expiryEpoch: epoch(307),
+    ratifiedEpoch: epoch(305),
+    enactedEpoch: epoch(306),
   },
 ];
 
+// Small seeded generator so the DRep registry is identical on every load
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const BECH32_CHARS = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+export const mockDReps: DRepProfile[] = Array.from({ length: 240 }, (_, i) => {
+  const random = seededRandom(i + 1);
+  const suffix = Array.from({ length: 50 }, () => BECH32_CHARS[Math.floor(random() * BECH32_CHARS.length)]).join("");
+  const name = i === 0 ? "SIPO" : `DRep ${i + 1}`;
+  const hasMetadata = i % 7 !== 3;
+
+  return {
+    drepId: `drep1${suffix}`,
+    name: hasMetadata ? name : undefined,
+    objectives: hasMetadata
+      ? `${name} aims to support a sustainable treasury, transparent governance and steady protocol improvements.`
+      : undefined,
+    motivations: hasMetadata
+      ? "Long-time community member who wants delegators to have an accountable, well-reasoned voice on-chain."
+      : undefined,
+    qualifications:
+      hasMetadata && i % 3 === 0 ? "Stake pool operator and contributor to Cardano open source tooling." : undefined,
+    links: hasMetadata
+      ? [
+          { label: "Website", uri: `https://drep${i + 1}.example.org` },
+          { label: "X", uri: `https://x.com/drep${i + 1}` },
+        ]
+      : [],
+    status: i % 23 === 22 ? "Retired" : i % 11 === 10 ? "Inactive" : "Active",
+    votingPowerAda: Math.round(random() * random() * 100_000_000),
+    delegatorCount: Math.floor(random() * 4_000),
+    registeredEpoch: epoch(420 + Math.floor(random() * 25)),
+    anchorUrl: hasMetadata ? `ipfs://Qm${suffix.slice(0, 44)}` : undefined,
+    anchorHash: hasMetadata ? suffix.slice(0, 32).padEnd(64, "0") : undefined,
+  };
+});
+
 const generateMockVotes = (count: number): VoteRecord[] => {
-  const votes: VoteRecord[] = [];
   const voteTypes: ("Yes" | "No" | "Abstain")[] = ["Yes", "No", "Abstain"];
+  const voters = [...mockDReps].sort(() => Math.random() - 0.5).slice(0, count);
 
-  for (let i = 0; i < count; i++) {
-    const voteType = voteTypes[Math.floor(Math.random() * voteTypes.length)];
-    votes.push({
-      drepId: `drep1${Math.random().toString(36).substring(2, 15)}`,
-      drepName: `DRep ${i + 1}`,
-      vote: voteType,
-      votingPower: `${(Math.random() * 100000).toFixed(0)}`,
-      votingPowerAda: Math.random() * 100000,
-      anchorUrl:
-        Math.random() > 0.5
-          ? `ipfs://Qm${Math.random().toString(36).substring(2, 15)}`
-          : undefined,
-      anchorHash:
-        Math.random() > 0.5
-          ? `hash${Math.random().toString(36).substring(2, 15)}`
-          : undefined,
-      votedAt: new Date(
-        Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000
-      ).toISOString(),
-    });
-  }
+  const votes = voters.map((drep): VoteRecord => ({
+    drepId: drep.drepId,
+    drepName: drep.name ?? drep.drepId,
+    vote: voteTypes[Math.floor(Math.random() * voteTypes.length)],
+    votingPower: drep.votingPowerAda.toFixed(0),
+    votingPowerAda: drep.votingPowerAda,
+    anchorUrl: Math.random() > 0.5 ? `ipfs://Qm${Math.random().toString(36).substring(2, 15)}` : undefined,
+    anchorHash: Math.random() > 0.5 ? `hash${Math.random().toString(36).substring(2, 15)}` : undefined,
+    votedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
+  }));
 
   return votes.sort((a, b) => b.votingPowerAda - a.votingPowerAda);
 };
@@ -176,6 +397,8 @@ export const mockDetailedActions: GovernanceActionDetail[] = [
       "This governance action proposes to withdraw 50,000,000 ADA from the treasury to fund continued development of core infrastructure and ecosystem tools. The funds will be allocated across multiple development teams working on critical projects.",
     rationale:
       "The Cardano ecosystem requires sustained investment in infrastructure development to maintain competitiveness and deliver on roadmap commitments. This proposal outlines a comprehensive funding plan for Q1-Q2 development efforts.",
+    anchorUrl: "ipfs://QmT5NvUtoM5nWFfrQdVrFtvGfKFmG7AHE8P34isapyhCxX",
+    anchorHash: "1c7a2e4f90b3d5e8a6c1f0b2d4e6a8c0b2d4f6e8a0c2b4d6f8e0a2c4b6d8f0e2",
     votes: generateMockVotes(150),
   },
   {
@@ -184,6 +407,8 @@ export const mockDetailedActions: GovernanceActionDetail[] = [
       "A proposal to ratify a new constitution that updates governance procedures and establishes clearer guidelines for future governance actions. This represents a significant evolution in Cardano's on-chain governance framework.",
     rationale:
       "The current constitutional framework requires updates to address emerging governance challenges and provide more detailed guidance on decision-making processes. This new constitution incorporates community feedback gathered over the past six months.",
+    anchorUrl: "https://constitution.gov.tools/en/constitution-proposal.jsonld",
+    anchorHash: "8b2f6d0a4c8e2b6f0d4a8c2e6b0f4d8a2c6e0b4f8d2a6c0e4b8f2d6a0c4e8b2f",
     votes: generateMockVotes(200),
   },
 ];
@@ -207,8 +432,113 @@ export const getActionByHash = (
   return undefined;
 };
 
-export const mockNCLData: NCLData = {
-  year: 2025,
-  currentValue: 290000000,
-  targetValue: 350000000,
+// Three yearly limits ending with the current one; consumption is computed from the mock treasury withdrawals
+export const mockNCLPeriods: NCLPeriod[] = [
+  { startEpoch: epoch(274), endEpoch: epoch(346), limitAda: 250000000 },
+  { startEpoch: epoch(347), endEpoch: epoch(419), limitAda: 300000000 },
+  { startEpoch: epoch(420), endEpoch: epoch(492), limitAda: 350000000 },
+];
+
+// Roughly a fifth of the DRep registry's stake, in line with mainnet
+export const mockPredefinedDRepStake: PredefinedDRepStake = {
+  alwaysAbstainAda: 1_150_000_000,
+  alwaysNoConfidenceAda: 140_000_000,
+};
+
+export const mockCommittee: Committee = {
+  threshold: 0.67,
+  members: [
+    "Cardano Atlantic Council",
+    "Cardano Japan Council",
+    "Eastern Cardano Council",
+    "Input Output Global",
+    "Cardano Foundation",
+    "EMURGO",
+    "Intersect",
+  ].map((name, i) => ({
+    name,
+    coldCredential: `cc_cold1${(i + 1).toString().repeat(6)}qzk8m2v3e9xw4rj7t5lhy6s0dnf`,
+    // One member has not authorized a hot key yet
+    hotCredential: i === 6 ? undefined : `cc_hot1${(i + 1).toString().repeat(6)}qv0c3r8k2m7w9e5xjt4l6hydnsf`,
+    status: i === 6 ? "NotAuthorized" : "Authorized",
+    expiryEpoch: epoch(580 + (i % 3) * 73),
+  })),
+};
+
+export const generateMockCommitteeVotes = (action: GovernanceAction): CommitteeVoteRecord[] => {
+  // The committee does not vote on motions of no confidence or committee updates
+  if (action.type === "NoConfidence" || action.type === "UpdateCommittee") return [];
+
+  const favoured: CommitteeVoteRecord["vote"] = action.constitutionality === "Unconstitutional" ? "No" : "Yes";
+  const dissent: CommitteeVoteRecord["vote"] = favoured === "Yes" ? "No" : "Yes";
+  const votes: CommitteeVoteRecord[] = [];
+
+  for (const member of mockCommittee.members) {
+    if (!member.hotCredential || Math.random() < 0.15) continue;
+
+    const roll = Math.random();
+    votes.push({
+      hotCredential: member.hotCredential,
+      coldCredential: member.coldCredential,
+      memberName: member.name,
+      vote: roll > 0.2 ? favoured : roll > 0.1 ? "Abstain" : dissent,
+      anchorUrl: `ipfs://Qm${Math.random().toString(36).substring(2, 15)}`,
+      anchorHash: `hash${Math.random().toString(36).substring(2, 15)}`,
+      votedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  return votes;
+};
+
+const POOL_TICKERS = [
+  "BLOOM",
+  "CHEF",
+  "EASY1",
+  "FROG",
+  "HAPPY",
+  "KILN",
+  "LOTUS",
+  "MOON",
+  "NORTH",
+  "OCEAN",
+  "PIXEL",
+  "QUEST",
+  "RIVER",
+  "SALT",
+  "TITAN",
+  "UNITY",
+  "VIPER",
+  "WAVE",
+  "XRAY",
+  "ZEN",
+];
+
+export const mockStakePools = POOL_TICKERS.map((ticker, i) => ({
+  poolId: `pool1${ticker.toLowerCase().padEnd(8, "q")}x7k2m9w4e3rj5t8lhy6s0dnfzv3c9x2k7m4w8e5rj6`,
+  poolName: `${ticker.charAt(0)}${ticker.slice(1).toLowerCase()} Stake Pool`,
+  ticker,
+  pledgeAda: ((i % 5) + 1) * 100_000,
+  activeStakeAda: (((i * 37) % 55) + 5) * 1_000_000,
+}));
+
+export const generateMockSpoVotes = (action: GovernanceAction): SpoVoteRecord[] => {
+  if (!isVotingBodyRequired(action, "spo")) return [];
+
+  const yesShare = action.spoYesPercent ?? 50;
+  const votes: SpoVoteRecord[] = [];
+
+  for (const pool of mockStakePools) {
+    if (Math.random() < 0.25) continue;
+
+    votes.push({
+      ...pool,
+      vote: Math.random() * 100 < yesShare ? "Yes" : Math.random() < 0.2 ? "Abstain" : "No",
+      anchorUrl: Math.random() > 0.5 ? `ipfs://Qm${Math.random().toString(36).substring(2, 15)}` : undefined,
+      anchorHash: Math.random() > 0.5 ? `hash${Math.random().toString(36).substring(2, 15)}` : undefined,
+      votedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  return votes.sort((a, b) => b.activeStakeAda - a.activeStakeAda);
 };
@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Webhook polling needs Node's fs and crypto, which the edge runtime lacks
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startGovernanceNotifier } = await import("@/lib/notifications");
+    startGovernanceNotifier();
+  }
+}
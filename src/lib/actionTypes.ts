@@ -0,0 +1,22 @@
+import type { GovernanceActionKind } from "@/types/governance";
+
+/** CIP-1694 action types in the order the ledger numbers them */
+export const GOVERNANCE_ACTION_KINDS: GovernanceActionKind[] = [
+  "ParameterChange",
+  "HardForkInitiation",
+  "TreasuryWithdrawals",
+  "NoConfidence",
+  "UpdateCommittee",
+  "NewConstitution",
+  "Info",
+];
+
+export const GOVERNANCE_ACTION_LABELS: Record<GovernanceActionKind, string> = {
+  ParameterChange: "Parameter change",
+  HardForkInitiation: "Hard fork initiation",
+  TreasuryWithdrawals: "Treasury withdrawals",
+  NoConfidence: "No confidence",
+  UpdateCommittee: "Update committee",
+  NewConstitution: "New constitution",
+  Info: "Info action",
+};
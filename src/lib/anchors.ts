@@ -0,0 +1,281 @@
+import { blake2b } from "blakejs";
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import type { IncomingMessage } from "http";
+import { request } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { getIpfsClient, IpfsError, type IpfsErrorReason } from "@/lib/ipfs";
+import type { AnchorVerification } from "@/types/governance";
+
+export type AnchorErrorReason = "unsupported" | "unreachable" | "too-large" | "malformed";
+
+export class AnchorError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: AnchorErrorReason
+  ) {
+    super(message);
+    this.name = "AnchorError";
+  }
+}
+
+const MAX_DOCUMENT_BYTES = 512 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_CACHED_DOCUMENTS = 500;
+const MAX_CACHED_BYTES = 32 * 1024 * 1024;
+// https content can change under the same URL, so cached documents are fetched again after a while
+const DOCUMENT_TTL_MS = 15 * 60_000;
+const MAX_REDIRECTS = 3;
+const ANCHOR_HASH_PATTERN = /^[0-9a-f]{64}$/i;
+
+const IPFS_ERROR_REASONS: Record<IpfsErrorReason, AnchorErrorReason> = {
+  "invalid-cid": "unsupported",
+  unavailable: "unreachable",
+  "too-large": "too-large",
+};
+
+// Anchor URLs come from anyone who submits a vote or proposal, so they must not reach internal services
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // IPv4-mapped addresses need no entry; BlockList checks them against the IPv4 subnets
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are judged by the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+  const family = isIP(address);
+  return family !== 0 && !PRIVATE_NETWORKS.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolves the host, refusing it if it is or resolves to a loopback, private,
+ * link-local or other non-public address. Returns the address to connect to.
+ */
+async function resolvePublicHost(url: URL): Promise<LookupAddress> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) }];
+  } else {
+    try {
+      addresses = await lookup(host, { all: true });
+    } catch (error) {
+      throw new AnchorError(`Could not resolve ${url.hostname}: ${(error as Error).message}`, "unreachable");
+    }
+  }
+  if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+    throw new AnchorError(`Anchor host ${url.hostname} is not a public address`, "unsupported");
+  }
+  return addresses[0];
+}
+
+// Connects to the address that was checked, so a second DNS answer can't send the request elsewhere
+function requestPinned(url: URL, address: LookupAddress, signal: AbortSignal): Promise<IncomingMessage> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) =>
+    options.all ? callback(null, [address]) : callback(null, address.address, address.family);
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { headers: { Accept: "application/ld+json, application/json" }, lookup: pinnedLookup, signal },
+      resolve
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+interface CachedDocument {
+  bytes: Promise<Uint8Array>;
+  /** Size once downloaded; 0 while the download is pending */
+  size: number;
+  expiresAt: number;
+}
+
+// https:// documents only; IPFS content is cached on disk by the IPFS client
+const documentCache = new Map<string, CachedDocument>();
+let cachedBytes = 0;
+
+// Drops the least recently used documents until the cache fits both limits; Map iterates in insertion order
+function evictDocuments() {
+  for (const [url, document] of documentCache) {
+    if (documentCache.size <= MAX_CACHED_DOCUMENTS && cachedBytes <= MAX_CACHED_BYTES) return;
+    documentCache.delete(url);
+    cachedBytes -= document.size;
+  }
+}
+
+// Redirects are followed by hand so every hop is checked against private addresses
+async function requestHttpsAnchor(anchorUrl: string, signal: AbortSignal): Promise<IncomingMessage> {
+  let url = new URL(anchorUrl);
+  for (let redirects = 0; ; redirects++) {
+    const address = await resolvePublicHost(url);
+
+    let res: IncomingMessage;
+    try {
+      res = await requestPinned(url, address, signal);
+    } catch (error) {
+      throw new AnchorError(`Could not reach ${url}: ${(error as Error).message}`, "unreachable");
+    }
+
+    const status = res.statusCode ?? 0;
+    const location = res.headers.location;
+    if (status < 300 || status >= 400 || !location) return res;
+    res.resume();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new AnchorError(`${anchorUrl} redirected more than ${MAX_REDIRECTS} times`, "unreachable");
+    }
+    url = new URL(location, url);
+    if (url.protocol !== "https:") {
+      throw new AnchorError(`${anchorUrl} redirected to a non-https URL`, "unsupported");
+    }
+  }
+}
+
+// The body is read chunk by chunk and the download dropped as soon as it passes the size limit
+async function downloadHttpsAnchor(url: string): Promise<Uint8Array> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const res = await requestHttpsAnchor(url, signal);
+  const tooLarge = () => {
+    res.destroy();
+    return new AnchorError(`Anchor document is larger than ${MAX_DOCUMENT_BYTES / 1024} KiB`, "too-large");
+  };
+  const status = res.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    res.resume();
+    throw new AnchorError(`${url} responded with status ${status}`, "unreachable");
+  }
+  if (Number(res.headers["content-length"] ?? 0) > MAX_DOCUMENT_BYTES) throw tooLarge();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of res as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      if (size > MAX_DOCUMENT_BYTES) throw tooLarge();
+      chunks.push(chunk);
+    }
+  } catch (error) {
+    if (error instanceof AnchorError) throw error;
+    throw new AnchorError(`Could not download ${url}: ${(error as Error).message}`, "unreachable");
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+async function fetchIpfsAnchor(url: string): Promise<Uint8Array> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await getIpfsClient().fetch(url);
+  } catch (error) {
+    if (error instanceof IpfsError) throw new AnchorError(error.message, IPFS_ERROR_REASONS[error.reason]);
+    throw error;
+  }
+  if (bytes.length > MAX_DOCUMENT_BYTES) {
+    throw new AnchorError(`Anchor document is larger than ${MAX_DOCUMENT_BYTES / 1024} KiB`, "too-large");
+  }
+  return bytes;
+}
+
+/**
+ * Fetches the raw bytes behind an anchor URL. ipfs:// anchors go through the
+ * IPFS client; https:// downloads are kept for a while in a bounded in-memory
+ * cache. Plain http:// and https:// hosts that aren't public are refused.
+ */
+export function fetchAnchorBytes(anchorUrl: string): Promise<Uint8Array> {
+  const url = anchorUrl.trim();
+  if (url.startsWith("ipfs://")) return fetchIpfsAnchor(url);
+  if (!url.startsWith("https://") || !URL.canParse(url)) {
+    throw new AnchorError(`Unsupported anchor URL "${anchorUrl}", expected ipfs:// or https://`, "unsupported");
+  }
+
+  const hit = documentCache.get(url);
+  if (hit) {
+    documentCache.delete(url);
+    cachedBytes -= hit.size;
+  }
+  if (hit && hit.expiresAt > Date.now()) {
+    // Back in at the end so it is evicted last
+    documentCache.set(url, hit);
+    cachedBytes += hit.size;
+    return hit.bytes;
+  }
+
+  const document: CachedDocument = {
+    bytes: downloadHttpsAnchor(url),
+    size: 0,
+    expiresAt: Date.now() + DOCUMENT_TTL_MS,
+  };
+  documentCache.set(url, document);
+  document.bytes.then(
+    (bytes) => {
+      if (documentCache.get(url) !== document) return;
+      document.size = bytes.length;
+      cachedBytes += bytes.length;
+      evictDocuments();
+    },
+    () => {
+      if (documentCache.get(url) === document) documentCache.delete(url);
+    }
+  );
+  evictDocuments();
+  return document.bytes;
+}
+
+/** Fetches and parses the JSON(-LD) document behind an anchor URL */
+export async function fetchAnchorDocument(anchorUrl: string): Promise<unknown> {
+  const bytes = await fetchAnchorBytes(anchorUrl);
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new AnchorError("Anchor document is not valid JSON", "malformed");
+  }
+}
+
+/** blake2b-256 of the exact document bytes, as anchors are hashed on-chain */
+export function computeAnchorHash(bytes: Uint8Array): string {
+  return Buffer.from(blake2b(bytes, undefined, 32)).toString("hex");
+}
+
+/** Downloads an anchor and compares its hash with the one recorded on-chain */
+export async function verifyAnchor(anchorUrl: string, expectedHash: string | undefined): Promise<AnchorVerification> {
+  if (!expectedHash || !ANCHOR_HASH_PATTERN.test(expectedHash)) {
+    return { integrity: "unverifiable", reason: "No valid blake2b-256 anchor hash was recorded" };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await fetchAnchorBytes(anchorUrl);
+  } catch (error) {
+    if (error instanceof AnchorError) return { integrity: "unverifiable", expectedHash, reason: error.message };
+    throw error;
+  }
+
+  const computedHash = computeAnchorHash(bytes);
+  return {
+    integrity: computedHash === expectedHash.toLowerCase() ? "verified" : "mismatch",
+    expectedHash,
+    computedHash,
+  };
+}
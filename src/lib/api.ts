@@ -0,0 +1,148 @@
+import type { Protocol } from "@meshsdk/core";
+import { env } from "@/config/env";
+import type {
+  AccountDelegation,
+  ActionTurnout,
+  AnchorVerification,
+  Committee,
+  CommitteeVoteRecord,
+  DRepProfile,
+  DRepSummary,
+  DRepVote,
+  ExportFormat,
+  GovernanceAction,
+  GovernanceActionDetail,
+  GuardrailsScript,
+  NCLData,
+  ParticipationReport,
+  SearchResults,
+  SortDirection,
+  SpoVoteRecord,
+  TreasuryLedger,
+  VotePage,
+  VoteRationale,
+  VoteRecord,
+  VoteSortKey,
+  VoteType,
+  VotingThresholds,
+} from "@/types/governance";
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+async function getJson<T>(path: string): Promise<T> {
+  const res = await fetch(`${env.apiBaseUrl}${path}`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ApiError(body?.error ?? `Request failed with status ${res.status}`, res.status);
+  }
+  return res.json();
+}
+
+function toSearchParams(values: Record<string, string | number | undefined>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  return params;
+}
+
+/** Browser-openable URL for an anchor; ipfs:// goes through the server's IPFS route */
+export const getAnchorHref = (anchorUrl: string) =>
+  anchorUrl.startsWith("ipfs://")
+    ? `${env.apiBaseUrl}/ipfs/${anchorUrl.slice("ipfs://".length).replace(/^ipfs\//, "")}`
+    : anchorUrl;
+
+export const fetchGovernanceActions = () => getJson<GovernanceAction[]>("/governance/actions");
+
+export const fetchGovernanceAction = (hash: string) =>
+  getJson<GovernanceActionDetail>(`/governance/actions/${encodeURIComponent(hash)}`);
+
+export const fetchVotes = (hash: string) =>
+  getJson<VoteRecord[]>(`/governance/actions/${encodeURIComponent(hash)}/votes`);
+
+export const fetchSpoVotes = (hash: string) =>
+  getJson<SpoVoteRecord[]>(`/governance/actions/${encodeURIComponent(hash)}/votes?role=spo`);
+
+export interface VotePageQuery {
+  q?: string;
+  vote?: VoteType;
+  sort?: VoteSortKey;
+  dir?: SortDirection;
+  limit?: number;
+  cursor?: string;
+}
+
+const getVotePage = <T>(hash: string, role: "drep" | "spo", query: VotePageQuery) =>
+  getJson<VotePage<T>>(
+    `/governance/actions/${encodeURIComponent(hash)}/votes/search?${toSearchParams({ role, ...query })}`
+  );
+
+export const fetchDRepVotePage = (hash: string, query: VotePageQuery) => getVotePage<VoteRecord>(hash, "drep", query);
+
+export const fetchSpoVotePage = (hash: string, query: VotePageQuery) => getVotePage<SpoVoteRecord>(hash, "spo", query);
+
+/** Download URL for the action list; `filterQuery` holds the dashboard's list filter parameters */
+export const getActionsExportUrl = (filterQuery: Record<string, string>, format: ExportFormat) =>
+  `${env.apiBaseUrl}/governance/actions/export?${toSearchParams({ ...filterQuery, format })}`;
+
+/** Download URL for an action's votes; committee votes ignore the search, filter and sort */
+export const getVotesExportUrl = (
+  hash: string,
+  role: "drep" | "spo" | "cc",
+  query: Omit<VotePageQuery, "limit" | "cursor">,
+  format: ExportFormat
+) =>
+  `${env.apiBaseUrl}/governance/actions/${encodeURIComponent(hash)}/votes/export?${toSearchParams({ role, ...query, format })}`;
+
+export const fetchActionTurnout = (hash: string) =>
+  getJson<ActionTurnout>(`/governance/actions/${encodeURIComponent(hash)}/turnout`);
+
+export const fetchParticipationReport = () => getJson<ParticipationReport>("/governance/participation");
+
+export const fetchCommitteeVotes = (hash: string) =>
+  getJson<CommitteeVoteRecord[]>(`/governance/actions/${encodeURIComponent(hash)}/votes?role=cc`);
+
+export const fetchCommittee = () => getJson<Committee>("/governance/committee");
+
+export const fetchDReps = () => getJson<DRepSummary[]>("/governance/dreps");
+
+export const fetchDRep = (id: string) => getJson<DRepProfile>(`/governance/dreps/${encodeURIComponent(id)}`);
+
+export const fetchDRepVotes = (id: string) => getJson<DRepVote[]>(`/governance/dreps/${encodeURIComponent(id)}/votes`);
+
+export const fetchAccountDelegation = (stakeAddress: string) =>
+  getJson<AccountDelegation>(`/governance/accounts/${encodeURIComponent(stakeAddress)}`);
+
+export const fetchNCLData = () => getJson<NCLData>("/governance/ncl");
+
+export const fetchTreasuryLedger = () => getJson<TreasuryLedger>("/governance/treasury");
+
+export const fetchProtocolParameters = () => getJson<Protocol>("/governance/protocol-parameters");
+
+export const fetchProposalDeposit = () => getJson<{ lovelace: number }>("/governance/proposal-deposit");
+
+export const fetchGuardrailsScript = () =>
+  getJson<{ script: GuardrailsScript | null }>("/governance/guardrails-script");
+
+export const fetchVotingThresholds = () => getJson<VotingThresholds>("/governance/thresholds");
+
+/** `actionHash` lets the server index the rationale for the global search */
+export const fetchRationale = (anchorUrl: string, actionHash?: string) =>
+  getJson<VoteRationale>(
+    `/anchors/rationale?url=${encodeURIComponent(anchorUrl)}${actionHash ? `&action=${encodeURIComponent(actionHash)}` : ""}`
+  );
+
+export const fetchAnchorVerification = (anchorUrl: string, anchorHash?: string) =>
+  getJson<AnchorVerification>(
+    `/anchors/verify?url=${encodeURIComponent(anchorUrl)}${anchorHash ? `&hash=${encodeURIComponent(anchorHash)}` : ""}`
+  );
+
+export const searchGovernance = (query: string) => getJson<SearchResults>(`/search?q=${encodeURIComponent(query)}`);
@@ -0,0 +1,95 @@
+import { differenceInMinutes, format } from "date-fns";
+import { env } from "@/config/env";
+
+export type CardanoNetwork = "mainnet" | "preprod" | "preview";
+
+/**
+ * Slot timing from the first Shelley-era slot onwards, taken from each
+ * network's genesis files. Byron slots before it are not supported.
+ */
+export interface NetworkTimeParameters {
+  /** Unix time (ms) of the first Shelley slot */
+  shelleyStartTime: number;
+  shelleyStartSlot: number;
+  shelleyStartEpoch: number;
+  slotLengthMs: number;
+  epochLengthSlots: number;
+}
+
+export const NETWORK_TIME_PARAMETERS: Record<CardanoNetwork, NetworkTimeParameters> = {
+  mainnet: {
+    shelleyStartTime: Date.UTC(2020, 6, 29, 21, 44, 51),
+    shelleyStartSlot: 4_492_800,
+    shelleyStartEpoch: 208,
+    slotLengthMs: 1000,
+    epochLengthSlots: 432_000,
+  },
+  preprod: {
+    shelleyStartTime: Date.UTC(2022, 5, 21),
+    shelleyStartSlot: 86_400,
+    shelleyStartEpoch: 4,
+    slotLengthMs: 1000,
+    epochLengthSlots: 432_000,
+  },
+  preview: {
+    shelleyStartTime: Date.UTC(2022, 9, 25),
+    shelleyStartSlot: 0,
+    shelleyStartEpoch: 0,
+    slotLengthMs: 1000,
+    epochLengthSlots: 86_400,
+  },
+};
+
+function getParameters(network: string): NetworkTimeParameters {
+  const parameters = NETWORK_TIME_PARAMETERS[network as CardanoNetwork];
+  if (!parameters) throw new Error(`Unknown Cardano network "${network}"`);
+  return parameters;
+}
+
+export function slotToDate(slot: number, network: string = env.network): Date {
+  const p = getParameters(network);
+  return new Date(p.shelleyStartTime + (slot - p.shelleyStartSlot) * p.slotLengthMs);
+}
+
+export function dateToSlot(date: Date, network: string = env.network): number {
+  const p = getParameters(network);
+  return p.shelleyStartSlot + Math.floor((date.getTime() - p.shelleyStartTime) / p.slotLengthMs);
+}
+
+export function slotToEpoch(slot: number, network: string = env.network): number {
+  const p = getParameters(network);
+  return p.shelleyStartEpoch + Math.floor((slot - p.shelleyStartSlot) / p.epochLengthSlots);
+}
+
+export function dateToEpoch(date: Date, network: string = env.network): number {
+  return slotToEpoch(dateToSlot(date, network), network);
+}
+
+export function epochStartDate(epoch: number, network: string = env.network): Date {
+  const p = getParameters(network);
+  return slotToDate(p.shelleyStartSlot + (epoch - p.shelleyStartEpoch) * p.epochLengthSlots, network);
+}
+
+export function epochEndDate(epoch: number, network: string = env.network): Date {
+  return epochStartDate(epoch + 1, network);
+}
+
+export const getCurrentEpoch = (network: string = env.network): number => dateToEpoch(new Date(), network);
+
+/** Actions can be voted on until the end of their expiry epoch */
+export const getActionDeadline = (expiryEpoch: number, network: string = env.network): Date =>
+  epochEndDate(expiryEpoch, network);
+
+export const formatEpochDate = (epoch: number, network: string = env.network): string =>
+  format(epochStartDate(epoch, network), "MMM d, yyyy");
+
+/** Compact remaining time such as "3 days 4h", "5h 12m" or "8m"; "0m" once passed */
+export function formatCountdown(target: Date, now: Date = new Date()): string {
+  const minutes = Math.max(0, differenceInMinutes(target, now));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+
+  if (days > 0) return `${days} ${days === 1 ? "day" : "days"} ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
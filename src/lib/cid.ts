@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import { blake2b } from "blakejs";
+
+/** Multicodec codes of the block formats the IPFS client can read */
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+export const CODEC_JSON = 0x0200;
+export const CODEC_DAG_JSON = 0x0129;
+
+/** UnixFS node types that carry file content or name other nodes */
+export const UNIXFS_RAW = 0;
+export const UNIXFS_DIRECTORY = 1;
+export const UNIXFS_FILE = 2;
+
+const SHA2_256 = 0x12;
+const BLAKE2B_256 = 0xb220;
+const DIGEST_BYTES = 32;
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+export interface Cid {
+  version: 0 | 1;
+  codec: number;
+  /** Multihash function code; only sha2-256 and blake2b-256 are accepted */
+  hashCode: number;
+  digest: Uint8Array;
+}
+
+export interface DagPbLink {
+  cid: Cid;
+  name: string;
+}
+
+export interface DagPbNode {
+  data?: Uint8Array;
+  links: DagPbLink[];
+}
+
+export interface UnixFsData {
+  type: number;
+  data?: Uint8Array;
+}
+
+function decodeBase58(text: string): Uint8Array {
+  // Little-endian while decoding, reversed at the end
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    for (; carry > 0; carry >>= 8) bytes.push(carry & 0xff);
+  }
+  // Each leading "1" stands for a leading zero byte
+  for (let i = 0; i < text.length && text[i] === "1"; i++) bytes.push(0);
+  return Uint8Array.from(bytes.reverse());
+}
+
+function decodeBase32(text: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) throw new Error(`Invalid base32 character "${char}"`);
+    buffer = ((buffer << 5) | value) & 0x1fff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let text = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0x1fff;
+    bits += 8;
+    for (; bits >= 5; bits -= 5) text += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+  }
+  if (bits > 0) text += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return text;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [value: number, next: number] {
+  let value = 0;
+  for (let i = offset, shift = 0; i < bytes.length && shift < 49; i++, shift += 7) {
+    value += (bytes[i] & 0x7f) * 2 ** shift;
+    if (bytes[i] < 0x80) return [value, i + 1];
+  }
+  throw new Error("Truncated or oversized varint");
+}
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  for (; value >= 0x80; value = Math.floor(value / 0x80)) bytes.push((value % 0x80) | 0x80);
+  bytes.push(value);
+  return bytes;
+}
+
+/** Reads the binary form of a CID, as found in dag-pb links */
+export function decodeCidBytes(bytes: Uint8Array): Cid {
+  let cid: Cid;
+  // CIDv0 is a bare sha2-256 multihash of a dag-pb block
+  if (bytes.length === DIGEST_BYTES + 2 && bytes[0] === SHA2_256 && bytes[1] === DIGEST_BYTES) {
+    cid = { version: 0, codec: CODEC_DAG_PB, hashCode: SHA2_256, digest: bytes.slice(2) };
+  } else {
+    const [version, afterVersion] = readVarint(bytes, 0);
+    if (version !== 1) throw new Error(`Unsupported CID version ${version}`);
+    const [codec, afterCodec] = readVarint(bytes, afterVersion);
+    const [hashCode, afterHashCode] = readVarint(bytes, afterCodec);
+    const [length, start] = readVarint(bytes, afterHashCode);
+    if (start + length !== bytes.length) throw new Error("CID digest length does not match");
+    cid = { version: 1, codec, hashCode, digest: bytes.slice(start) };
+  }
+
+  if (cid.hashCode !== SHA2_256 && cid.hashCode !== BLAKE2B_256) {
+    throw new Error(`Unsupported multihash function 0x${cid.hashCode.toString(16)}`);
+  }
+  if (cid.digest.length !== DIGEST_BYTES) throw new Error(`Expected a ${DIGEST_BYTES}-byte digest`);
+  return cid;
+}
+
+/** Parses a CIDv0 or a CIDv1 in base32 (b), base58btc (z) or base16 (f), the encodings gateways accept */
+export function parseCid(text: string): Cid {
+  if (text.startsWith("Qm")) return decodeCidBytes(decodeBase58(text));
+
+  const body = text.slice(1);
+  switch (text[0]) {
+    case "b":
+      return decodeCidBytes(decodeBase32(body));
+    case "z":
+      return decodeCidBytes(decodeBase58(body));
+    case "f":
+      if (!/^([0-9a-f]{2})+$/.test(body)) throw new Error("Invalid base16 CID");
+      return decodeCidBytes(Uint8Array.from(Buffer.from(body, "hex")));
+    default:
+      throw new Error(`Unsupported CID multibase "${text[0]}"`);
+  }
+}
+
+/** CIDv1 in base32, the form gateways and path names use; v0 CIDs are upgraded */
+export function formatCid(cid: Cid): string {
+  const bytes = [
+    ...encodeVarint(1),
+    ...encodeVarint(cid.codec),
+    ...encodeVarint(cid.hashCode),
+    ...encodeVarint(cid.digest.length),
+    ...cid.digest,
+  ];
+  return `b${encodeBase32(Uint8Array.from(bytes))}`;
+}
+
+/** Whether a block hashes to the digest in its CID */
+export function blockMatchesCid(cid: Cid, block: Uint8Array): boolean {
+  const digest =
+    cid.hashCode === SHA2_256 ? createHash("sha256").update(block).digest() : blake2b(block, undefined, DIGEST_BYTES);
+  return Buffer.from(digest).equals(Buffer.from(cid.digest));
+}
+
+// Varint (wire type 0) and length-delimited (wire type 2) protobuf fields, which is all dag-pb and UnixFS use
+function readProtobufFields(bytes: Uint8Array): { field: number; value: number | Uint8Array }[] {
+  const fields: { field: number; value: number | Uint8Array }[] = [];
+  for (let offset = 0; offset < bytes.length;) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      const [value, next] = readVarint(bytes, afterKey);
+      fields.push({ field, value });
+      offset = next;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(bytes, afterKey);
+      if (start + length > bytes.length) throw new Error("Truncated protobuf field");
+      fields.push({ field, value: bytes.subarray(start, start + length) });
+      offset = start + length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+/** Decodes a dag-pb block: PBNode { 1: Data, 2: Links }, PBLink { 1: Hash, 2: Name, 3: Tsize } */
+export function decodeDagPb(block: Uint8Array): DagPbNode {
+  const node: DagPbNode = { links: [] };
+  for (const { field, value } of readProtobufFields(block)) {
+    if (!(value instanceof Uint8Array)) continue;
+    if (field === 1) node.data = value;
+    if (field !== 2) continue;
+
+    let hash: Uint8Array | undefined;
+    let name = "";
+    for (const link of readProtobufFields(value)) {
+      if (!(link.value instanceof Uint8Array)) continue;
+      if (link.field === 1) hash = link.value;
+      if (link.field === 2) name = new TextDecoder().decode(link.value);
+    }
+    if (!hash) throw new Error("dag-pb link without a hash");
+    node.links.push({ cid: decodeCidBytes(hash), name });
+  }
+  return node;
+}
+
+/** Decodes the UnixFS Data message carried in a dag-pb node: { 1: Type, 2: Data } */
+export function decodeUnixFs(data: Uint8Array): UnixFsData {
+  let type: number | undefined;
+  let content: Uint8Array | undefined;
+  for (const { field, value } of readProtobufFields(data)) {
+    if (field === 1 && typeof value === "number") type = value;
+    if (field === 2 && value instanceof Uint8Array) content = value;
+  }
+  if (type === undefined) throw new Error("UnixFS data without a type");
+  return { type, data: content };
+}
@@ -0,0 +1,80 @@
+import { blake2bHex } from "blakejs";
+import type { RationaleReference } from "@/types/governance";
+
+/** The only hash algorithm CIP-100 defines for anchored documents */
+export const CIP100_HASH_ALGORITHM = "blake2b-256";
+
+export const CIP100_CONTEXT_URL = "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0100/README.md#";
+
+/** JSON-LD context of the CIP-100 `authors` list */
+export const CIP100_AUTHORS_CONTEXT = {
+  "@id": "CIP100:authors",
+  "@container": "@set",
+  "@context": {
+    name: "http://xmlns.com/foaf/0.1/name",
+    witness: {
+      "@id": "CIP100:witness",
+      "@context": {
+        witnessAlgorithm: "CIP100:witnessAlgorithm",
+        publicKey: "CIP100:publicKey",
+        signature: "CIP100:signature",
+      },
+    },
+  },
+};
+
+/**
+ * JSON-LD context of a `references` list under the given CIP's body, with any
+ * reference types that CIP adds on top of CIP-100's.
+ */
+export function referencesContext(id: string, extraTypes: Record<string, string> = {}) {
+  return {
+    "@id": id,
+    "@container": "@set",
+    "@context": {
+      GovernanceMetadata: "CIP100:GovernanceMetadataReference",
+      Other: "CIP100:OtherReference",
+      ...extraTypes,
+      label: "CIP100:reference-label",
+      uri: "CIP100:reference-uri",
+    },
+  };
+}
+
+/** Problems with the CIP-100 envelope of a document; the body is left to the caller */
+export function validateCip100Envelope(document: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+  if (typeof document["@context"] !== "object" || document["@context"] === null) {
+    issues.push("The document needs a JSON-LD @context");
+  }
+  if (document.hashAlgorithm !== CIP100_HASH_ALGORITHM) {
+    issues.push(`hashAlgorithm must be "${CIP100_HASH_ALGORITHM}"`);
+  }
+  if (!Array.isArray(document.authors)) issues.push("authors must be a list");
+  return issues;
+}
+
+/** Problems with a list of references, numbered as the user sees them */
+export function validateReferences(references: RationaleReference[], types: readonly string[]): string[] {
+  return references.flatMap((reference, index) => {
+    const issues: string[] = [];
+    if (!/^(https?|ipfs):\/\/\S+$/.test(reference.uri)) {
+      issues.push(`Reference ${index + 1} needs an http(s):// or ipfs:// URI`);
+    }
+    if (!reference.label.trim()) issues.push(`Reference ${index + 1} needs a label`);
+    if (reference.type && !types.includes(reference.type)) {
+      issues.push(`Reference ${index + 1} has an unknown type "${reference.type}"`);
+    }
+    return issues;
+  });
+}
+
+/** The document as it should be published; its anchor hash covers exactly these bytes */
+export function serializeAnchorDocument(document: Record<string, unknown>): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/** blake2b-256 of a serialized document, as recorded in an on-chain anchor */
+export function hashAnchorDocument(serialized: string): string {
+  return blake2bHex(new TextEncoder().encode(serialized), undefined, 32);
+}
@@ -0,0 +1,92 @@
+import { bech32 } from "bech32";
+
+/** A governance action ID: the proposing transaction and the proposal's index in it */
+export interface GovActionId {
+  txHash: string;
+  index: number;
+}
+
+const GOV_ACTION_PREFIX = "gov_action";
+const TX_HASH_BYTES = 32;
+const TX_HASH_PATTERN = /^[0-9a-f]{64}$/i;
+
+/** CIP-129 bech32 ID: the 32-byte tx hash followed by a one-byte index */
+export function encodeGovActionId({ txHash, index }: GovActionId): string {
+  if (!TX_HASH_PATTERN.test(txHash)) throw new Error(`Invalid transaction hash "${txHash}"`);
+  if (!Number.isInteger(index) || index < 0 || index > 255) throw new Error(`Invalid proposal index ${index}`);
+
+  const bytes = [...Buffer.from(txHash, "hex"), index];
+  return bech32.encode(GOV_ACTION_PREFIX, bech32.toWords(bytes));
+}
+
+/** Returns null unless `id` is a well-formed `gov_action1…` ID */
+export function decodeGovActionId(id: string): GovActionId | null {
+  const decoded = bech32.decodeUnsafe(id.toLowerCase());
+  if (!decoded || decoded.prefix !== GOV_ACTION_PREFIX) return null;
+
+  const bytes = bech32.fromWordsUnsafe(decoded.words);
+  if (!bytes || bytes.length !== TX_HASH_BYTES + 1) return null;
+  return {
+    txHash: Buffer.from(bytes.slice(0, TX_HASH_BYTES)).toString("hex"),
+    index: bytes[TX_HASH_BYTES],
+  };
+}
+
+/**
+ * The ID an action is routed and looked up by: its transaction hash, or its
+ * CIP-129 ID when it is not the first proposal in that transaction, so
+ * proposals sharing a transaction stay apart.
+ */
+export function getActionId(action: { hash: string; index?: number }): string {
+  return action.index ? encodeGovActionId({ txHash: action.hash, index: action.index }) : action.hash;
+}
+
+/**
+ * Reads a pasted action reference: a CIP-129 ID or the `<tx hash>#<index>`
+ * form used by explorers and the CLI. Returns null for anything else.
+ */
+export function parseGovActionReference(reference: string): GovActionId | null {
+  const value = reference.trim();
+  if (value.toLowerCase().startsWith(GOV_ACTION_PREFIX)) return decodeGovActionId(value);
+
+  const match = /^([0-9a-f]{64})#(\d{1,3})$/i.exec(value);
+  return match ? { txHash: match[1].toLowerCase(), index: Number(match[2]) } : null;
+}
+
+/** A committee cold credential: the hash of a key or of a script */
+export interface CommitteeCredential {
+  type: "KeyHash" | "ScriptHash";
+  hash: string;
+}
+
+const CC_COLD_PREFIX = "cc_cold";
+const CREDENTIAL_HASH_BYTES = 28;
+// CIP-129 header bytes: key type 0001 (CC cold) followed by the credential type
+const CC_COLD_KEY_HEADER = 0x12;
+const CC_COLD_SCRIPT_HEADER = 0x13;
+
+/**
+ * Reads a committee cold credential given as a CIP-129 `cc_cold1…` ID, a
+ * CIP-105 `cc_cold1…` / `cc_cold_script1…` ID or a bare 56-character key
+ * hash. Returns null for anything else.
+ */
+export function decodeCommitteeColdCredential(id: string): CommitteeCredential | null {
+  const value = id.trim().toLowerCase();
+  if (/^[0-9a-f]{56}$/.test(value)) return { type: "KeyHash", hash: value };
+
+  const decoded = bech32.decodeUnsafe(value);
+  if (!decoded || !decoded.prefix.startsWith(CC_COLD_PREFIX)) return null;
+  const bytes = bech32.fromWordsUnsafe(decoded.words);
+  if (!bytes) return null;
+
+  const hash = (payload: number[]) => Buffer.from(payload).toString("hex");
+  if (bytes.length === CREDENTIAL_HASH_BYTES) {
+    if (decoded.prefix === CC_COLD_PREFIX) return { type: "KeyHash", hash: hash(bytes) };
+    if (decoded.prefix === `${CC_COLD_PREFIX}_script`) return { type: "ScriptHash", hash: hash(bytes) };
+    return null;
+  }
+  if (bytes.length !== CREDENTIAL_HASH_BYTES + 1 || decoded.prefix !== CC_COLD_PREFIX) return null;
+  if (bytes[0] === CC_COLD_KEY_HEADER) return { type: "KeyHash", hash: hash(bytes.slice(1)) };
+  if (bytes[0] === CC_COLD_SCRIPT_HEADER) return { type: "ScriptHash", hash: hash(bytes.slice(1)) };
+  return null;
+}
@@ -0,0 +1,57 @@
+import type { Committee, CommitteeMember, CommitteeVoteRecord } from "@/types/governance";
+
+export interface CommitteeTally {
+  /** Members whose votes count: authorized hot key and term not expired */
+  activeMembers: number;
+  yes: number;
+  no: number;
+  abstain: number;
+  /** Active members that did not vote; they count as No */
+  notVoted: number;
+  /** Yes share of active, non-abstaining members in percent */
+  yesPercent: number;
+  noPercent: number;
+  /** Required Yes share in percent */
+  threshold: number;
+  quorumReached: boolean;
+}
+
+export function isActiveMember(member: CommitteeMember, epoch: number): boolean {
+  return member.status === "Authorized" && member.expiryEpoch >= epoch;
+}
+
+/**
+ * Tallies committee votes the way the ledger does: only active members count,
+ * abstentions leave the denominator and missing votes count as No.
+ */
+export function getCommitteeTally(committee: Committee, votes: CommitteeVoteRecord[], epoch: number): CommitteeTally {
+  const active = committee.members.filter((member) => isActiveMember(member, epoch));
+  const voteByMember = new Map(votes.map((vote) => [vote.coldCredential, vote.vote]));
+
+  let yes = 0;
+  let no = 0;
+  let abstain = 0;
+  for (const member of active) {
+    const vote = voteByMember.get(member.coldCredential);
+    if (vote === "Yes") yes++;
+    else if (vote === "No") no++;
+    else if (vote === "Abstain") abstain++;
+  }
+
+  const notVoted = active.length - yes - no - abstain;
+  const counted = active.length - abstain;
+  const yesPercent = counted > 0 ? (yes / counted) * 100 : 0;
+  const threshold = committee.threshold * 100;
+
+  return {
+    activeMembers: active.length,
+    yes,
+    no,
+    abstain,
+    notVoted,
+    yesPercent,
+    noPercent: counted > 0 ? ((no + notVoted) / counted) * 100 : 0,
+    threshold,
+    quorumReached: yesPercent >= threshold,
+  };
+}
@@ -0,0 +1,33 @@
+import { serverEnv } from "@/config/env";
+import { createKoiosDataSource } from "./koios";
+import { createMockDataSource } from "./mock";
+import { getCalendarYearNCLPeriod, parseNCLPeriods } from "@/lib/treasury";
+import type { GovernanceDataSource } from "./types";
+
+export type { GovernanceDataSource } from "./types";
+
+let dataSource: GovernanceDataSource | undefined;
+
+function createDataSource(): GovernanceDataSource {
+  switch (serverEnv.dataSource) {
+    case "mock":
+      return createMockDataSource();
+    case "koios":
+      return createKoiosDataSource({
+        baseUrl: serverEnv.koiosBaseUrl,
+        apiKey: serverEnv.koiosApiKey,
+        ncl: serverEnv.nclPeriods
+          ? parseNCLPeriods(serverEnv.nclPeriods)
+          : [getCalendarYearNCLPeriod(serverEnv.nclYear, serverEnv.nclLimitAda)],
+      });
+    default:
+      throw new Error(`Unknown governance data source "${serverEnv.dataSource}"`);
+  }
+}
+
+export function getDataSource(): GovernanceDataSource {
+  if (!dataSource) {
+    dataSource = createDataSource();
+  }
+  return dataSource;
+}
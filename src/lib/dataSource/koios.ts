@@ -0,0 +1,792 @@
+import type {
+  AccountDelegation,
+  CommitteeMember,
+  CommitteeVoteRecord,
+  DRepProfile,
+  DRepSummary,
+  DRepVote,
+  GovernanceAction,
+  GovernanceActionDetail,
+  GuardrailsScript,
+  NCLPeriod,
+  PredefinedDRepStake,
+  SpoVoteRecord,
+  VoteRecord,
+  VotingThresholds,
+} from "@/types/governance";
+import { castProtocol } from "@meshsdk/core";
+import { getProtocolParameterInfo } from "@/lib/protocolParameters";
+import { dateToEpoch, getCurrentEpoch } from "@/lib/cardanoTime";
+import { getActionId, parseGovActionReference } from "@/lib/cip129";
+import { computeNCLData, extractTreasuryWithdrawals } from "@/lib/treasury";
+import { mapWithConcurrency } from "@/lib/utils";
+import type { GovernanceDataSource } from "./types";
+
+interface KoiosDataSourceOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** How long list responses are reused before Koios is queried again */
+  cacheTtlMs?: number;
+  /** Net Change Limit periods, current and past */
+  ncl: NCLPeriod[];
+  fetch?: typeof fetch;
+}
+
+interface KoiosWithdrawal {
+  stake_address: string;
+  amount: string;
+}
+
+interface KoiosProposal {
+  proposal_id: string;
+  proposal_tx_hash: string;
+  proposal_index: number;
+  proposal_type: string;
+  proposed_epoch: number;
+  ratified_epoch: number | null;
+  enacted_epoch: number | null;
+  dropped_epoch: number | null;
+  expired_epoch: number | null;
+  expiration: number | null;
+  meta_url: string | null;
+  meta_hash: string | null;
+  meta_json: { body?: Record<string, unknown> } | null;
+  withdrawal: KoiosWithdrawal[] | KoiosWithdrawal | null;
+  /** Ledger JSON of the action: { tag, contents } */
+  proposal_description: { tag: string; contents?: unknown } | null;
+  /** Changed protocol parameters keyed by db-sync column name */
+  param_proposal: Record<string, unknown> | null;
+}
+
+interface KoiosVotingSummary {
+  drep_yes_votes_cast: number;
+  drep_yes_vote_power: string;
+  drep_yes_pct: number;
+  drep_no_votes_cast: number;
+  drep_no_vote_power: string;
+  drep_no_pct: number;
+  drep_abstain_votes_cast: number;
+  pool_yes_votes_cast: number;
+  pool_yes_vote_power: string;
+  pool_yes_pct: number;
+  pool_no_votes_cast: number;
+  pool_no_vote_power: string;
+  pool_no_pct: number;
+  pool_abstain_votes_cast: number;
+  committee_yes_votes_cast: number;
+  committee_yes_pct: number;
+  committee_no_votes_cast: number;
+  committee_no_pct: number;
+  committee_abstain_votes_cast: number;
+}
+
+interface KoiosVote {
+  block_time: number;
+  voter_role: "ConstitutionalCommittee" | "DRep" | "SPO";
+  voter_id: string;
+  vote: "Yes" | "No" | "Abstain";
+  meta_url: string | null;
+  meta_hash: string | null;
+}
+
+interface KoiosDRepInfo {
+  drep_id: string;
+  registered: boolean;
+  active: boolean;
+  amount: string;
+  meta_url: string | null;
+  meta_hash: string | null;
+}
+
+/** CIP-119 metadata body; every field may be a plain string or a JSON-LD value object */
+interface KoiosDRepMetadataBody {
+  givenName?: unknown;
+  objectives?: unknown;
+  motivations?: unknown;
+  qualifications?: unknown;
+  image?: { contentUrl?: unknown } | null;
+  references?: { label?: unknown; uri?: unknown }[] | null;
+}
+
+interface KoiosDRepMetadata {
+  drep_id: string;
+  meta_json: { body?: KoiosDRepMetadataBody } | null;
+}
+
+interface KoiosDRepUpdate {
+  drep_id: string;
+  block_time: number;
+}
+
+interface KoiosDRepVote {
+  proposal_tx_hash: string;
+  proposal_index: number;
+  block_time: number;
+  vote: "Yes" | "No" | "Abstain";
+  meta_url: string | null;
+  meta_hash: string | null;
+}
+
+interface KoiosAccountInfo {
+  stake_address: string;
+  status: "registered" | "not registered";
+  delegated_drep: string | null;
+  total_balance: string;
+}
+
+interface KoiosPoolInfo {
+  pool_id_bech32: string;
+  pledge: string;
+  active_stake: string | null;
+  meta_json: { name?: string; ticker?: string } | null;
+}
+
+/** cardano-cli formatted protocol parameters */
+interface KoiosProtocolParams {
+  dRepVotingThresholds: VotingThresholds["drep"];
+  poolVotingThresholds: VotingThresholds["spo"];
+  txFeePerByte: number;
+  txFeeFixed: number;
+  maxBlockBodySize: number;
+  maxBlockHeaderSize: number;
+  maxTxSize: number;
+  maxValueSize: number;
+  stakeAddressDeposit: number;
+  stakePoolDeposit: number;
+  minPoolCost: number;
+  utxoCostPerByte: number;
+  collateralPercentage: number;
+  maxCollateralInputs: number;
+  minFeeRefScriptCostPerByte: number;
+  executionUnitPrices: { priceMemory: number; priceSteps: number };
+  maxTxExecutionUnits: { memory: number; steps: number };
+  maxBlockExecutionUnits: { memory: number; steps: number };
+  govActionDeposit: number;
+}
+
+interface KoiosScriptInfo {
+  script_hash: string;
+  type: "plutusV1" | "plutusV2" | "plutusV3" | "timelock" | "multisig";
+  /** CBOR hex of Plutus scripts, null for native ones */
+  bytes: string | null;
+}
+
+const PLUTUS_VERSIONS: Partial<Record<KoiosScriptInfo["type"], GuardrailsScript["version"]>> = {
+  plutusV1: "V1",
+  plutusV2: "V2",
+  plutusV3: "V3",
+};
+
+interface KoiosCommitteeMember {
+  status: "authorized" | "not_authorized" | "resigned";
+  cc_hot_id: string | null;
+  cc_cold_id: string;
+  expiration_epoch: number;
+}
+
+interface KoiosCommitteeInfo {
+  quorum_numerator: number;
+  quorum_denominator: number;
+  members: KoiosCommitteeMember[];
+}
+
+const COMMITTEE_STATUS: Record<KoiosCommitteeMember["status"], CommitteeMember["status"]> = {
+  authorized: "Authorized",
+  not_authorized: "NotAuthorized",
+  resigned: "Resigned",
+};
+
+const PAGE_SIZE = 1000;
+// Upper bound on ids per bulk POST request
+const BULK_REQUEST_SIZE = 500;
+// Per-proposal summaries are fetched a few at a time to stay under Koios rate limits
+const SUMMARY_CONCURRENCY = 8;
+const LOVELACE_PER_ADA = 1_000_000;
+
+function lovelaceToAda(lovelace: string | number | null | undefined): number {
+  return Number(lovelace ?? 0) / LOVELACE_PER_ADA;
+}
+
+function metadataText(value: unknown): string | undefined {
+  // CIP-100 documents may wrap values as JSON-LD objects: { "@value": "..." }
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && "@value" in value) {
+    const inner = (value as { "@value": unknown })["@value"];
+    return typeof inner === "string" ? inner : undefined;
+  }
+  return undefined;
+}
+
+// A DRep that retired and registered again is eligible from its latest registration
+function getRegistrationEpochs(updates: KoiosDRepUpdate[]): Map<string, number> {
+  const epochs = new Map<string, number>();
+  for (const update of updates) {
+    const epoch = dateToEpoch(new Date(update.block_time * 1000));
+    epochs.set(update.drep_id, Math.max(epoch, epochs.get(update.drep_id) ?? epoch));
+  }
+  return epochs;
+}
+
+function getStatus(proposal: KoiosProposal): GovernanceAction["status"] {
+  if (proposal.enacted_epoch !== null) return "Approved";
+  if (proposal.ratified_epoch !== null) return "Ratified";
+  if (proposal.dropped_epoch !== null) return "Not approved";
+  if (proposal.expired_epoch !== null) return "Expired";
+  return "Active";
+}
+
+function getWithdrawals(proposal: KoiosProposal): KoiosWithdrawal[] {
+  if (Array.isArray(proposal.withdrawal)) return proposal.withdrawal;
+  return proposal.withdrawal ? [proposal.withdrawal] : [];
+}
+
+// Ledger credentials serialise either as "keyHash-<hex>" map keys or { keyHash: "<hex>" } objects
+function credentialToString(credential: unknown): string {
+  if (typeof credential === "string") return credential;
+  if (credential && typeof credential === "object") {
+    const [kind, hash] = Object.entries(credential)[0] ?? [];
+    if (typeof hash === "string") return `${kind}-${hash}`;
+  }
+  return String(credential);
+}
+
+type GovernanceActionBase = Omit<GovernanceAction, "type">;
+
+function toTypedAction(proposal: KoiosProposal, base: GovernanceActionBase): GovernanceAction {
+  const contents = proposal.proposal_description?.contents;
+  const args = Array.isArray(contents) ? contents : [];
+
+  switch (proposal.proposal_type) {
+    case "ParameterChange":
+      return {
+        ...base,
+        type: "ParameterChange",
+        parameterChanges: Object.entries(proposal.param_proposal ?? {})
+          .filter(([, value]) => value !== null)
+          .map(([parameter, value]) => {
+            const { group, securityRelevant } = getProtocolParameterInfo(parameter);
+            return {
+              parameter,
+              group,
+              securityRelevant,
+              proposedValue: typeof value === "object" ? JSON.stringify(value) : String(value),
+            };
+          }),
+      };
+    case "HardForkInitiation": {
+      const version = (args[1] ?? {}) as { major?: number; minor?: number };
+      return {
+        ...base,
+        type: "HardForkInitiation",
+        protocolVersion: { major: version.major ?? 0, minor: version.minor ?? 0 },
+      };
+    }
+    case "NoConfidence":
+      return { ...base, type: "NoConfidence" };
+    case "NewCommittee":
+    case "UpdateCommittee": {
+      const [, removed, added, threshold] = args as [unknown, unknown[], Record<string, number>, unknown];
+      return {
+        ...base,
+        type: "UpdateCommittee",
+        membersToAdd: Object.entries(added ?? {}).map(([coldCredential, expiryEpoch]) => ({
+          coldCredential,
+          expiryEpoch,
+        })),
+        membersToRemove: (removed ?? []).map(credentialToString),
+        newThreshold: Number(threshold ?? 0),
+      };
+    }
+    case "NewConstitution": {
+      const constitution = (args[1] ?? {}) as { anchor?: { url?: string; dataHash?: string }; script?: string | null };
+      return {
+        ...base,
+        type: "NewConstitution",
+        constitution: {
+          anchorUrl: constitution.anchor?.url ?? "",
+          anchorHash: constitution.anchor?.dataHash ?? "",
+          guardrailsScriptHash: constitution.script ?? undefined,
+        },
+      };
+    }
+    case "TreasuryWithdrawals":
+      return {
+        ...base,
+        type: "TreasuryWithdrawals",
+        withdrawals: getWithdrawals(proposal).map((w) => ({
+          stakeAddress: w.stake_address,
+          amountAda: lovelaceToAda(w.amount),
+        })),
+      };
+    default:
+      return { ...base, type: "Info" };
+  }
+}
+
+function toGovernanceAction(proposal: KoiosProposal, summary: KoiosVotingSummary | undefined): GovernanceAction {
+  const title = metadataText(proposal.meta_json?.body?.title);
+  const poolVotesCast = summary ? summary.pool_yes_votes_cast + summary.pool_no_votes_cast : 0;
+  const committeeVotesCast = summary ? summary.committee_yes_votes_cast + summary.committee_no_votes_cast : 0;
+
+  let constitutionality = "Pending";
+  if (summary && committeeVotesCast > 0) {
+    constitutionality = summary.committee_yes_pct >= summary.committee_no_pct ? "Constitutional" : "Unconstitutional";
+  }
+  const committeeTally = summary
+    ? { ccYesPercent: summary.committee_yes_pct, ccNoPercent: summary.committee_no_pct }
+    : {};
+
+  return toTypedAction(proposal, {
+    hash: proposal.proposal_tx_hash,
+    index: proposal.proposal_index,
+    title: title || `${proposal.proposal_type} ${proposal.proposal_id.slice(0, 20)}...`,
+    status: getStatus(proposal),
+    constitutionality,
+    drepYesPercent: summary?.drep_yes_pct ?? 0,
+    drepNoPercent: summary?.drep_no_pct ?? 0,
+    drepYesAda: lovelaceToAda(summary?.drep_yes_vote_power).toFixed(0),
+    drepNoAda: lovelaceToAda(summary?.drep_no_vote_power).toFixed(0),
+    drepYesLovelace: summary?.drep_yes_vote_power ?? "0",
+    drepNoLovelace: summary?.drep_no_vote_power ?? "0",
+    ...(summary && poolVotesCast > 0
+      ? {
+          spoYesPercent: summary.pool_yes_pct,
+          spoNoPercent: summary.pool_no_pct,
+          spoYesAda: lovelaceToAda(summary.pool_yes_vote_power).toFixed(0),
+          spoNoAda: lovelaceToAda(summary.pool_no_vote_power).toFixed(0),
+        }
+      : {}),
+    ...committeeTally,
+    totalYes: summary
+      ? summary.drep_yes_votes_cast + summary.pool_yes_votes_cast + summary.committee_yes_votes_cast
+      : 0,
+    totalNo: summary ? summary.drep_no_votes_cast + summary.pool_no_votes_cast + summary.committee_no_votes_cast : 0,
+    totalAbstain: summary
+      ? summary.drep_abstain_votes_cast + summary.pool_abstain_votes_cast + summary.committee_abstain_votes_cast
+      : 0,
+    submissionEpoch: proposal.proposed_epoch,
+    expiryEpoch: proposal.expiration ?? proposal.proposed_epoch,
+    ratifiedEpoch: proposal.ratified_epoch ?? undefined,
+    enactedEpoch: proposal.enacted_epoch ?? undefined,
+    anchorUrl: proposal.meta_url ?? undefined,
+    anchorHash: proposal.meta_hash ?? undefined,
+  });
+}
+
+/**
+ * Data source backed by the Koios REST API (or any server exposing the same
+ * endpoints, such as a self-hosted Koios instance or a local stand-in).
+ */
+export function createKoiosDataSource({
+  baseUrl,
+  apiKey,
+  cacheTtlMs = 60_000,
+  ncl,
+  fetch: fetchImpl = fetch,
+}: KoiosDataSourceOptions): GovernanceDataSource {
+  const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  const request = async <T>(path: string, body?: unknown): Promise<T> => {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    const res = await fetchImpl(`${baseUrl}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!res.ok) {
+      throw new Error(`Koios request ${path} failed with status ${res.status}`);
+    }
+    return res.json() as Promise<T>;
+  };
+
+  // Koios caps responses at 1000 rows, so page through with offset
+  const requestAll = async <T>(path: string): Promise<T[]> => {
+    const rows: T[] = [];
+    const separator = path.includes("?") ? "&" : "?";
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await request<T[]>(`${path}${separator}offset=${offset}&limit=${PAGE_SIZE}`);
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value as Promise<T>;
+
+    const value = load();
+    cache.set(key, { expiresAt: Date.now() + cacheTtlMs, value });
+    value.catch(() => cache.delete(key));
+    return value;
+  };
+
+  // Splits bulk POST lookups so large id lists stay within request limits
+  const requestBulk = async <T>(path: string, key: string, ids: string[]): Promise<T[]> => {
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += BULK_REQUEST_SIZE) chunks.push(ids.slice(i, i + BULK_REQUEST_SIZE));
+    const pages = await Promise.all(chunks.map((chunk) => request<T[]>(path, { [key]: chunk })));
+    return pages.flat();
+  };
+
+  const getProposals = () => cached("proposals", () => requestAll<KoiosProposal>("/proposal_list"));
+
+  const getSummary = (proposalId: string) =>
+    cached(`summary:${proposalId}`, async () => {
+      const rows = await request<KoiosVotingSummary[]>(
+        `/proposal_voting_summary?_proposal_id=${encodeURIComponent(proposalId)}`
+      );
+      return rows[0];
+    });
+
+  const getProposalVotes = (proposalId: string, role: KoiosVote["voter_role"]) =>
+    cached(`votes:${role}:${proposalId}`, () =>
+      requestAll<KoiosVote>(`/proposal_votes?_proposal_id=${encodeURIComponent(proposalId)}&voter_role=eq.${role}`)
+    );
+
+  const getDRepDetails = async (drepIds: string[]) => {
+    const [info, metadata] = await Promise.all([
+      requestBulk<KoiosDRepInfo>("/drep_info", "_drep_ids", drepIds),
+      requestBulk<KoiosDRepMetadata>("/drep_metadata", "_drep_ids", drepIds),
+    ]);
+    const nameById = new Map(metadata.map((d) => [d.drep_id, metadataText(d.meta_json?.body?.givenName)]));
+    return info.map((drep) => ({ ...drep, name: nameById.get(drep.drep_id) }));
+  };
+
+  // Every DRep, retired ones included, so the DRep list and every action's votes share one lookup
+  const getDRepRegistry = () =>
+    cached("drepRegistry", async () => {
+      const dreps = await requestAll<{ drep_id: string }>("/drep_list");
+      return getDRepDetails(dreps.map((d) => d.drep_id));
+    });
+
+  const getProtocolParams = () => cached("protocolParams", () => request<KoiosProtocolParams>("/cli_protocol_params"));
+
+  const getCommitteeInfo = () =>
+    cached("committee", async () => {
+      const rows = await request<KoiosCommitteeInfo[]>("/committee_info");
+      return rows[0];
+    });
+
+  // Vote tallies don't matter to the ledger, so the per-proposal summaries are skipped
+  const getTreasuryWithdrawals = async () => {
+    const proposals = await getProposals();
+    return extractTreasuryWithdrawals(
+      proposals.filter((p) => p.proposal_type === "TreasuryWithdrawals").map((p) => toGovernanceAction(p, undefined))
+    );
+  };
+
+  // Takes the ID from getActionId; a bare transaction hash means its first proposal
+  const findProposal = async (id: string) => {
+    const proposals = await getProposals();
+    const { txHash, index } = parseGovActionReference(id) ?? { txHash: id.toLowerCase(), index: 0 };
+    return proposals.find((p) => p.proposal_tx_hash === txHash && p.proposal_index === index);
+  };
+
+  return {
+    async getActions() {
+      const proposals = await getProposals();
+      const summaries = await mapWithConcurrency(proposals, SUMMARY_CONCURRENCY, (p) => getSummary(p.proposal_id));
+      return proposals.map((proposal, i) => toGovernanceAction(proposal, summaries[i]));
+    },
+
+    async getAction(hash) {
+      const proposal = await findProposal(hash);
+      if (!proposal) return undefined;
+
+      const summary = await getSummary(proposal.proposal_id);
+      const body = proposal.meta_json?.body;
+      const action: GovernanceActionDetail = {
+        ...toGovernanceAction(proposal, summary),
+        description: metadataText(body?.abstract),
+        motivation: metadataText(body?.motivation),
+        rationale: metadataText(body?.rationale),
+      };
+      return action;
+    },
+
+    async getVotes(hash) {
+      const proposal = await findProposal(hash);
+      if (!proposal) return undefined;
+
+      const votes = await getProposalVotes(proposal.proposal_id, "DRep");
+      if (votes.length === 0) return [];
+
+      // Only DReps that registered after the registry was loaded need a lookup of their own
+      const registry = await getDRepRegistry();
+      const knownIds = new Set(registry.map((d) => d.drep_id));
+      const newIds = [...new Set(votes.map((v) => v.voter_id))].filter((id) => !knownIds.has(id));
+      const dreps = newIds.length > 0 ? [...registry, ...(await getDRepDetails(newIds))] : registry;
+      const powerById = new Map(dreps.map((d) => [d.drep_id, lovelaceToAda(d.amount)]));
+      const nameById = new Map(dreps.map((d) => [d.drep_id, d.name]));
+
+      return votes
+        .map((vote): VoteRecord => {
+          const votingPowerAda = powerById.get(vote.voter_id) ?? 0;
+          return {
+            drepId: vote.voter_id,
+            drepName: nameById.get(vote.voter_id) || vote.voter_id,
+            vote: vote.vote,
+            votingPower: votingPowerAda.toFixed(0),
+            votingPowerAda,
+            anchorUrl: vote.meta_url ?? undefined,
+            anchorHash: vote.meta_hash ?? undefined,
+            votedAt: new Date(vote.block_time * 1000).toISOString(),
+          };
+        })
+        .sort((a, b) => b.votingPowerAda - a.votingPowerAda);
+    },
+
+    async getSpoVotes(hash) {
+      const proposal = await findProposal(hash);
+      if (!proposal) return undefined;
+
+      const votes = await getProposalVotes(proposal.proposal_id, "SPO");
+      if (votes.length === 0) return [];
+
+      const pools = await requestBulk<KoiosPoolInfo>(
+        "/pool_info",
+        "_pool_bech32_ids",
+        votes.map((v) => v.voter_id)
+      );
+      const poolById = new Map(pools.map((p) => [p.pool_id_bech32, p]));
+
+      return votes
+        .map((vote): SpoVoteRecord => {
+          const pool = poolById.get(vote.voter_id);
+          return {
+            poolId: vote.voter_id,
+            poolName: pool?.meta_json?.name,
+            ticker: pool?.meta_json?.ticker,
+            vote: vote.vote,
+            pledgeAda: lovelaceToAda(pool?.pledge),
+            activeStakeAda: lovelaceToAda(pool?.active_stake),
+            anchorUrl: vote.meta_url ?? undefined,
+            anchorHash: vote.meta_hash ?? undefined,
+            votedAt: new Date(vote.block_time * 1000).toISOString(),
+          };
+        })
+        .sort((a, b) => b.activeStakeAda - a.activeStakeAda);
+    },
+
+    async getCommitteeVotes(hash) {
+      const proposal = await findProposal(hash);
+      if (!proposal) return undefined;
+
+      const [votes, committee] = await Promise.all([
+        getProposalVotes(proposal.proposal_id, "ConstitutionalCommittee"),
+        getCommitteeInfo(),
+      ]);
+      const coldByHot = new Map(committee.members.map((m) => [m.cc_hot_id, m.cc_cold_id]));
+
+      return votes.map((vote): CommitteeVoteRecord => ({
+        hotCredential: vote.voter_id,
+        coldCredential: coldByHot.get(vote.voter_id) ?? vote.voter_id,
+        vote: vote.vote,
+        anchorUrl: vote.meta_url ?? undefined,
+        anchorHash: vote.meta_hash ?? undefined,
+        votedAt: new Date(vote.block_time * 1000).toISOString(),
+      }));
+    },
+
+    async getCommittee() {
+      const committee = await getCommitteeInfo();
+      return {
+        threshold: committee.quorum_numerator / committee.quorum_denominator,
+        members: committee.members.map((member) => ({
+          coldCredential: member.cc_cold_id,
+          hotCredential: member.cc_hot_id ?? undefined,
+          status: COMMITTEE_STATUS[member.status],
+          expiryEpoch: member.expiration_epoch,
+        })),
+      };
+    },
+
+    async getDReps() {
+      return cached("dreps", async () => {
+        const [registry, registrations] = await Promise.all([
+          getDRepRegistry(),
+          requestAll<KoiosDRepUpdate>("/drep_updates?action=eq.registered&select=drep_id,block_time"),
+        ]);
+        const registeredEpochById = getRegistrationEpochs(registrations);
+
+        return registry
+          .filter((drep) => drep.registered)
+          .map((drep): DRepSummary => ({
+            drepId: drep.drep_id,
+            name: drep.name,
+            status: drep.active ? "Active" : "Inactive",
+            votingPowerAda: lovelaceToAda(drep.amount),
+            registeredEpoch: registeredEpochById.get(drep.drep_id),
+          }))
+          .sort((a, b) => b.votingPowerAda - a.votingPowerAda);
+      });
+    },
+
+    async getDRep(id) {
+      const [info, metadata, delegators, registrations] = await Promise.all([
+        request<KoiosDRepInfo[]>("/drep_info", { _drep_ids: [id] }),
+        request<KoiosDRepMetadata[]>("/drep_metadata", { _drep_ids: [id] }),
+        requestAll<{ stake_address: string }>(`/drep_delegators?_drep_id=${encodeURIComponent(id)}`),
+        request<KoiosDRepUpdate[]>(
+          `/drep_updates?_drep_id=${encodeURIComponent(id)}&action=eq.registered&select=drep_id,block_time`
+        ),
+      ]);
+      const drep = info[0];
+      if (!drep) return undefined;
+
+      const body = metadata[0]?.meta_json?.body;
+      const profile: DRepProfile = {
+        drepId: drep.drep_id,
+        name: metadataText(body?.givenName),
+        objectives: metadataText(body?.objectives),
+        motivations: metadataText(body?.motivations),
+        qualifications: metadataText(body?.qualifications),
+        imageUrl: metadataText(body?.image?.contentUrl),
+        links: (body?.references ?? []).flatMap((reference) => {
+          const uri = metadataText(reference.uri);
+          return uri ? [{ label: metadataText(reference.label) || uri, uri }] : [];
+        }),
+        status: !drep.registered ? "Retired" : drep.active ? "Active" : "Inactive",
+        votingPowerAda: lovelaceToAda(drep.amount),
+        delegatorCount: delegators.length,
+        registeredEpoch: getRegistrationEpochs(registrations).get(drep.drep_id),
+        anchorUrl: drep.meta_url ?? undefined,
+        anchorHash: drep.meta_hash ?? undefined,
+      };
+      return profile;
+    },
+
+    async getDRepVotes(id) {
+      const [info, votes, proposals] = await Promise.all([
+        request<KoiosDRepInfo[]>("/drep_info", { _drep_ids: [id] }),
+        requestAll<KoiosDRepVote>(`/drep_votes?_drep_id=${encodeURIComponent(id)}`),
+        getProposals(),
+      ]);
+      if (info.length === 0) return undefined;
+
+      const proposalByHash = new Map(proposals.map((p) => [`${p.proposal_tx_hash}#${p.proposal_index}`, p]));
+
+      return votes
+        .flatMap((vote): DRepVote[] => {
+          const proposal = proposalByHash.get(`${vote.proposal_tx_hash}#${vote.proposal_index}`);
+          if (!proposal) return [];
+          const action = toGovernanceAction(proposal, undefined);
+          return [
+            {
+              actionHash: getActionId(action),
+              actionTitle: action.title,
+              actionType: action.type,
+              vote: vote.vote,
+              anchorUrl: vote.meta_url ?? undefined,
+              anchorHash: vote.meta_hash ?? undefined,
+              votedAt: new Date(vote.block_time * 1000).toISOString(),
+            },
+          ];
+        })
+        .sort((a, b) => b.votedAt.localeCompare(a.votedAt));
+    },
+
+    async getPredefinedDRepStake() {
+      return cached("predefinedDReps", async () => {
+        const info = await request<KoiosDRepInfo[]>("/drep_info", {
+          _drep_ids: ["drep_always_abstain", "drep_always_no_confidence"],
+        });
+        const amount = (drepId: string) => lovelaceToAda(info.find((drep) => drep.drep_id === drepId)?.amount);
+        const stake: PredefinedDRepStake = {
+          alwaysAbstainAda: amount("drep_always_abstain"),
+          alwaysNoConfidenceAda: amount("drep_always_no_confidence"),
+        };
+        return stake;
+      });
+    },
+
+    async getAccountDelegation(stakeAddress) {
+      const [account] = await request<KoiosAccountInfo[]>("/account_info", { _stake_addresses: [stakeAddress] });
+      if (!account || account.status !== "registered") return undefined;
+
+      const drepId = account.delegated_drep;
+      let drepName: string | undefined;
+      if (drepId?.startsWith("drep1")) {
+        const metadata = await request<KoiosDRepMetadata[]>("/drep_metadata", { _drep_ids: [drepId] });
+        drepName = metadataText(metadata[0]?.meta_json?.body?.givenName);
+      }
+      const delegation: AccountDelegation = {
+        stakeAddress,
+        drepId,
+        drepName,
+        stakeAda: lovelaceToAda(account.total_balance),
+      };
+      return delegation;
+    },
+
+    getTreasuryWithdrawals,
+
+    async getNCLData() {
+      // The limit itself is set by an Info action, so only the consumption
+      // side can be derived from chain data
+      return computeNCLData(ncl, await getTreasuryWithdrawals());
+    },
+
+    async getProtocolParameters() {
+      const params = await getProtocolParams();
+      return castProtocol({
+        epoch: getCurrentEpoch(),
+        minFeeA: params.txFeePerByte,
+        minFeeB: params.txFeeFixed,
+        maxBlockSize: params.maxBlockBodySize,
+        maxTxSize: params.maxTxSize,
+        maxBlockHeaderSize: params.maxBlockHeaderSize,
+        keyDeposit: params.stakeAddressDeposit,
+        poolDeposit: params.stakePoolDeposit,
+        decentralisation: 0,
+        minPoolCost: String(params.minPoolCost),
+        priceMem: params.executionUnitPrices.priceMemory,
+        priceStep: params.executionUnitPrices.priceSteps,
+        maxTxExMem: String(params.maxTxExecutionUnits.memory),
+        maxTxExSteps: String(params.maxTxExecutionUnits.steps),
+        maxBlockExMem: String(params.maxBlockExecutionUnits.memory),
+        maxBlockExSteps: String(params.maxBlockExecutionUnits.steps),
+        maxValSize: params.maxValueSize,
+        collateralPercent: params.collateralPercentage,
+        maxCollateralInputs: params.maxCollateralInputs,
+        coinsPerUtxoSize: params.utxoCostPerByte,
+        minFeeRefScriptCostPerByte: params.minFeeRefScriptCostPerByte,
+      });
+    },
+
+    async getProposalDeposit() {
+      return (await getProtocolParams()).govActionDeposit;
+    },
+
+    // The latest enacted NewConstitution names the script; the genesis constitution isn't in the proposal list
+    async getGuardrailsScript() {
+      return cached("guardrailsScript", async () => {
+        const constitution = (await getProposals())
+          .filter((p) => p.proposal_type === "NewConstitution" && p.enacted_epoch !== null)
+          .sort((a, b) => b.enacted_epoch! - a.enacted_epoch!)
+          .map((p) => toGovernanceAction(p, undefined))[0];
+        const scriptHash = constitution?.type === "NewConstitution" && constitution.constitution.guardrailsScriptHash;
+        if (!scriptHash) return null;
+
+        const [script] = await request<KoiosScriptInfo[]>("/script_info", { _script_hashes: [scriptHash] });
+        const version = script && PLUTUS_VERSIONS[script.type];
+        if (!version || !script.bytes) throw new Error(`Guardrails script ${scriptHash} is not a known Plutus script`);
+        return { scriptHash, cbor: script.bytes, version };
+      });
+    },
+
+    async getVotingThresholds() {
+      return cached("thresholds", async () => {
+        const [params, committee] = await Promise.all([getProtocolParams(), getCommitteeInfo()]);
+        return {
+          drep: params.dRepVotingThresholds,
+          spo: params.poolVotingThresholds,
+          committee: committee.quorum_numerator / committee.quorum_denominator,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import {
+  generateMockCommitteeVotes,
+  generateMockSpoVotes,
+  getActionByHash,
+  mockCommittee,
+  mockDReps,
+  mockGovernanceActions,
+  mockNCLPeriods,
+  mockPredefinedDRepStake,
+} from "@/data/mockData";
+import { DEFAULT_PROTOCOL_PARAMETERS, VOTING_PROPOSAL_DEPOSIT } from "@meshsdk/core";
+import { getCurrentEpoch } from "@/lib/cardanoTime";
+import { getCommitteeTally } from "@/lib/committee";
+import { DEFAULT_VOTING_THRESHOLDS, isVotingBodyRequired } from "@/lib/ratification";
+import { computeNCLData, extractTreasuryWithdrawals } from "@/lib/treasury";
+import type {
+  CommitteeVoteRecord,
+  DRepVote,
+  GovernanceAction,
+  GovernanceActionDetail,
+  SpoVoteRecord,
+  VoteRecord,
+} from "@/types/governance";
+import type { GovernanceDataSource } from "./types";
+
+export function createMockDataSource(): GovernanceDataSource {
+  // getActionByHash generates fresh votes for actions without details, so keep
+  // the first result to serve the same votes on every request
+  const details = new Map<string, { action: GovernanceActionDetail; votes: VoteRecord[] }>();
+  const spoVotes = new Map<string, SpoVoteRecord[]>();
+  const committeeVotes = new Map<string, CommitteeVoteRecord[]>();
+
+  // The action is kept apart from its votes, which are served on their own
+  const getDetail = (hash: string) => {
+    if (!details.has(hash)) {
+      const detail = getActionByHash(hash);
+      if (!detail) return undefined;
+      const { votes = [], ...action } = detail;
+      details.set(hash, { action, votes });
+    }
+    return details.get(hash);
+  };
+
+  const getSpoVotes = (action: GovernanceAction): SpoVoteRecord[] => {
+    if (!spoVotes.has(action.hash)) {
+      spoVotes.set(action.hash, generateMockSpoVotes(action));
+    }
+    return spoVotes.get(action.hash)!;
+  };
+
+  const getCommitteeVotes = (action: GovernanceAction): CommitteeVoteRecord[] => {
+    if (!committeeVotes.has(action.hash)) {
+      committeeVotes.set(action.hash, generateMockCommitteeVotes(action));
+    }
+    return committeeVotes.get(action.hash)!;
+  };
+
+  // The mock actions carry no committee tally, so derive it from the mock votes
+  const withCommitteeTally = <T extends GovernanceAction>(action: T): T => {
+    if (!isVotingBodyRequired(action, "committee")) return action;
+    const tally = getCommitteeTally(mockCommittee, getCommitteeVotes(action), getCurrentEpoch());
+    return { ...action, ccYesPercent: tally.yesPercent, ccNoPercent: tally.noPercent };
+  };
+
+  return {
+    async getActions() {
+      return mockGovernanceActions.map(withCommitteeTally);
+    },
+    async getAction(hash) {
+      const detail = getDetail(hash);
+      return detail ? withCommitteeTally(detail.action) : undefined;
+    },
+    async getVotes(hash) {
+      const detail = getDetail(hash);
+      return detail?.votes;
+    },
+    async getSpoVotes(hash) {
+      const detail = getDetail(hash);
+      return detail ? getSpoVotes(detail.action) : undefined;
+    },
+    async getCommitteeVotes(hash) {
+      const detail = getDetail(hash);
+      return detail ? getCommitteeVotes(detail.action) : undefined;
+    },
+    async getCommittee() {
+      return mockCommittee;
+    },
+    async getDReps() {
+      return mockDReps
+        .map(({ drepId, name, status, votingPowerAda, registeredEpoch }) => ({
+          drepId,
+          name,
+          status,
+          votingPowerAda,
+          registeredEpoch,
+        }))
+        .sort((a, b) => b.votingPowerAda - a.votingPowerAda);
+    },
+    async getDRep(id) {
+      return mockDReps.find((drep) => drep.drepId === id);
+    },
+    async getDRepVotes(id) {
+      if (!mockDReps.some((drep) => drep.drepId === id)) return undefined;
+
+      return mockGovernanceActions
+        .flatMap((action): DRepVote[] => {
+          const vote = getDetail(action.hash)?.votes.find((v) => v.drepId === id);
+          if (!vote) return [];
+          return [
+            {
+              actionHash: action.hash,
+              actionTitle: action.title,
+              actionType: action.type,
+              vote: vote.vote,
+              anchorUrl: vote.anchorUrl,
+              anchorHash: vote.anchorHash,
+              votedAt: vote.votedAt,
+            },
+          ];
+        })
+        .sort((a, b) => b.votedAt.localeCompare(a.votedAt));
+    },
+    async getPredefinedDRepStake() {
+      return mockPredefinedDRepStake;
+    },
+    async getAccountDelegation(stakeAddress) {
+      // Any stake address is registered and delegated to a DRep picked from its characters
+      const sum = [...stakeAddress].reduce((total, char) => total + char.charCodeAt(0), 0);
+      const drep = mockDReps[sum % mockDReps.length];
+      return { stakeAddress, drepId: drep.drepId, drepName: drep.name, stakeAda: (sum % 500) * 100 + 250 };
+    },
+    async getTreasuryWithdrawals() {
+      return extractTreasuryWithdrawals(mockGovernanceActions);
+    },
+    async getNCLData() {
+      return computeNCLData(mockNCLPeriods, extractTreasuryWithdrawals(mockGovernanceActions));
+    },
+    async getProtocolParameters() {
+      return DEFAULT_PROTOCOL_PARAMETERS;
+    },
+    async getProposalDeposit() {
+      return Number(VOTING_PROPOSAL_DEPOSIT);
+    },
+    // The mock constitution has no guardrails script, so no proposal needs a policy
+    async getGuardrailsScript() {
+      return null;
+    },
+    async getVotingThresholds() {
+      return DEFAULT_VOTING_THRESHOLDS;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { Protocol } from "@meshsdk/core";
+import type {
+  AccountDelegation,
+  Committee,
+  CommitteeVoteRecord,
+  DRepProfile,
+  DRepSummary,
+  DRepVote,
+  GovernanceAction,
+  GovernanceActionDetail,
+  GuardrailsScript,
+  NCLData,
+  PredefinedDRepStake,
+  SpoVoteRecord,
+  TreasuryWithdrawalRecord,
+  VoteRecord,
+  VotingThresholds,
+} from "@/types/governance";
+
+/**
+ * Read-only access to governance data. API routes talk to this interface only,
+ * so the backing store (mock data, Koios, ...) can be swapped through config.
+ */
+export interface GovernanceDataSource {
+  getActions(): Promise<GovernanceAction[]>;
+  /**
+   * Resolves to `undefined` when no action with this hash exists. Votes are
+   * not included; they are served by `getVotes`.
+   */
+  getAction(hash: string): Promise<GovernanceActionDetail | undefined>;
+  /** Resolves to `undefined` when no action with this hash exists. */
+  getVotes(hash: string): Promise<VoteRecord[] | undefined>;
+  /** Resolves to `undefined` when no action with this hash exists. */
+  getSpoVotes(hash: string): Promise<SpoVoteRecord[] | undefined>;
+  /** Resolves to `undefined` when no action with this hash exists. */
+  getCommitteeVotes(hash: string): Promise<CommitteeVoteRecord[] | undefined>;
+  getCommittee(): Promise<Committee>;
+  /** Every registered DRep, largest voting power first */
+  getDReps(): Promise<DRepSummary[]>;
+  /** Resolves to `undefined` when no DRep with this id is registered. */
+  getDRep(id: string): Promise<DRepProfile | undefined>;
+  /** Every vote the DRep has cast; `undefined` when the DRep is unknown. */
+  getDRepVotes(id: string): Promise<DRepVote[] | undefined>;
+  /** Stake delegated to Always Abstain and Always No Confidence */
+  getPredefinedDRepStake(): Promise<PredefinedDRepStake>;
+  /** Resolves to `undefined` when the stake address is not registered. */
+  getAccountDelegation(stakeAddress: string): Promise<AccountDelegation | undefined>;
+  /** One record per recipient of every Treasury Withdrawals action, newest first */
+  getTreasuryWithdrawals(): Promise<TreasuryWithdrawalRecord[]>;
+  /** The Net Change Limit in force, with consumption computed from the treasury withdrawals */
+  getNCLData(): Promise<NCLData>;
+  /** Current ledger parameters in the shape Mesh's transaction builder takes */
+  getProtocolParameters(): Promise<Protocol>;
+  /** Lovelace a governance action proposal must lock as its deposit */
+  getProposalDeposit(): Promise<number>;
+  /** Resolves to `null` when the enacted constitution has no guardrails script */
+  getGuardrailsScript(): Promise<GuardrailsScript | null>;
+  getVotingThresholds(): Promise<VotingThresholds>;
+}
@@ -0,0 +1,46 @@
+import { bech32 } from "bech32";
+import { getActionId } from "@/lib/cip129";
+import type { AccountDelegation, DRepVote, GovernanceAction } from "@/types/governance";
+
+/** Predefined voting options a stake credential can delegate to instead of a DRep */
+export const ALWAYS_ABSTAIN_DREP = "drep_always_abstain";
+export const ALWAYS_NO_CONFIDENCE_DREP = "drep_always_no_confidence";
+
+const STAKE_ADDRESS_PREFIXES = ["stake", "stake_test"];
+// Header byte plus a 28-byte key or script hash
+const STAKE_ADDRESS_BYTES = 29;
+
+/** True for a well-formed bech32 reward address (`stake1…` or `stake_test1…`) */
+export function isStakeAddress(address: string): boolean {
+  const decoded = bech32.decodeUnsafe(address.toLowerCase(), 128);
+  if (!decoded || !STAKE_ADDRESS_PREFIXES.includes(decoded.prefix)) return false;
+  return bech32.fromWordsUnsafe(decoded.words)?.length === STAKE_ADDRESS_BYTES;
+}
+
+/** The DRep's name or ID, or the name of a predefined option */
+export function getDRepLabel(drepId: string, drepName?: string): string {
+  if (drepId === ALWAYS_ABSTAIN_DREP) return "Always abstain";
+  if (drepId === ALWAYS_NO_CONFIDENCE_DREP) return "Always no confidence";
+  return drepName ?? drepId;
+}
+
+/** Label for the delegation target; the DRep's name or ID, or the predefined option */
+export function getDelegationLabel(delegation: AccountDelegation): string {
+  if (delegation.drepId === null) return "Not delegated";
+  return getDRepLabel(delegation.drepId, delegation.drepName);
+}
+
+/**
+ * How the account's delegated voting power counts on an action: the DRep's
+ * own vote, or the fixed vote of a predefined option. Always no confidence
+ * counts as Yes on No confidence actions and as No everywhere else.
+ */
+export function getDelegatedVote(
+  delegation: AccountDelegation,
+  drepVotes: Record<string, DRepVote["vote"]>,
+  action: GovernanceAction
+): DRepVote["vote"] | null {
+  if (delegation.drepId === ALWAYS_ABSTAIN_DREP) return "Abstain";
+  if (delegation.drepId === ALWAYS_NO_CONFIDENCE_DREP) return action.type === "NoConfidence" ? "Yes" : "No";
+  return drepVotes[getActionId(action)] ?? null;
+}
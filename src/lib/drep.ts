@@ -0,0 +1,28 @@
+import { getActionId } from "@/lib/cip129";
+import type { DRepParticipation, DRepProfile, DRepVote, GovernanceAction } from "@/types/governance";
+
+export function getDRepParticipation(
+  drep: Pick<DRepProfile, "registeredEpoch">,
+  votes: Pick<DRepVote, "actionHash">[],
+  actions: GovernanceAction[]
+): DRepParticipation {
+  const votedHashes = new Set(votes.map((vote) => vote.actionHash));
+  const { registeredEpoch } = drep;
+  // Without the registration epoch every action would count, understating the rate
+  if (registeredEpoch === undefined) {
+    return {
+      eligible: null,
+      voted: actions.filter((action) => votedHashes.has(getActionId(action))).length,
+      rate: null,
+    };
+  }
+
+  const eligible = actions.filter((action) => action.expiryEpoch >= registeredEpoch);
+  const voted = eligible.filter((action) => votedHashes.has(getActionId(action))).length;
+
+  return {
+    eligible: eligible.length,
+    voted,
+    rate: eligible.length > 0 ? (voted / eligible.length) * 100 : 0,
+  };
+}
@@ -0,0 +1,208 @@
+import { getCurrentEpoch } from "@/lib/cardanoTime";
+import { getActionId } from "@/lib/cip129";
+import { evaluateRatification, VOTING_BODY_LABELS } from "@/lib/ratification";
+import type { GovernanceDataSource } from "@/lib/dataSource";
+import type {
+  DRepVote,
+  GovernanceActionKind,
+  GovernanceActionStatus,
+  GovernanceEvent,
+  VotingBody,
+} from "@/types/governance";
+
+export const GOVERNANCE_EVENT_LABELS: Record<GovernanceEvent["type"], string> = {
+  "action-submitted": "Action submitted",
+  "status-changed": "Status changed",
+  "threshold-crossed": "Threshold crossed",
+  expiring: "Expiring soon",
+  "drep-voted": "Watched DRep voted",
+};
+
+interface BodyTally {
+  yesPercent: number;
+  threshold: number;
+  passing: boolean;
+}
+
+interface ActionState {
+  title: string;
+  type: GovernanceActionKind;
+  status: GovernanceActionStatus;
+  expiryEpoch: number;
+  /** Required bodies with a known tally, for Active actions only */
+  tallies: Partial<Record<VotingBody, BodyTally>>;
+}
+
+interface DRepState {
+  name?: string;
+  /** The DRep's vote per action hash */
+  votes: Record<string, DRepVote["vote"]>;
+}
+
+/** What the detector compares between polls; plain JSON so it can be kept on disk */
+export interface GovernanceSnapshot {
+  takenAt: string;
+  epoch: number;
+  actions: Record<string, ActionState>;
+  dreps: Record<string, DRepState>;
+}
+
+export interface EventDetectionOptions {
+  /** Active actions with this many epochs or fewer left before expiry raise an `expiring` event */
+  expiryWarningEpochs: number;
+}
+
+/** Reads everything the detector needs from the data source; unknown watched DReps are skipped */
+export async function takeSnapshot(
+  dataSource: GovernanceDataSource,
+  watchedDReps: string[],
+  epoch: number = getCurrentEpoch()
+): Promise<GovernanceSnapshot> {
+  const [actions, thresholds, dreps] = await Promise.all([
+    dataSource.getActions(),
+    dataSource.getVotingThresholds(),
+    Promise.all(
+      watchedDReps.map(async (drepId) => {
+        const [profile, votes] = await Promise.all([dataSource.getDRep(drepId), dataSource.getDRepVotes(drepId)]);
+        return [drepId, profile && votes ? { profile, votes } : undefined] as const;
+      })
+    ),
+  ]);
+
+  const snapshot: GovernanceSnapshot = { takenAt: new Date().toISOString(), epoch, actions: {}, dreps: {} };
+
+  for (const action of actions) {
+    const tallies: ActionState["tallies"] = {};
+    if (action.status === "Active") {
+      const { bodies } = evaluateRatification(action, thresholds);
+      for (const { body, threshold, yesPercent, passing } of Object.values(bodies)) {
+        if (threshold !== null && yesPercent !== null && passing !== null) {
+          tallies[body] = { yesPercent, threshold, passing };
+        }
+      }
+    }
+    snapshot.actions[getActionId(action)] = {
+      title: action.title,
+      type: action.type,
+      status: action.status,
+      expiryEpoch: action.expiryEpoch,
+      tallies,
+    };
+  }
+
+  for (const [drepId, drep] of dreps) {
+    if (!drep) continue;
+    snapshot.dreps[drepId] = {
+      name: drep.profile.name,
+      votes: Object.fromEntries(drep.votes.map((vote) => [vote.actionHash, vote.vote])),
+    };
+  }
+
+  return snapshot;
+}
+
+const isExpiring = (state: ActionState, epoch: number, options: EventDetectionOptions) =>
+  state.status === "Active" && state.expiryEpoch - epoch <= options.expiryWarningEpochs;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Events for everything that changed from `previous` to `current`, in the
+ * order they are listed in the snapshot. An action seen for the first time
+ * only raises `action-submitted` (and `expiring` when it is already close).
+ */
+export function detectEvents(
+  previous: GovernanceSnapshot,
+  current: GovernanceSnapshot,
+  options: EventDetectionOptions
+): GovernanceEvent[] {
+  const events: GovernanceEvent[] = [];
+  const detectedAt = current.takenAt;
+  // The detection time keeps IDs unique when the same change happens again, e.g. a threshold crossed twice
+  const eventId = (...parts: string[]) => [Date.parse(detectedAt).toString(36), ...parts].join(":");
+
+  for (const [hash, state] of Object.entries(current.actions)) {
+    const before = previous.actions[hash];
+    const base = { detectedAt, actionHash: hash, actionTitle: state.title, actionType: state.type };
+
+    if (!before) {
+      events.push({
+        ...base,
+        id: eventId("action-submitted", hash),
+        type: "action-submitted",
+        expiryEpoch: state.expiryEpoch,
+        summary: `New governance action: ${state.title}`,
+      });
+    } else if (before.status !== state.status) {
+      events.push({
+        ...base,
+        id: eventId("status-changed", hash, state.status),
+        type: "status-changed",
+        previousStatus: before.status,
+        status: state.status,
+        summary: `${state.title} changed from ${before.status} to ${state.status}`,
+      });
+    }
+
+    for (const [body, tally] of Object.entries(state.tallies) as [VotingBody, BodyTally][]) {
+      const earlier = before?.tallies[body];
+      if (!earlier || earlier.passing === tally.passing) continue;
+      events.push({
+        ...base,
+        id: eventId("threshold-crossed", hash, body),
+        type: "threshold-crossed",
+        body,
+        passing: tally.passing,
+        yesPercent: tally.yesPercent,
+        threshold: tally.threshold,
+        summary:
+          `${VOTING_BODY_LABELS[body]} Yes on ${state.title} ${tally.passing ? "reached" : "fell below"} ` +
+          `the ${tally.threshold.toFixed(0)}% threshold (${tally.yesPercent.toFixed(1)}%)`,
+      });
+    }
+
+    if (isExpiring(state, current.epoch, options) && !(before && isExpiring(before, previous.epoch, options))) {
+      const epochsLeft = Math.max(0, state.expiryEpoch - current.epoch);
+      events.push({
+        ...base,
+        id: eventId("expiring", hash),
+        type: "expiring",
+        expiryEpoch: state.expiryEpoch,
+        epochsLeft,
+        summary:
+          epochsLeft === 0
+            ? `${state.title} expires at the end of this epoch`
+            : `${state.title} expires in ${plural(epochsLeft, "epoch")}`,
+      });
+    }
+  }
+
+  for (const [drepId, drep] of Object.entries(current.dreps)) {
+    // A DRep that just started being watched has no earlier votes to compare with
+    const before = previous.dreps[drepId];
+    if (!before) continue;
+
+    for (const [hash, vote] of Object.entries(drep.votes)) {
+      const action = current.actions[hash];
+      if (before.votes[hash] === vote || !action) continue;
+      const actionTitle = action.title;
+      const drepName = drep.name ?? drepId;
+      events.push({
+        id: eventId("drep-voted", hash, drepId, vote),
+        type: "drep-voted",
+        detectedAt,
+        actionHash: hash,
+        actionTitle,
+        actionType: action.type,
+        drepId,
+        drepName: drep.name,
+        vote,
+        summary: before.votes[hash]
+          ? `${drepName} changed their vote on ${actionTitle} from ${before.votes[hash]} to ${vote}`
+          : `${drepName} voted ${vote} on ${actionTitle}`,
+      });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,175 @@
+import type { NextApiResponse } from "next";
+import { encodeGovActionId } from "@/lib/cip129";
+import { dateToEpoch } from "@/lib/cardanoTime";
+import type {
+  CommitteeVoteRecord,
+  ExportFormat,
+  GovernanceAction,
+  SpoVoteRecord,
+  VoteRecord,
+} from "@/types/governance";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json"];
+
+/** Rows serialized between checks for backpressure */
+const BATCH_SIZE = 500;
+const LOVELACE_PER_ADA = 1_000_000;
+
+type ExportValue = string | number | undefined;
+
+/** One exported field; `header` is the CSV column and the JSON key */
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+function adaToLovelace(ada: number): string {
+  return BigInt(Math.round(ada * LOVELACE_PER_ADA)).toString();
+}
+
+function getGovActionId(action: GovernanceAction): string | undefined {
+  try {
+    return encodeGovActionId({ txHash: action.hash, index: action.index ?? 0 });
+  } catch {
+    return undefined;
+  }
+}
+
+export const ACTION_EXPORT_COLUMNS: ExportColumn<GovernanceAction>[] = [
+  { header: "gov_action_id", value: getGovActionId },
+  { header: "tx_hash", value: (a) => a.hash },
+  { header: "index", value: (a) => a.index },
+  { header: "type", value: (a) => a.type },
+  { header: "title", value: (a) => a.title },
+  { header: "status", value: (a) => a.status },
+  { header: "submission_epoch", value: (a) => a.submissionEpoch },
+  { header: "expiry_epoch", value: (a) => a.expiryEpoch },
+  { header: "drep_yes_percent", value: (a) => a.drepYesPercent },
+  { header: "drep_no_percent", value: (a) => a.drepNoPercent },
+  { header: "drep_yes_lovelace", value: (a) => a.drepYesLovelace },
+  { header: "drep_no_lovelace", value: (a) => a.drepNoLovelace },
+  { header: "spo_yes_percent", value: (a) => a.spoYesPercent },
+  { header: "spo_no_percent", value: (a) => a.spoNoPercent },
+  { header: "cc_yes_percent", value: (a) => a.ccYesPercent },
+  { header: "cc_no_percent", value: (a) => a.ccNoPercent },
+  { header: "total_yes", value: (a) => a.totalYes },
+  { header: "total_no", value: (a) => a.totalNo },
+  { header: "total_abstain", value: (a) => a.totalAbstain },
+  { header: "anchor_url", value: (a) => a.anchorUrl },
+  { header: "anchor_hash", value: (a) => a.anchorHash },
+];
+
+/** Columns naming the action the votes were cast on, ahead of the voter's own */
+function actionColumns<T>(action: GovernanceAction): ExportColumn<T>[] {
+  const actionId = getGovActionId(action);
+  return [
+    { header: "action_id", value: () => actionId },
+    { header: "action_tx_hash", value: () => action.hash },
+    { header: "action_index", value: () => action.index ?? 0 },
+  ];
+}
+
+/** Columns shared by every kind of vote, after the voter's own */
+function voteColumns<T extends VoteRecord | SpoVoteRecord | CommitteeVoteRecord>(): ExportColumn<T>[] {
+  return [
+    { header: "anchor_url", value: (v) => v.anchorUrl },
+    { header: "anchor_hash", value: (v) => v.anchorHash },
+    { header: "voted_at", value: (v) => v.votedAt },
+    { header: "voted_epoch", value: (v) => dateToEpoch(new Date(v.votedAt)) },
+  ];
+}
+
+export const drepVoteExportColumns = (action: GovernanceAction): ExportColumn<VoteRecord>[] => [
+  ...actionColumns<VoteRecord>(action),
+  { header: "drep_id", value: (v) => v.drepId },
+  { header: "drep_name", value: (v) => v.drepName },
+  { header: "vote", value: (v) => v.vote },
+  { header: "voting_power_lovelace", value: (v) => adaToLovelace(v.votingPowerAda) },
+  ...voteColumns<VoteRecord>(),
+];
+
+export const spoVoteExportColumns = (action: GovernanceAction): ExportColumn<SpoVoteRecord>[] => [
+  ...actionColumns<SpoVoteRecord>(action),
+  { header: "pool_id", value: (v) => v.poolId },
+  { header: "pool_name", value: (v) => v.poolName },
+  { header: "ticker", value: (v) => v.ticker },
+  { header: "vote", value: (v) => v.vote },
+  { header: "active_stake_lovelace", value: (v) => adaToLovelace(v.activeStakeAda) },
+  { header: "pledge_lovelace", value: (v) => adaToLovelace(v.pledgeAda) },
+  ...voteColumns<SpoVoteRecord>(),
+];
+
+export const committeeVoteExportColumns = (action: GovernanceAction): ExportColumn<CommitteeVoteRecord>[] => [
+  ...actionColumns<CommitteeVoteRecord>(action),
+  { header: "cold_credential", value: (v) => v.coldCredential },
+  { header: "hot_credential", value: (v) => v.hotCredential },
+  { header: "member_name", value: (v) => v.memberName },
+  { header: "vote", value: (v) => v.vote },
+  ...voteColumns<CommitteeVoteRecord>(),
+];
+
+function toCsvField(value: ExportValue): string {
+  if (value === undefined) return "";
+  let text = String(value);
+  // Keep spreadsheets from evaluating text cells as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine<T>(row: T, columns: ExportColumn<T>[]): string {
+  return columns.map((column) => toCsvField(column.value(row))).join(",") + "\r\n";
+}
+
+function toJsonRecord<T>(row: T, columns: ExportColumn<T>[]): string {
+  return JSON.stringify(Object.fromEntries(columns.map((column) => [column.header, column.value(row) ?? null])));
+}
+
+/** Resolves to false once the client has gone, since a closed socket never drains */
+function write(res: NextApiResponse, chunk: string): Promise<boolean> {
+  if (res.destroyed) return Promise.resolve(false);
+  if (res.write(chunk)) return Promise.resolve(true);
+
+  return new Promise((resolve, reject) => {
+    const settle = (result: () => void) => {
+      res.off("drain", onDrain).off("close", onClose).off("error", onError);
+      result();
+    };
+    const onDrain = () => settle(() => resolve(true));
+    const onClose = () => settle(() => resolve(false));
+    const onError = (error: Error) => settle(() => reject(error));
+    res.on("drain", onDrain).on("close", onClose).on("error", onError);
+  });
+}
+
+/**
+ * Writes rows as a CSV or JSON array download, in batches that wait for the
+ * socket to drain so large exports aren't buffered in memory. Stops quietly
+ * if the client disconnects. Headers are sent before the first batch; on a
+ * later failure the caller can only end the response.
+ */
+export async function streamExport<T>(
+  res: NextApiResponse,
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  filename: string
+): Promise<void> {
+  res.status(200);
+  res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+
+  const head = format === "csv" ? columns.map((column) => toCsvField(column.header)).join(",") + "\r\n" : "[";
+  if (!(await write(res, head))) return;
+
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const batch = rows.slice(start, start + BATCH_SIZE);
+    const chunk =
+      format === "csv"
+        ? batch.map((row) => toCsvLine(row, columns)).join("")
+        : (start > 0 ? "," : "") + batch.map((row) => toJsonRecord(row, columns)).join(",");
+    if (!(await write(res, chunk))) return;
+  }
+
+  if (format === "json" && !(await write(res, "]\n"))) return;
+  res.end();
+}
@@ -0,0 +1,50 @@
+import { GOVERNANCE_EVENT_LABELS } from "@/lib/events";
+import type { GovernanceEvent } from "@/types/governance";
+
+interface AtomFeedOptions {
+  /** Absolute URL of the feed itself */
+  feedUrl: string;
+  /** Absolute origin the action links point to */
+  siteUrl: string;
+  title?: string;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => `&${{ "<": "lt", ">": "gt", "&": "amp", '"': "quot", "'": "apos" }[char]};`);
+
+/** Atom 1.0 document with one entry per event, in the order given */
+export function renderAtomFeed(
+  events: GovernanceEvent[],
+  { feedUrl, siteUrl, title = "Cardano Governance" }: AtomFeedOptions
+) {
+  // An empty feed still needs an <updated>; the epoch start keeps it stable between requests
+  const updated = events[0]?.detectedAt ?? new Date(0).toISOString();
+
+  const entries = events.map((event) => {
+    const link = `${siteUrl}/governance/${event.actionHash}`;
+    return [
+      "  <entry>",
+      `    <id>urn:cgov:event:${escapeXml(event.id)}</id>`,
+      `    <title>${escapeXml(event.summary)}</title>`,
+      `    <updated>${event.detectedAt}</updated>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>`,
+      `    <category term="${event.type}" label="${escapeXml(GOVERNANCE_EVENT_LABELS[event.type])}"/>`,
+      `    <content type="text">${escapeXml(`${event.summary}. ${link}`)}</content>`,
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <updated>${updated}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}"/>`,
+    "  <author><name>cgov</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from "react";
+import Router, { useRouter } from "next/router";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { applyFilters } from "@/store/governanceSlice";
+import { getScopeQueryString, toQueryString, type FilterQueryScope } from "@/lib/filters";
+
+/**
+ * Keeps a scope's filters and the query string in step: the URL is read on
+ * load and on back/forward navigation, and filter changes replace the
+ * current history entry so a copied link reproduces the view.
+ */
+export function useFilterQuerySync(scope: FilterQueryScope): void {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const filters = useAppSelector((state) => state.governance.filters);
+  const [restored, setRestored] = useState(false);
+
+  const urlState = router.isReady ? getScopeQueryString(router.query, scope) : null;
+  const filterState = toQueryString(scope.serialize(filters));
+  const filterStateRef = useRef(filterState);
+  filterStateRef.current = filterState;
+
+  // URL → store
+  useEffect(() => {
+    if (urlState === null) return;
+    if (urlState !== filterStateRef.current) dispatch(applyFilters(scope.parse(router.query)));
+    setRestored(true);
+  }, [urlState, router.query, scope, dispatch]);
+
+  // Store → URL; reads the router singleton so a URL change alone doesn't re-run this
+  useEffect(() => {
+    if (!restored || filterState === getScopeQueryString(Router.query, scope)) return;
+
+    const otherParams = Object.entries(Router.query).filter(([param]) => !scope.params.includes(param));
+    Router.replace(
+      { pathname: Router.pathname, query: { ...Object.fromEntries(otherParams), ...scope.serialize(filters) } },
+      undefined,
+      { shallow: true, scroll: false }
+    );
+  }, [restored, filterState, filters, scope]);
+}
@@ -0,0 +1,171 @@
+import type { ParsedUrlQuery } from "querystring";
+import { GOVERNANCE_ACTION_KINDS } from "@/lib/actionTypes";
+import type {
+  ActionSortKey,
+  GovernanceAction,
+  GovernanceActionStatus,
+  GovernanceActionType,
+  GovernanceFilters,
+  SortDirection,
+  VoteSortKey,
+  VoteType,
+  VotingBody,
+} from "@/types/governance";
+
+export const DEFAULT_FILTERS: GovernanceFilters = {
+  type: "All",
+  statuses: [],
+  epochFrom: null,
+  epochTo: null,
+  sortBy: "submission",
+  sortDirection: "desc",
+  searchQuery: "",
+  voterRole: "drep",
+  voterSearch: "",
+  voteFilter: "All",
+  voteSortBy: "power",
+  voteSortDirection: "desc",
+};
+
+export const ACTION_STATUSES: GovernanceActionStatus[] = ["Active", "Ratified", "Approved", "Expired", "Not approved"];
+
+export const ACTION_SORT_LABELS: Record<ActionSortKey, string> = {
+  submission: "Submission epoch",
+  expiry: "Expiry epoch",
+  yesPercent: "DRep Yes %",
+  stake: "DRep stake voted",
+};
+
+const VOTING_BODIES: VotingBody[] = ["drep", "spo", "committee"];
+const VOTE_TYPES: VoteType[] = ["Yes", "No", "Abstain"];
+
+/** A group of filters that one page mirrors into its query string */
+export interface FilterQueryScope {
+  /** Query string parameters owned by the scope, in serialization order */
+  params: string[];
+  /** Reads the scope's filters, falling back to defaults for missing or invalid values */
+  parse(query: ParsedUrlQuery): Partial<GovernanceFilters>;
+  /** Query string values for the filters that differ from their defaults */
+  serialize(filters: GovernanceFilters): Record<string, string>;
+}
+
+function getParam(query: ParsedUrlQuery, name: string): string | undefined {
+  const value = query[name];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function parseEpoch(value: string | undefined): number | null {
+  if (value === undefined || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+function parseOption<T extends string>(value: string | undefined, options: readonly T[], fallback: T): T {
+  const option = options.find((o) => o.toLowerCase() === value?.toLowerCase());
+  return option ?? fallback;
+}
+
+/** Dashboard list: `type`, `status` (comma-separated), `from`/`to` epochs, `sort` and `dir` */
+export const ACTION_LIST_FILTERS: FilterQueryScope = {
+  params: ["type", "status", "from", "to", "sort", "dir"],
+
+  parse(query) {
+    const statuses = (getParam(query, "status") ?? "")
+      .split(",")
+      .flatMap((value) => ACTION_STATUSES.filter((status) => status.toLowerCase() === value.trim().toLowerCase()));
+
+    return {
+      type: parseOption<GovernanceActionType>(getParam(query, "type"), GOVERNANCE_ACTION_KINDS, "All"),
+      statuses: [...new Set(statuses)],
+      epochFrom: parseEpoch(getParam(query, "from")),
+      epochTo: parseEpoch(getParam(query, "to")),
+      sortBy: parseOption<ActionSortKey>(
+        getParam(query, "sort"),
+        Object.keys(ACTION_SORT_LABELS) as ActionSortKey[],
+        DEFAULT_FILTERS.sortBy
+      ),
+      sortDirection: parseOption<SortDirection>(getParam(query, "dir"), ["asc", "desc"], DEFAULT_FILTERS.sortDirection),
+    };
+  },
+
+  serialize(filters) {
+    const query: Record<string, string> = {};
+    if (filters.type !== DEFAULT_FILTERS.type) query.type = filters.type;
+    if (filters.statuses.length > 0) query.status = filters.statuses.join(",");
+    if (filters.epochFrom !== null) query.from = String(filters.epochFrom);
+    if (filters.epochTo !== null) query.to = String(filters.epochTo);
+    if (filters.sortBy !== DEFAULT_FILTERS.sortBy) query.sort = filters.sortBy;
+    if (filters.sortDirection !== DEFAULT_FILTERS.sortDirection) query.dir = filters.sortDirection;
+    return query;
+  },
+};
+
+/** Voting records on the detail page: `role`, `vote`, `voter` (search text), `sort` and `dir` */
+export const VOTING_RECORD_FILTERS: FilterQueryScope = {
+  params: ["role", "vote", "voter", "sort", "dir"],
+
+  parse(query) {
+    return {
+      voterRole: parseOption(getParam(query, "role"), VOTING_BODIES, DEFAULT_FILTERS.voterRole),
+      voteFilter: parseOption<VoteType>(getParam(query, "vote"), VOTE_TYPES, "All"),
+      voterSearch: getParam(query, "voter") ?? "",
+      voteSortBy: parseOption<VoteSortKey>(getParam(query, "sort"), ["power", "time"], DEFAULT_FILTERS.voteSortBy),
+      voteSortDirection: parseOption<SortDirection>(
+        getParam(query, "dir"),
+        ["asc", "desc"],
+        DEFAULT_FILTERS.voteSortDirection
+      ),
+    };
+  },
+
+  serialize(filters) {
+    const query: Record<string, string> = {};
+    if (filters.voterRole !== DEFAULT_FILTERS.voterRole) query.role = filters.voterRole;
+    if (filters.voteFilter !== DEFAULT_FILTERS.voteFilter) query.vote = filters.voteFilter.toLowerCase();
+    if (filters.voterSearch !== "") query.voter = filters.voterSearch;
+    if (filters.voteSortBy !== DEFAULT_FILTERS.voteSortBy) query.sort = filters.voteSortBy;
+    if (filters.voteSortDirection !== DEFAULT_FILTERS.voteSortDirection) query.dir = filters.voteSortDirection;
+    return query;
+  },
+};
+
+export function toQueryString(values: Record<string, string>): string {
+  return new URLSearchParams(values).toString();
+}
+
+/** The scope's parameters as they currently appear in the query string */
+export function getScopeQueryString(query: ParsedUrlQuery, scope: FilterQueryScope): string {
+  const values: Record<string, string> = {};
+  for (const param of scope.params) {
+    const value = getParam(query, param);
+    if (value !== undefined) values[param] = value;
+  }
+  return toQueryString(values);
+}
+
+function getStakeVoted(action: GovernanceAction): number {
+  return (parseFloat(action.drepYesAda) || 0) + (parseFloat(action.drepNoAda) || 0);
+}
+
+const SORT_VALUES: Record<ActionSortKey, (action: GovernanceAction) => number> = {
+  submission: (action) => action.submissionEpoch,
+  expiry: (action) => action.expiryEpoch,
+  yesPercent: (action) => action.drepYesPercent,
+  stake: getStakeVoted,
+};
+
+/** Applies the list filters and sort order to the actions */
+export function filterActions(actions: GovernanceAction[], filters: GovernanceFilters): GovernanceAction[] {
+  const { type, statuses, epochFrom, epochTo, sortBy, sortDirection } = filters;
+  const sortValue = SORT_VALUES[sortBy];
+  const direction = sortDirection === "asc" ? 1 : -1;
+
+  return actions
+    .filter(
+      (action) =>
+        (type === "All" || action.type === type) &&
+        (statuses.length === 0 || statuses.includes(action.status)) &&
+        (epochFrom === null || action.submissionEpoch >= epochFrom) &&
+        (epochTo === null || action.submissionEpoch <= epochTo)
+    )
+    .sort((a, b) => (sortValue(a) - sortValue(b)) * direction);
+}
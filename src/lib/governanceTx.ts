@@ -0,0 +1,260 @@
+import {
+  MeshTxBuilder,
+  applyCborEncoding,
+  mConStr0,
+  resolveScriptHash,
+  type DRep,
+  type GovernanceAction as MeshGovernanceAction,
+  type Protocol,
+  type UTxO,
+} from "@meshsdk/core";
+import type { GuardrailsScript, VoteRecord } from "@/types/governance";
+import type { GovActionId } from "@/lib/cip129";
+import { ALWAYS_ABSTAIN_DREP, ALWAYS_NO_CONFIDENCE_DREP, isStakeAddress } from "@/lib/delegation";
+
+export class GovernanceTxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GovernanceTxError";
+  }
+}
+
+/** Everything needed to build a DRep vote; no network access is involved */
+export interface VoteTxParams {
+  /** Bech32 DRep ID of the voter (CIP-105 or CIP-129) */
+  drepId: string;
+  action: GovActionId;
+  vote: VoteRecord["vote"];
+  /** Optional rationale document (CIP-100) and its blake2b-256 hash */
+  anchor?: { url: string; dataHash: string };
+  /** Wallet UTxOs to pay the fee from */
+  utxos: UTxO[];
+  changeAddress: string;
+  protocolParameters: Protocol;
+}
+
+/** Everything needed to delegate a stake address's voting power */
+export interface VoteDelegationTxParams {
+  stakeAddress: string;
+  /** Bech32 DRep ID, or one of the predefined `drep_always_*` options */
+  drepId: string;
+  /** Registers the stake address (paying the key deposit) before delegating */
+  registerStake: boolean;
+  utxos: UTxO[];
+  changeAddress: string;
+  protocolParameters: Protocol;
+}
+
+/** Everything needed to submit a governance action proposal */
+export interface ProposalTxParams {
+  governanceAction: MeshGovernanceAction;
+  /** The proposal's CIP-108 metadata document and its blake2b-256 hash */
+  anchor: { url: string; dataHash: string };
+  /** Registered stake address the deposit is returned to */
+  returnAddress: string;
+  depositLovelace: string;
+  /**
+   * The constitution's guardrails script. Parameter changes and treasury
+   * withdrawals take its hash as their policy and run it, so it is required
+   * for those whenever the constitution has one.
+   */
+  guardrails: GuardrailsScript | null;
+  utxos: UTxO[];
+  changeAddress: string;
+  protocolParameters: Protocol;
+}
+
+export interface TxPreview {
+  /** CBOR hex of the unsigned transaction */
+  unsignedTx: string;
+  feeLovelace: string;
+  inputCount: number;
+  sizeBytes: number;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/i;
+// Action kinds the ledger checks against the constitution's guardrails script
+const GUARDRAILED_ACTIONS: MeshGovernanceAction["kind"][] = ["ParameterChangeAction", "TreasuryWithdrawalsAction"];
+// Collateral must hold only ada; 5 ada covers the collateral percentage of any fee a proposal can reach
+const MIN_COLLATERAL_LOVELACE = 5_000_000;
+// CIP-100 caps anchor URLs at 128 bytes
+const MAX_ANCHOR_URL_BYTES = 128;
+
+function validateInputs(utxos: UTxO[]): void {
+  if (utxos.length === 0) throw new GovernanceTxError("The wallet has no UTxOs to pay the fee with");
+}
+
+function validateAnchor(anchor: { url: string; dataHash: string }): void {
+  if (!/^(https|ipfs):\/\//.test(anchor.url))
+    throw new GovernanceTxError("Anchor URL must start with https:// or ipfs://");
+  if (new TextEncoder().encode(anchor.url).length > MAX_ANCHOR_URL_BYTES) {
+    throw new GovernanceTxError(`Anchor URL must be at most ${MAX_ANCHOR_URL_BYTES} bytes`);
+  }
+  if (!HASH_PATTERN.test(anchor.dataHash)) throw new GovernanceTxError("Anchor hash must be a 64-character hex digest");
+}
+
+function validate({ action, anchor, utxos }: VoteTxParams): void {
+  if (!HASH_PATTERN.test(action.txHash)) throw new GovernanceTxError("Invalid governance action transaction hash");
+  if (!Number.isInteger(action.index) || action.index < 0)
+    throw new GovernanceTxError("Invalid governance action index");
+  if (anchor) validateAnchor(anchor);
+  validateInputs(utxos);
+}
+
+async function complete(builder: MeshTxBuilder, description: string): Promise<TxPreview> {
+  let unsignedTx: string;
+  try {
+    unsignedTx = await builder.complete();
+  } catch (error) {
+    throw new GovernanceTxError(
+      `Could not build the ${description} transaction: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const body = builder.meshTxBuilderBody;
+  return {
+    unsignedTx,
+    feeLovelace: body.fee,
+    inputCount: body.inputs.length,
+    sizeBytes: unsignedTx.length / 2,
+  };
+}
+
+// Sources differ in how many CBOR layers wrap the script; attach the form that hashes to the policy
+function toWitnessCbor(guardrails: GuardrailsScript): string {
+  for (const cbor of [guardrails.cbor, applyCborEncoding(guardrails.cbor)]) {
+    if (resolveScriptHash(cbor, guardrails.version) === guardrails.scriptHash.toLowerCase()) return cbor;
+  }
+  throw new GovernanceTxError("The guardrails script does not match the constitution's script hash");
+}
+
+function findCollateral(utxos: UTxO[]): UTxO {
+  const collateral = utxos.find(
+    ({ output }) =>
+      output.amount.length === 1 &&
+      output.amount[0].unit === "lovelace" &&
+      Number(output.amount[0].quantity) >= MIN_COLLATERAL_LOVELACE
+  );
+  if (!collateral) {
+    const minAda = MIN_COLLATERAL_LOVELACE / 1_000_000;
+    throw new GovernanceTxError(
+      `The guardrails script needs a UTxO holding only ada (at least ${minAda} ada) as collateral`
+    );
+  }
+  return collateral;
+}
+
+function withPolicyHash(governanceAction: MeshGovernanceAction, scriptHash: string): MeshGovernanceAction {
+  const policyHash = { bytes: scriptHash.toLowerCase() };
+  switch (governanceAction.kind) {
+    case "ParameterChangeAction":
+      return { kind: governanceAction.kind, action: { ...governanceAction.action, policyHash } };
+    case "TreasuryWithdrawalsAction":
+      return { kind: governanceAction.kind, action: { ...governanceAction.action, policyHash } };
+    default:
+      return governanceAction;
+  }
+}
+
+function toMeshDRep(drepId: string): DRep {
+  if (drepId === ALWAYS_ABSTAIN_DREP) return { alwaysAbstain: null };
+  if (drepId === ALWAYS_NO_CONFIDENCE_DREP) return { alwaysNoConfidence: null };
+  return { dRepId: drepId };
+}
+
+/**
+ * Builds an unsigned transaction casting a DRep vote, balanced against the
+ * given UTxOs with change back to `changeAddress`. The DRep key witness is
+ * added when the wallet signs.
+ */
+export async function buildVoteTx(params: VoteTxParams): Promise<TxPreview> {
+  validate(params);
+  const { drepId, action, vote, anchor, utxos, changeAddress, protocolParameters } = params;
+
+  const builder = new MeshTxBuilder({ params: protocolParameters });
+  builder
+    .vote(
+      { type: "DRep", drepId },
+      { txHash: action.txHash, txIndex: action.index },
+      { voteKind: vote, anchor: anchor && { anchorUrl: anchor.url, anchorDataHash: anchor.dataHash } }
+    )
+    .selectUtxosFrom(utxos)
+    .changeAddress(changeAddress);
+
+  return complete(builder, "vote");
+}
+
+/**
+ * Builds an unsigned transaction delegating the stake address's voting power
+ * to a DRep or predefined option, registering the address first when needed.
+ * The stake key witness is added when the wallet signs.
+ */
+export async function buildVoteDelegationTx(
+  params: VoteDelegationTxParams
+): Promise<TxPreview & { depositLovelace: string }> {
+  const { stakeAddress, drepId, registerStake, utxos, changeAddress, protocolParameters } = params;
+  if (!isStakeAddress(stakeAddress)) throw new GovernanceTxError("Invalid stake address");
+  validateInputs(utxos);
+
+  const builder = new MeshTxBuilder({ params: protocolParameters });
+  if (registerStake) builder.registerStakeCertificate(stakeAddress);
+  builder
+    .voteDelegationCertificate(toMeshDRep(drepId), stakeAddress)
+    .selectUtxosFrom(utxos)
+    .changeAddress(changeAddress);
+
+  const preview = await complete(builder, "delegation");
+  return { ...preview, depositLovelace: registerStake ? String(protocolParameters.keyDeposit) : "0" };
+}
+
+/**
+ * Builds an unsigned transaction proposing a governance action. The deposit
+ * is taken from the given UTxOs and returned to `returnAddress` once the
+ * action is enacted, expires or is dropped. Parameter changes and treasury
+ * withdrawals carry the guardrails script as a proposing witness, backed by
+ * an ada-only collateral UTxO from the wallet.
+ */
+export async function buildProposalTx(params: ProposalTxParams): Promise<TxPreview> {
+  const {
+    governanceAction,
+    anchor,
+    returnAddress,
+    depositLovelace,
+    guardrails,
+    utxos,
+    changeAddress,
+    protocolParameters,
+  } = params;
+  validateAnchor(anchor);
+  if (!isStakeAddress(returnAddress)) throw new GovernanceTxError("The deposit return address must be a stake address");
+  if (!/^\d+$/.test(depositLovelace)) throw new GovernanceTxError("Invalid proposal deposit");
+  validateInputs(utxos);
+
+  const guardrailed = guardrails && GUARDRAILED_ACTIONS.includes(governanceAction.kind) ? guardrails : null;
+  const builder = new MeshTxBuilder({ params: protocolParameters });
+  builder.proposal(
+    guardrailed ? withPolicyHash(governanceAction, guardrailed.scriptHash) : governanceAction,
+    { anchorUrl: anchor.url, anchorDataHash: anchor.dataHash },
+    returnAddress,
+    depositLovelace
+  );
+  if (guardrailed) {
+    const collateral = findCollateral(utxos);
+    // Without an evaluator the budget can't be measured, so the script gets the transaction's whole budget
+    builder
+      .proposalScript(toWitnessCbor(guardrailed), guardrailed.version)
+      .proposalRedeemerValue(mConStr0([]), "Mesh", {
+        mem: Number(protocolParameters.maxTxExMem),
+        steps: Number(protocolParameters.maxTxExSteps),
+      })
+      .txInCollateral(
+        collateral.input.txHash,
+        collateral.input.outputIndex,
+        collateral.output.amount,
+        collateral.output.address
+      );
+  }
+  builder.selectUtxosFrom(utxos).changeAddress(changeAddress);
+
+  return complete(builder, "proposal");
+}
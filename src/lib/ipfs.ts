@@ -0,0 +1,364 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { serverEnv } from "@/config/env";
+import {
+  blockMatchesCid,
+  CODEC_DAG_JSON,
+  CODEC_DAG_PB,
+  CODEC_JSON,
+  CODEC_RAW,
+  decodeDagPb,
+  decodeUnixFs,
+  formatCid,
+  parseCid,
+  UNIXFS_DIRECTORY,
+  UNIXFS_FILE,
+  UNIXFS_RAW,
+  type Cid,
+} from "@/lib/cid";
+
+export interface IpfsGateway {
+  /** Gateway origin; content is requested from `${url}/ipfs/<cid>` */
+  url: string;
+  timeoutMs: number;
+}
+
+interface IpfsClientOptions {
+  /** Tried in order; gateways with an open circuit are skipped */
+  gateways: IpfsGateway[];
+  /** Directory for the content cache; caching is disabled when omitted */
+  cacheDir?: string;
+  /** Total size of the content cache; least recently used files are removed beyond it */
+  maxCacheBytes?: number;
+  /** Consecutive failures after which a gateway is skipped */
+  failureThreshold?: number;
+  /** How long a failing gateway is skipped before it is tried again */
+  cooldownMs?: number;
+  /** Upper bound on the blocks downloaded for one file */
+  maxBytes?: number;
+  fetch?: typeof fetch;
+}
+
+export interface IpfsClient {
+  /** Fetches the content behind an ipfs:// URL, from the cache when possible */
+  fetch(ipfsUrl: string): Promise<Uint8Array>;
+}
+
+export type IpfsErrorReason = "invalid-cid" | "unavailable" | "too-large";
+
+export class IpfsError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: IpfsErrorReason
+  ) {
+    super(message);
+    this.name = "IpfsError";
+  }
+}
+
+interface IpfsPath {
+  cid: Cid;
+  /** Path segments inside the CID's DAG; empty for the root */
+  segments: string[];
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+interface CacheEntry {
+  size: number;
+  usedAt: number;
+}
+
+/** Splits ipfs://<cid>/<path> (or ipfs://ipfs/<cid>/...) into a validated CID and path */
+export function parseIpfsUrl(ipfsUrl: string): IpfsPath {
+  if (!ipfsUrl.startsWith("ipfs://")) {
+    throw new IpfsError(`Not an ipfs:// URL: ${ipfsUrl}`, "invalid-cid");
+  }
+  const [cid = "", ...segments] = ipfsUrl
+    .slice("ipfs://".length)
+    .replace(/^ipfs\//, "")
+    .split(/[?#]/)[0]
+    .split("/");
+
+  let parsed: Cid;
+  try {
+    parsed = parseCid(cid);
+  } catch (error) {
+    throw new IpfsError(`Invalid IPFS CID "${cid}": ${(error as Error).message}`, "invalid-cid");
+  }
+
+  if (segments.some((segment) => segment === "..")) {
+    throw new IpfsError(`Invalid IPFS path in ${ipfsUrl}`, "invalid-cid");
+  }
+  return { cid: parsed, segments: segments.filter(Boolean) };
+}
+
+const describe = ({ cid, segments }: IpfsPath) => [formatCid(cid), ...segments].join("/");
+
+// Gateways that are down, rate limiting, slow or serving the wrong bytes should be skipped; missing content should not
+class GatewayFailure extends Error {}
+
+/**
+ * IPFS fetcher that tries gateways in order, skips gateways that keep failing
+ * and keeps everything it downloads on disk keyed by CID. Content is fetched
+ * block by block and each block is checked against its CID, so a gateway
+ * can't serve anything else. IPFS content never changes, so cached entries
+ * are never revalidated, only evicted once the cache outgrows its limit.
+ */
+export function createIpfsClient({
+  gateways,
+  cacheDir,
+  maxCacheBytes = 100 * 1024 * 1024,
+  failureThreshold = 3,
+  cooldownMs = 60_000,
+  maxBytes = 1024 * 1024,
+  fetch: fetchImpl = fetch,
+}: IpfsClientOptions): IpfsClient {
+  if (gateways.length === 0) {
+    throw new Error("At least one IPFS gateway is required");
+  }
+
+  const circuits = new Map<string, CircuitState>(gateways.map((g) => [g.url, { failures: 0, openUntil: 0 }]));
+  const inFlight = new Map<string, Promise<Uint8Array>>();
+  let cacheIndex: Promise<Map<string, CacheEntry>> | undefined;
+
+  // Keyed by the CID's v1 form, so v0 and v1 references to the same content share a file
+  const cacheFileName = ({ cid, segments }: IpfsPath) =>
+    segments.length > 0
+      ? `${formatCid(cid)}-${createHash("sha256").update(segments.join("/")).digest("hex").slice(0, 16)}`
+      : formatCid(cid);
+
+  // Size and last use of every cached file, read from disk once and kept up to date after that
+  const loadCacheIndex = () => {
+    cacheIndex ??= (async () => {
+      await mkdir(cacheDir!, { recursive: true });
+      const index = new Map<string, CacheEntry>();
+      for (const name of await readdir(cacheDir!)) {
+        if (name.endsWith(".tmp")) continue;
+        const stats = await stat(path.join(cacheDir!, name)).catch(() => undefined);
+        if (stats?.isFile()) index.set(name, { size: stats.size, usedAt: stats.mtimeMs });
+      }
+      return index;
+    })().catch((error) => {
+      cacheIndex = undefined;
+      throw error;
+    });
+    return cacheIndex;
+  };
+
+  const readCache = async (target: IpfsPath): Promise<Uint8Array | undefined> => {
+    if (!cacheDir) return undefined;
+    const name = cacheFileName(target);
+    try {
+      const bytes = new Uint8Array(await readFile(path.join(cacheDir, name)));
+      const entry = (await loadCacheIndex()).get(name);
+      if (entry) entry.usedAt = Date.now();
+      return bytes;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Removes the least recently used files until the cache fits, never the one just written
+  const evictCache = async (index: Map<string, CacheEntry>, keep: string) => {
+    let total = [...index.values()].reduce((sum, entry) => sum + entry.size, 0);
+    const oldestFirst = [...index].filter(([name]) => name !== keep).sort(([, a], [, b]) => a.usedAt - b.usedAt);
+    for (const [name, entry] of oldestFirst) {
+      if (total <= maxCacheBytes) return;
+      index.delete(name);
+      total -= entry.size;
+      await unlink(path.join(cacheDir!, name)).catch(() => undefined);
+    }
+  };
+
+  const writeCache = async (target: IpfsPath, bytes: Uint8Array) => {
+    if (!cacheDir) return;
+    try {
+      const index = await loadCacheIndex();
+      // Write then rename so concurrent readers never see a partial file
+      const name = cacheFileName(target);
+      const file = path.join(cacheDir, name);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await writeFile(tmp, bytes);
+      await rename(tmp, file);
+      index.set(name, { size: bytes.length, usedAt: Date.now() });
+      await evictCache(index, name);
+    } catch (error) {
+      console.error(`Failed to cache IPFS content ${describe(target)}`, error);
+    }
+  };
+
+  // Closed circuits first in configured order; if every circuit is open, try the one that reopens soonest
+  const pickGateways = (): IpfsGateway[] => {
+    const now = Date.now();
+    const closed = gateways.filter((g) => circuits.get(g.url)!.openUntil <= now);
+    if (closed.length > 0) return closed;
+    return [...gateways].sort((a, b) => circuits.get(a.url)!.openUntil - circuits.get(b.url)!.openUntil).slice(0, 1);
+  };
+
+  const recordSuccess = (gateway: IpfsGateway) => {
+    circuits.set(gateway.url, { failures: 0, openUntil: 0 });
+  };
+
+  const recordFailure = (gateway: IpfsGateway) => {
+    const circuit = circuits.get(gateway.url)!;
+    const failures = circuit.failures + 1;
+    circuits.set(gateway.url, {
+      failures,
+      openUntil: failures >= failureThreshold ? Date.now() + cooldownMs : circuit.openUntil,
+    });
+  };
+
+  // Asks for the raw block (trustless gateway format) so it can be hashed
+  const fetchFromGateway = async (gateway: IpfsGateway, cid: Cid, budget: number): Promise<Uint8Array> => {
+    const url = `${gateway.url}/ipfs/${formatCid(cid)}?format=raw`;
+
+    let res: Response;
+    try {
+      res = await fetchImpl(url, {
+        headers: { Accept: "application/vnd.ipld.raw" },
+        signal: AbortSignal.timeout(gateway.timeoutMs),
+      });
+    } catch (error) {
+      throw new GatewayFailure(`${gateway.url}: ${(error as Error).message}`);
+    }
+    if (res.status === 429 || res.status >= 500) {
+      throw new GatewayFailure(`${gateway.url} responded with status ${res.status}`);
+    }
+    if (!res.ok) {
+      throw new Error(`${gateway.url} responded with status ${res.status}`);
+    }
+    if (Number(res.headers.get("content-length") ?? 0) > budget) {
+      throw new IpfsError(`IPFS content is larger than ${maxBytes} bytes`, "too-large");
+    }
+
+    const block = new Uint8Array(await res.arrayBuffer());
+    if (block.length > budget) {
+      throw new IpfsError(`IPFS content is larger than ${maxBytes} bytes`, "too-large");
+    }
+    if (!blockMatchesCid(cid, block)) {
+      throw new GatewayFailure(`${gateway.url} returned a block that does not match ${formatCid(cid)}`);
+    }
+    return block;
+  };
+
+  const fetchBlock = async (cid: Cid, budget: { remaining: number }): Promise<Uint8Array> => {
+    const errors: string[] = [];
+    for (const gateway of pickGateways()) {
+      try {
+        const block = await fetchFromGateway(gateway, cid, budget.remaining);
+        recordSuccess(gateway);
+        budget.remaining -= block.length;
+        return block;
+      } catch (error) {
+        if (error instanceof IpfsError) throw error;
+        if (error instanceof GatewayFailure) recordFailure(gateway);
+        errors.push((error as Error).message);
+      }
+    }
+    throw new IpfsError(`IPFS block ${formatCid(cid)} is unavailable (${errors.join("; ")})`, "unavailable");
+  };
+
+  // Hash-verified bytes that don't follow the format their CID declares
+  const decodeNode = <T>(decode: () => T, target: IpfsPath): T => {
+    try {
+      return decode();
+    } catch (error) {
+      throw new IpfsError(`IPFS content ${describe(target)} is malformed: ${(error as Error).message}`, "unavailable");
+    }
+  };
+
+  // Follows the path through UnixFS directories; sharded directories are not supported
+  const resolvePath = async (target: IpfsPath, budget: { remaining: number }): Promise<Cid> => {
+    let cid = target.cid;
+    for (const segment of target.segments) {
+      const block = await fetchBlock(cid, budget);
+      const node = cid.codec === CODEC_DAG_PB ? decodeNode(() => decodeDagPb(block), target) : undefined;
+      const unixfs = node?.data && decodeNode(() => decodeUnixFs(node.data!), target);
+      const link = unixfs?.type === UNIXFS_DIRECTORY ? node!.links.find((l) => l.name === segment) : undefined;
+      if (!link) throw new IpfsError(`IPFS content ${describe(target)} was not found`, "unavailable");
+      cid = link.cid;
+    }
+    return cid;
+  };
+
+  // A raw or JSON block is the content itself; a UnixFS file is its own data followed by its children's, in order
+  const readFileContent = async (cid: Cid, target: IpfsPath, budget: { remaining: number }): Promise<Uint8Array> => {
+    const block = await fetchBlock(cid, budget);
+    if (cid.codec === CODEC_RAW || cid.codec === CODEC_JSON || cid.codec === CODEC_DAG_JSON) return block;
+    if (cid.codec !== CODEC_DAG_PB) {
+      throw new IpfsError(
+        `IPFS content ${describe(target)} uses unsupported codec 0x${cid.codec.toString(16)}`,
+        "invalid-cid"
+      );
+    }
+
+    const node = decodeNode(() => decodeDagPb(block), target);
+    const unixfs = node.data && decodeNode(() => decodeUnixFs(node.data!), target);
+    if (!unixfs || (unixfs.type !== UNIXFS_FILE && unixfs.type !== UNIXFS_RAW)) {
+      throw new IpfsError(`IPFS content ${describe(target)} is not a file`, "invalid-cid");
+    }
+
+    const parts = [unixfs.data ?? new Uint8Array()];
+    for (const link of node.links) parts.push(await readFileContent(link.cid, target, budget));
+    return new Uint8Array(Buffer.concat(parts));
+  };
+
+  const download = async (target: IpfsPath): Promise<Uint8Array> => {
+    const cached = await readCache(target);
+    if (cached) return cached;
+
+    // Every block counts, so a file can't spread past the limit over many small blocks
+    const budget = { remaining: maxBytes };
+    const bytes = await readFileContent(await resolvePath(target, budget), target, budget);
+    await writeCache(target, bytes);
+    return bytes;
+  };
+
+  return {
+    fetch(ipfsUrl) {
+      const target = parseIpfsUrl(ipfsUrl);
+      const key = cacheFileName(target);
+
+      // Requests for the same content share one download
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      const bytes = download(target).finally(() => inFlight.delete(key));
+      inFlight.set(key, bytes);
+      return bytes;
+    },
+  };
+}
+
+/** Parses IPFS_GATEWAYS: comma-separated origins, each optionally followed by |timeoutMs */
+function getGateways(): IpfsGateway[] {
+  return serverEnv.ipfsGateways
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [url, timeout] = entry.split("|");
+      return {
+        url: url.replace(/\/+$/, ""),
+        timeoutMs: timeout ? Number(timeout) : serverEnv.ipfsGatewayTimeoutMs,
+      };
+    });
+}
+
+let ipfsClient: IpfsClient | undefined;
+
+export function getIpfsClient(): IpfsClient {
+  if (!ipfsClient) {
+    ipfsClient = createIpfsClient({
+      gateways: getGateways(),
+      cacheDir: serverEnv.ipfsCacheDir ? path.resolve(serverEnv.ipfsCacheDir) : undefined,
+      maxCacheBytes: serverEnv.ipfsCacheMaxBytes,
+    });
+  }
+  return ipfsClient;
+}
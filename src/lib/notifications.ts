@@ -0,0 +1,287 @@
+import { createHmac } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { serverEnv } from "@/config/env";
+import { getDataSource, type GovernanceDataSource } from "@/lib/dataSource";
+import { detectEvents, takeSnapshot, type GovernanceSnapshot } from "@/lib/events";
+import type { GovernanceEvent, GovernanceEventType } from "@/types/governance";
+
+export interface Webhook {
+  url: string;
+  /** Key for the HMAC-SHA256 signature in `X-Cgov-Signature` */
+  secret: string;
+  /** Event types to deliver; every type when omitted */
+  events?: GovernanceEventType[];
+}
+
+/** Sent by `ping()` so a receiver can be checked without waiting for a governance event */
+export interface WebhookPing {
+  id: string;
+  type: "ping";
+  detectedAt: string;
+  summary: string;
+}
+
+export interface WebhookDelivery {
+  url: string;
+  ok: boolean;
+  attempts: number;
+  /** Status of the last response, absent when no response was received */
+  status?: number;
+  error?: string;
+}
+
+interface GovernanceNotifierOptions {
+  dataSource: GovernanceDataSource;
+  webhooks: Webhook[];
+  /** DReps whose votes raise `drep-voted` events */
+  watchedDReps: string[];
+  expiryWarningEpochs: number;
+  /** JSON file keeping the last snapshot and recent events across restarts; in memory only when omitted */
+  stateFile?: string;
+  /** Events kept for the feed */
+  maxEvents?: number;
+  /** Attempts per webhook delivery, the first one included */
+  maxAttempts?: number;
+  /** Wait before the first retry; doubled for every further retry */
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface GovernanceNotifier {
+  /** Takes a snapshot, delivers the events since the previous one and resolves to them */
+  poll(): Promise<GovernanceEvent[]>;
+  /** Polls unless the last poll finished less than `maxAgeMs` ago */
+  refresh(maxAgeMs: number): Promise<void>;
+  /** Recent events, newest first */
+  getEvents(): Promise<GovernanceEvent[]>;
+  /** Sends a ping to every webhook and resolves once each delivery succeeded or gave up */
+  ping(): Promise<WebhookDelivery[]>;
+  start(intervalMs: number): void;
+  stop(): void;
+}
+
+interface NotifierState {
+  snapshot: GovernanceSnapshot | null;
+  events: GovernanceEvent[];
+}
+
+const WEBHOOK_EVENT_TYPES: GovernanceEventType[] = [
+  "action-submitted",
+  "status-changed",
+  "threshold-crossed",
+  "expiring",
+  "drep-voted",
+];
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}`; receivers recompute it to check the sender and the timestamp */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Client errors won't go away by sending the same request again, apart from timeouts and rate limits
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Diffs successive snapshots of the data source into governance events,
+ * keeps the most recent ones for the feed and posts each one to the
+ * configured webhooks, retrying failed deliveries with exponential backoff.
+ */
+export function createGovernanceNotifier({
+  dataSource,
+  webhooks,
+  watchedDReps,
+  expiryWarningEpochs,
+  stateFile,
+  maxEvents = 500,
+  maxAttempts = 5,
+  retryDelayMs = 1000,
+  timeoutMs = 10_000,
+  fetch: fetchImpl = fetch,
+}: GovernanceNotifierOptions): GovernanceNotifier {
+  let state: Promise<NotifierState> | undefined;
+  let inFlight: Promise<GovernanceEvent[]> | undefined;
+  let lastPolledAt = 0;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  // Deliveries to one webhook are chained so receivers get events in order
+  const queues = new Map<string, Promise<unknown>>();
+
+  const readState = async (): Promise<NotifierState> => {
+    if (!stateFile) return { snapshot: null, events: [] };
+    try {
+      return JSON.parse(await readFile(stateFile, "utf8")) as NotifierState;
+    } catch {
+      return { snapshot: null, events: [] };
+    }
+  };
+
+  const writeState = async (next: NotifierState) => {
+    if (!stateFile) return;
+    try {
+      await mkdir(path.dirname(stateFile), { recursive: true });
+      // Write then rename so a crash mid-write never leaves a truncated file
+      const tmp = `${stateFile}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(next));
+      await rename(tmp, stateFile);
+    } catch (error) {
+      console.error("Failed to save governance event state", error);
+    }
+  };
+
+  const getState = () => (state ??= readState());
+
+  const deliver = async (webhook: Webhook, payload: GovernanceEvent | WebhookPing): Promise<WebhookDelivery> => {
+    const body = JSON.stringify(payload);
+    let delivery: WebhookDelivery = { url: webhook.url, ok: false, attempts: 0 };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) await sleep(retryDelayMs * 2 ** (attempt - 2));
+      // Signed per attempt so the timestamp stays fresh for receivers that reject old requests
+      const timestamp = Math.floor(Date.now() / 1000);
+      try {
+        const res = await fetchImpl(webhook.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "cgov-webhooks",
+            "X-Cgov-Event": payload.type,
+            "X-Cgov-Delivery": payload.id,
+            "X-Cgov-Timestamp": String(timestamp),
+            "X-Cgov-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+          },
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        delivery = { url: webhook.url, ok: res.ok, attempts: attempt, status: res.status };
+        if (res.ok || !isRetryableStatus(res.status)) break;
+      } catch (error) {
+        delivery = { url: webhook.url, ok: false, attempts: attempt, error: (error as Error).message };
+      }
+    }
+
+    if (!delivery.ok) {
+      console.error(
+        `Webhook delivery of ${payload.id} to ${webhook.url} failed after ${delivery.attempts} attempts`,
+        delivery.error ?? `status ${delivery.status}`
+      );
+    }
+    return delivery;
+  };
+
+  const enqueue = (webhook: Webhook, payload: GovernanceEvent | WebhookPing): Promise<WebhookDelivery> => {
+    const delivery = (queues.get(webhook.url) ?? Promise.resolve()).then(() => deliver(webhook, payload));
+    queues.set(webhook.url, delivery);
+    return delivery;
+  };
+
+  const runPoll = async (): Promise<GovernanceEvent[]> => {
+    const current = await getState();
+    const snapshot = await takeSnapshot(dataSource, watchedDReps);
+    // The first snapshot is the baseline; everything in it already happened
+    const events = current.snapshot ? detectEvents(current.snapshot, snapshot, { expiryWarningEpochs }) : [];
+
+    const next = { snapshot, events: [...[...events].reverse(), ...current.events].slice(0, maxEvents) };
+    state = Promise.resolve(next);
+    lastPolledAt = Date.now();
+    await writeState(next);
+
+    for (const webhook of webhooks) {
+      for (const event of events) {
+        if (!webhook.events || webhook.events.includes(event.type)) void enqueue(webhook, event);
+      }
+    }
+    return events;
+  };
+
+  const poll = () => {
+    // Concurrent callers share one snapshot, so no event is detected twice
+    inFlight ??= runPoll().finally(() => {
+      inFlight = undefined;
+    });
+    return inFlight;
+  };
+
+  return {
+    poll,
+    async refresh(maxAgeMs) {
+      if (Date.now() - lastPolledAt >= maxAgeMs) await poll();
+    },
+    async getEvents() {
+      return (await getState()).events;
+    },
+    ping() {
+      const now = new Date();
+      const payload: WebhookPing = {
+        id: `${now.getTime().toString(36)}:ping`,
+        type: "ping",
+        detectedAt: now.toISOString(),
+        summary: "Webhook test from cgov",
+      };
+      return Promise.all(webhooks.map((webhook) => enqueue(webhook, payload)));
+    },
+    start(intervalMs) {
+      if (timer) return;
+      const run = () =>
+        poll().catch((error) => {
+          console.error("Failed to poll for governance events", error);
+        });
+      void run();
+      timer = setInterval(run, intervalMs);
+    },
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
+
+/** Parses WEBHOOKS: comma-separated "url|secret" entries, optionally followed by |type+type */
+function getWebhooks(): Webhook[] {
+  return serverEnv.webhooks
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [url, secret = "", types] = entry.split("|");
+      if (!secret) throw new Error(`Webhook ${url} has no signing secret, expected "url|secret"`);
+
+      const events = types?.split("+").map((type) => type.trim()) as GovernanceEventType[] | undefined;
+      const unknown = events?.find((type) => !WEBHOOK_EVENT_TYPES.includes(type));
+      if (unknown) throw new Error(`Unknown event type "${unknown}" for webhook ${url}`);
+      return { url, secret, events };
+    });
+}
+
+// Next bundles instrumentation and API routes separately, each with its own copy
+// of this module; one notifier per process keeps them from diffing each other's snapshots
+const globalForNotifier = globalThis as typeof globalThis & { cgovNotifier?: GovernanceNotifier };
+
+export function getGovernanceNotifier(): GovernanceNotifier {
+  if (!globalForNotifier.cgovNotifier) {
+    globalForNotifier.cgovNotifier = createGovernanceNotifier({
+      dataSource: getDataSource(),
+      webhooks: getWebhooks(),
+      watchedDReps: serverEnv.watchedDReps
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+      expiryWarningEpochs: serverEnv.expiryWarningEpochs,
+      stateFile: serverEnv.eventStateFile ? path.resolve(serverEnv.eventStateFile) : undefined,
+      maxAttempts: serverEnv.webhookMaxAttempts,
+    });
+  }
+  return globalForNotifier.cgovNotifier;
+}
+
+/**
+ * Polls in the background when webhooks are configured, so they fire without
+ * anyone reading the feed. The feed refreshes itself on request either way.
+ */
+export function startGovernanceNotifier(): void {
+  if (serverEnv.webhooks && serverEnv.eventPollIntervalMs > 0) {
+    getGovernanceNotifier().start(serverEnv.eventPollIntervalMs);
+  }
+}
@@ -0,0 +1,344 @@
+import type { GovernanceAction as MeshGovernanceAction, Protocol, ProtocolParamUpdate, Rational } from "@meshsdk/core";
+import {
+  CIP100_AUTHORS_CONTEXT,
+  CIP100_CONTEXT_URL,
+  CIP100_HASH_ALGORITHM,
+  referencesContext,
+  validateReferences,
+} from "@/lib/cip100";
+import { decodeCommitteeColdCredential, parseGovActionReference } from "@/lib/cip129";
+import { isStakeAddress } from "@/lib/delegation";
+import { getProtocolParameterInfo } from "@/lib/protocolParameters";
+import type {
+  GovernanceActionKind,
+  HardForkInitiationAction,
+  InfoAction,
+  NewConstitutionAction,
+  NoConfidenceAction,
+  ParameterChangeAction,
+  RationaleAuthor,
+  RationaleReference,
+  TreasuryWithdrawalsAction,
+  UpdateCommitteeAction,
+} from "@/types/governance";
+
+type JsonObject = Record<string, unknown>;
+
+/** CIP-108 asks for a title of at most 80 characters and an abstract of at most 2500 */
+export const PROPOSAL_TITLE_MAX_LENGTH = 80;
+export const PROPOSAL_ABSTRACT_MAX_LENGTH = 2500;
+
+export const PROPOSAL_REFERENCE_TYPES = ["Other", "GovernanceMetadata"] as const;
+
+/** The CIP-108 body of a governance action's metadata document */
+export interface ProposalMetadata {
+  title: string;
+  abstract: string;
+  motivation: string;
+  rationale: string;
+  references: RationaleReference[];
+  authors: RationaleAuthor[];
+}
+
+/** Type-specific contents of a drafted action, in the shape the detail page shows them */
+export type ProposalContent =
+  | Pick<ParameterChangeAction, "type" | "parameterChanges">
+  | Pick<HardForkInitiationAction, "type" | "protocolVersion">
+  | Pick<NoConfidenceAction, "type">
+  | Pick<UpdateCommitteeAction, "type" | "membersToAdd" | "membersToRemove" | "newThreshold">
+  | Pick<NewConstitutionAction, "type" | "constitution">
+  | Pick<TreasuryWithdrawalsAction, "type" | "withdrawals">
+  | Pick<InfoAction, "type">;
+
+/** Action types that must name the last enacted action of the same purpose */
+export const CHAINED_ACTION_KINDS: GovernanceActionKind[] = [
+  "ParameterChange",
+  "HardForkInitiation",
+  "NoConfidence",
+  "UpdateCommittee",
+  "NewConstitution",
+];
+
+interface ProposableParameter {
+  /** Field of Mesh's ProtocolParamUpdate */
+  key: keyof ProtocolParamUpdate;
+  /** Mesh takes ADA amounts as lovelace strings and counts as numbers */
+  coin: boolean;
+  /** Field of Mesh's Protocol holding the current value, when it has one */
+  current?: keyof Protocol;
+}
+
+/**
+ * Integer protocol parameters the wizard can propose, keyed by the Koios
+ * column names the detail page labels. Rational and structured parameters
+ * (prices, thresholds, cost models) need a proper tool.
+ */
+export const PROPOSABLE_PARAMETERS: Record<string, ProposableParameter> = {
+  max_block_size: { key: "maxBlockBodySize", coin: false, current: "maxBlockSize" },
+  max_tx_size: { key: "maxTxSize", coin: false, current: "maxTxSize" },
+  max_bh_size: { key: "maxBlockHeaderSize", coin: false, current: "maxBlockHeaderSize" },
+  max_val_size: { key: "maxValueSize", coin: false, current: "maxValSize" },
+  max_collateral_inputs: { key: "maxCollateralInputs", coin: false, current: "maxCollateralInputs" },
+  min_fee_a: { key: "minFeeA", coin: true, current: "minFeeA" },
+  min_fee_b: { key: "minFeeB", coin: true, current: "minFeeB" },
+  key_deposit: { key: "keyDeposit", coin: true, current: "keyDeposit" },
+  pool_deposit: { key: "poolDeposit", coin: true, current: "poolDeposit" },
+  min_pool_cost: { key: "minPoolCost", coin: true, current: "minPoolCost" },
+  coins_per_utxo_size: { key: "adaPerUtxoByte", coin: true, current: "coinsPerUtxoSize" },
+  max_epoch: { key: "maxEpoch", coin: false },
+  optimal_pool_count: { key: "nOpt", coin: false },
+  collateral_percent: { key: "collateralPercentage", coin: false, current: "collateralPercent" },
+  gov_action_lifetime: { key: "govActionValidityPeriod", coin: false },
+  gov_action_deposit: { key: "govActionDeposit", coin: true },
+  drep_deposit: { key: "drepDeposit", coin: true },
+  drep_activity: { key: "drepInactivityPeriod", coin: false },
+  committee_min_size: { key: "minCommitteeSize", coin: false },
+  committee_max_term_length: { key: "committeeTermLimit", coin: false },
+};
+
+/** Current value of a proposable parameter as the detail page shows it, when the protocol parameters carry it */
+export function getCurrentParameterValue(parameter: string, protocol: Protocol): string | undefined {
+  const field = PROPOSABLE_PARAMETERS[parameter]?.current;
+  return field === undefined ? undefined : String(protocol[field]);
+}
+
+/** A parameter change entry with the group and security flag the detail page expects */
+export function createParameterChange(
+  parameter: string,
+  proposedValue: string,
+  currentValue?: string
+): ParameterChangeAction["parameterChanges"][number] {
+  const { group, securityRelevant } = getProtocolParameterInfo(parameter);
+  return { parameter, group, securityRelevant, currentValue, proposedValue };
+}
+
+// JSON-LD context of the CIP-108 example documents, trimmed to the fields the wizard writes
+const PROPOSAL_CONTEXT = {
+  "@language": "en-us",
+  CIP100: CIP100_CONTEXT_URL,
+  CIP108: "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0108/README.md#",
+  hashAlgorithm: "CIP100:hashAlgorithm",
+  body: {
+    "@id": "CIP108:body",
+    "@context": {
+      references: referencesContext("CIP108:references"),
+      title: "CIP108:title",
+      abstract: "CIP108:abstract",
+      motivation: "CIP108:motivation",
+      rationale: "CIP108:rationale",
+    },
+  },
+  authors: CIP100_AUTHORS_CONTEXT,
+};
+
+/** Problems that keep the metadata from being a valid CIP-108 body; empty when valid */
+export function validateProposalMetadata(metadata: ProposalMetadata): string[] {
+  const issues: string[] = [];
+  if (!metadata.title.trim()) {
+    issues.push("A title is required");
+  } else if (metadata.title.trim().length > PROPOSAL_TITLE_MAX_LENGTH) {
+    issues.push(`The title is ${metadata.title.trim().length} characters; the limit is ${PROPOSAL_TITLE_MAX_LENGTH}`);
+  }
+  if (!metadata.abstract.trim()) {
+    issues.push("An abstract is required");
+  } else if (metadata.abstract.trim().length > PROPOSAL_ABSTRACT_MAX_LENGTH) {
+    issues.push(
+      `The abstract is ${metadata.abstract.trim().length} characters; the limit is ${PROPOSAL_ABSTRACT_MAX_LENGTH}`
+    );
+  }
+  if (!metadata.motivation.trim()) issues.push("A motivation is required");
+  if (!metadata.rationale.trim()) issues.push("A rationale is required");
+  return [...issues, ...validateReferences(metadata.references, PROPOSAL_REFERENCE_TYPES)];
+}
+
+/**
+ * Builds the CIP-100 envelope around a CIP-108 body. As with vote
+ * rationales, authors are listed by name and signed by other tools.
+ */
+export function createProposalMetadataDocument(metadata: ProposalMetadata): JsonObject {
+  const body: JsonObject = {
+    title: metadata.title.trim(),
+    abstract: metadata.abstract.trim(),
+    motivation: metadata.motivation.trim(),
+    rationale: metadata.rationale.trim(),
+  };
+  if (metadata.references.length > 0) {
+    body.references = metadata.references.map(({ type, label, uri }) => ({ "@type": type ?? "Other", label, uri }));
+  }
+
+  return {
+    "@context": PROPOSAL_CONTEXT,
+    hashAlgorithm: CIP100_HASH_ALGORITHM,
+    authors: metadata.authors.filter((author) => author.name).map(({ name }) => ({ name })),
+    body,
+  };
+}
+
+const HASH_28_PATTERN = /^[0-9a-f]{56}$/i;
+const HASH_32_PATTERN = /^[0-9a-f]{64}$/i;
+
+/** Problems with the type-specific contents and the previous action reference; empty when valid */
+export function validateProposalContent(content: ProposalContent, previousAction: string): string[] {
+  const issues: string[] = [];
+  if (previousAction.trim() && !parseGovActionReference(previousAction)) {
+    issues.push("The previous action must be a gov_action1… ID or <tx hash>#<index>");
+  }
+
+  switch (content.type) {
+    case "ParameterChange": {
+      if (content.parameterChanges.length === 0) issues.push("Add at least one parameter change");
+      const seen = new Set<string>();
+      for (const change of content.parameterChanges) {
+        const label = getProtocolParameterInfo(change.parameter).label;
+        if (!PROPOSABLE_PARAMETERS[change.parameter]) issues.push(`${label} can't be proposed here`);
+        if (!/^\d+$/.test(change.proposedValue)) issues.push(`${label} needs a whole number`);
+        if (seen.has(change.parameter)) issues.push(`${label} is changed more than once`);
+        seen.add(change.parameter);
+      }
+      break;
+    }
+    case "HardForkInitiation": {
+      const { major, minor } = content.protocolVersion;
+      if (!Number.isInteger(major) || major < 1 || !Number.isInteger(minor) || minor < 0) {
+        issues.push("The protocol version needs a whole major and minor number");
+      }
+      break;
+    }
+    case "UpdateCommittee":
+      if (content.membersToAdd.length === 0 && content.membersToRemove.length === 0) {
+        issues.push("Add or remove at least one committee member");
+      }
+      content.membersToAdd.forEach((member, index) => {
+        if (!decodeCommitteeColdCredential(member.coldCredential)) {
+          issues.push(`New member ${index + 1} needs a cc_cold1… ID or a 56-character key hash`);
+        }
+        if (!Number.isInteger(member.expiryEpoch) || member.expiryEpoch <= 0) {
+          issues.push(`New member ${index + 1} needs an expiry epoch`);
+        }
+      });
+      content.membersToRemove.forEach((credential, index) => {
+        if (!decodeCommitteeColdCredential(credential)) {
+          issues.push(`Removed member ${index + 1} needs a cc_cold1… ID or a 56-character key hash`);
+        }
+      });
+      if (!(content.newThreshold > 0 && content.newThreshold <= 1)) {
+        issues.push("The quorum threshold must be above 0% and at most 100%");
+      }
+      break;
+    case "NewConstitution": {
+      const { anchorUrl, anchorHash, guardrailsScriptHash } = content.constitution;
+      if (!/^(https|ipfs):\/\/\S+$/.test(anchorUrl)) issues.push("The constitution needs an https:// or ipfs:// URL");
+      if (!HASH_32_PATTERN.test(anchorHash)) issues.push("The constitution hash must be a 64-character hex digest");
+      if (guardrailsScriptHash && !HASH_28_PATTERN.test(guardrailsScriptHash)) {
+        issues.push("The guardrails script hash must be 56 hex characters");
+      }
+      break;
+    }
+    case "TreasuryWithdrawals": {
+      if (content.withdrawals.length === 0) issues.push("Add at least one withdrawal");
+      const seen = new Set<string>();
+      content.withdrawals.forEach((withdrawal, index) => {
+        if (!isStakeAddress(withdrawal.stakeAddress)) {
+          issues.push(`Withdrawal ${index + 1} needs a stake address`);
+        } else if (seen.has(withdrawal.stakeAddress)) {
+          issues.push(`Withdrawal ${index + 1} repeats a recipient; combine the amounts instead`);
+        }
+        seen.add(withdrawal.stakeAddress);
+        if (!(withdrawal.amountAda > 0)) issues.push(`Withdrawal ${index + 1} needs an amount above 0 ₳`);
+      });
+      break;
+    }
+    case "NoConfidence":
+    case "Info":
+      break;
+  }
+  return issues;
+}
+
+function adaToLovelace(ada: number): string {
+  return String(Math.round(ada * 1_000_000));
+}
+
+// The committee threshold as a reduced fraction, to four decimal places of precision
+function toRational(fraction: number): Rational {
+  const denominator = 10_000;
+  const numerator = Math.round(fraction * denominator);
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = gcd(numerator, denominator) || 1;
+  return { numerator: String(numerator / divisor), denominator: String(denominator / divisor) };
+}
+
+function toMeshCredential(id: string) {
+  const credential = decodeCommitteeColdCredential(id);
+  if (!credential) throw new Error(`Invalid committee credential "${id}"`);
+  return credential.type === "KeyHash"
+    ? { type: "KeyHash" as const, keyHash: credential.hash }
+    : { type: "ScriptHash" as const, scriptHash: credential.hash };
+}
+
+/**
+ * Converts validated wizard contents to the governance action Mesh builds
+ * into a proposal procedure. `previousAction` is the last enacted action of
+ * the same purpose; leave it empty when there is none.
+ */
+export function toMeshGovernanceAction(content: ProposalContent, previousAction = ""): MeshGovernanceAction {
+  const previous = parseGovActionReference(previousAction);
+  const govActionId = previous ? { transactionId: previous.txHash, govActionIndex: previous.index } : undefined;
+
+  switch (content.type) {
+    case "ParameterChange": {
+      const updates: Record<string, string | number> = {};
+      for (const { parameter, proposedValue } of content.parameterChanges) {
+        const { key, coin } = PROPOSABLE_PARAMETERS[parameter];
+        updates[key] = coin ? proposedValue : Number(proposedValue);
+      }
+      return {
+        kind: "ParameterChangeAction",
+        action: { govActionId, protocolParamUpdates: updates as ProtocolParamUpdate },
+      };
+    }
+    case "HardForkInitiation":
+      return { kind: "HardForkInitiationAction", action: { govActionId, protocolVersion: content.protocolVersion } };
+    case "NoConfidence":
+      return { kind: "NoConfidenceAction", action: { govActionId } };
+    case "UpdateCommittee":
+      return {
+        kind: "UpdateCommitteeAction",
+        action: {
+          govActionId,
+          committee: {
+            members: content.membersToAdd.map((member) => ({
+              stakeCredential: toMeshCredential(member.coldCredential),
+              termLimit: member.expiryEpoch,
+            })),
+            quorumThreshold: toRational(content.newThreshold),
+          },
+          membersToRemove: content.membersToRemove.map(toMeshCredential),
+        },
+      };
+    case "NewConstitution": {
+      const { anchorUrl, anchorHash, guardrailsScriptHash } = content.constitution;
+      return {
+        kind: "NewConstitutionAction",
+        action: {
+          govActionId,
+          constitution: {
+            anchor: { anchorUrl, anchorDataHash: anchorHash.toLowerCase() },
+            scriptHash: guardrailsScriptHash ? { bytes: guardrailsScriptHash.toLowerCase() } : undefined,
+          },
+        },
+      };
+    }
+    case "TreasuryWithdrawals":
+      return {
+        kind: "TreasuryWithdrawalsAction",
+        action: {
+          withdrawals: Object.fromEntries(
+            content.withdrawals.map((withdrawal) => [withdrawal.stakeAddress, adaToLovelace(withdrawal.amountAda)])
+          ),
+        },
+      };
+    case "Info":
+      return { kind: "InfoAction", action: {} };
+  }
+}
@@ -0,0 +1,74 @@
+import type { ProtocolParameterGroup } from "@/types/governance";
+
+interface ProtocolParameterInfo {
+  label: string;
+  group: ProtocolParameterGroup;
+  securityRelevant: boolean;
+}
+
+/**
+ * Conway protocol parameters keyed by their Koios (db-sync) column name,
+ * grouped as in CIP-1694. Security-relevant parameters are the ones SPOs
+ * must also approve.
+ */
+export const PROTOCOL_PARAMETERS: Record<string, ProtocolParameterInfo> = {
+  max_block_size: { label: "Max block body size", group: "network", securityRelevant: true },
+  max_tx_size: { label: "Max transaction size", group: "network", securityRelevant: true },
+  max_bh_size: { label: "Max block header size", group: "network", securityRelevant: true },
+  max_val_size: { label: "Max value size", group: "network", securityRelevant: true },
+  max_tx_ex_mem: { label: "Max transaction execution memory", group: "network", securityRelevant: false },
+  max_tx_ex_steps: { label: "Max transaction execution steps", group: "network", securityRelevant: false },
+  max_block_ex_mem: { label: "Max block execution memory", group: "network", securityRelevant: true },
+  max_block_ex_steps: { label: "Max block execution steps", group: "network", securityRelevant: true },
+  max_collateral_inputs: { label: "Max collateral inputs", group: "network", securityRelevant: false },
+
+  min_fee_a: { label: "Transaction fee per byte", group: "economic", securityRelevant: true },
+  min_fee_b: { label: "Transaction fixed fee", group: "economic", securityRelevant: true },
+  key_deposit: { label: "Stake address deposit", group: "economic", securityRelevant: false },
+  pool_deposit: { label: "Stake pool deposit", group: "economic", securityRelevant: false },
+  monetary_expand_rate: { label: "Monetary expansion", group: "economic", securityRelevant: false },
+  treasury_growth_rate: { label: "Treasury cut", group: "economic", securityRelevant: false },
+  min_pool_cost: { label: "Min pool cost", group: "economic", securityRelevant: false },
+  coins_per_utxo_size: { label: "UTxO cost per byte", group: "economic", securityRelevant: true },
+  price_mem: { label: "Execution price (memory)", group: "economic", securityRelevant: false },
+  price_step: { label: "Execution price (steps)", group: "economic", securityRelevant: false },
+  min_fee_ref_script_cost_per_byte: {
+    label: "Reference script fee per byte",
+    group: "economic",
+    securityRelevant: true,
+  },
+
+  influence: { label: "Pool pledge influence", group: "technical", securityRelevant: false },
+  max_epoch: { label: "Pool retirement max epoch", group: "technical", securityRelevant: false },
+  optimal_pool_count: { label: "Target number of pools", group: "technical", securityRelevant: false },
+  cost_models: { label: "Plutus cost models", group: "technical", securityRelevant: false },
+  collateral_percent: { label: "Collateral percentage", group: "technical", securityRelevant: false },
+
+  gov_action_lifetime: { label: "Governance action lifetime", group: "governance", securityRelevant: false },
+  gov_action_deposit: { label: "Governance action deposit", group: "governance", securityRelevant: true },
+  drep_deposit: { label: "DRep deposit", group: "governance", securityRelevant: false },
+  drep_activity: { label: "DRep activity", group: "governance", securityRelevant: false },
+  committee_min_size: { label: "Committee min size", group: "governance", securityRelevant: false },
+  committee_max_term_length: { label: "Committee max term length", group: "governance", securityRelevant: false },
+};
+
+export const PROTOCOL_PARAMETER_GROUP_LABELS: Record<ProtocolParameterGroup, string> = {
+  network: "Network",
+  economic: "Economic",
+  technical: "Technical",
+  governance: "Governance",
+};
+
+/**
+ * Looks up a parameter's group. Parameters not listed above, such as the
+ * individual voting thresholds (pvt_* / dvt_*), belong to the governance group.
+ */
+export function getProtocolParameterInfo(parameter: string): ProtocolParameterInfo {
+  return (
+    PROTOCOL_PARAMETERS[parameter] ?? {
+      label: parameter,
+      group: "governance",
+      securityRelevant: false,
+    }
+  );
+}
@@ -0,0 +1,181 @@
+import type {
+  GovernanceAction,
+  ParameterChangeAction,
+  ProtocolParameterGroup,
+  VotingBody,
+  VotingThresholds,
+} from "@/types/governance";
+
+/** Mainnet values since the Chang hard fork (Conway genesis) */
+export const DEFAULT_VOTING_THRESHOLDS: VotingThresholds = {
+  drep: {
+    motionNoConfidence: 0.67,
+    committeeNormal: 0.67,
+    committeeNoConfidence: 0.6,
+    updateToConstitution: 0.75,
+    hardForkInitiation: 0.6,
+    ppNetworkGroup: 0.67,
+    ppEconomicGroup: 0.67,
+    ppTechnicalGroup: 0.67,
+    ppGovGroup: 0.75,
+    treasuryWithdrawal: 0.67,
+  },
+  spo: {
+    motionNoConfidence: 0.51,
+    committeeNormal: 0.51,
+    committeeNoConfidence: 0.51,
+    hardForkInitiation: 0.51,
+    ppSecurityGroup: 0.51,
+  },
+  committee: 0.67,
+};
+
+export const VOTING_BODY_LABELS: Record<VotingBody, string> = {
+  drep: "DRep",
+  spo: "SPO",
+  committee: "Constitutional Committee",
+};
+
+export interface BodyRatification {
+  body: VotingBody;
+  /** Whether this body takes part in ratifying the action type */
+  required: boolean;
+  /** Required Yes share in percent, null when the body does not vote */
+  threshold: number | null;
+  /** Current Yes share in percent, null when no tally is available */
+  yesPercent: number | null;
+  /** Null when the body is not required or its tally is unknown */
+  passing: boolean | null;
+  /** Percentage points above (positive) or below (negative) the threshold */
+  margin: number | null;
+}
+
+/** Pending while a required body has no tally yet and none is below its threshold */
+export type RatificationVerdict = "passing" | "failing" | "pending";
+
+export interface RatificationResult {
+  bodies: Record<VotingBody, BodyRatification>;
+  verdict: RatificationVerdict;
+  /** True only when every required body has a tally at or above its threshold */
+  passing: boolean;
+  /** Required bodies currently below their threshold */
+  blockingBodies: VotingBody[];
+  /** Required bodies whose tally is not available yet */
+  pendingBodies: VotingBody[];
+}
+
+type RequiredThresholds = Record<VotingBody, number | null>;
+
+function getParameterChangeThresholds(action: ParameterChangeAction, thresholds: VotingThresholds): RequiredThresholds {
+  const { drep, spo, committee } = thresholds;
+  const groupThresholds: Record<ProtocolParameterGroup, number> = {
+    network: drep.ppNetworkGroup,
+    economic: drep.ppEconomicGroup,
+    technical: drep.ppTechnicalGroup,
+    governance: drep.ppGovGroup,
+  };
+
+  // A change touching several groups must clear the highest of their thresholds
+  const drepThreshold = Math.max(...action.parameterChanges.map((change) => groupThresholds[change.group]), 0);
+  const securityRelevant = action.parameterChanges.some((change) => change.securityRelevant);
+
+  return { drep: drepThreshold, spo: securityRelevant ? spo.ppSecurityGroup : null, committee };
+}
+
+function getRequiredThresholds(action: GovernanceAction, thresholds: VotingThresholds): RequiredThresholds {
+  const { drep, spo, committee } = thresholds;
+
+  switch (action.type) {
+    case "NoConfidence":
+      return { drep: drep.motionNoConfidence, spo: spo.motionNoConfidence, committee: null };
+    case "UpdateCommittee":
+      return { drep: drep.committeeNormal, spo: spo.committeeNormal, committee: null };
+    case "NewConstitution":
+      return { drep: drep.updateToConstitution, spo: null, committee };
+    case "HardForkInitiation":
+      return { drep: drep.hardForkInitiation, spo: spo.hardForkInitiation, committee };
+    case "ParameterChange":
+      return getParameterChangeThresholds(action, thresholds);
+    case "TreasuryWithdrawals":
+      return { drep: drep.treasuryWithdrawal, spo: null, committee };
+    case "Info":
+      // Info actions can never be enacted, so they need unanimous support
+      return { drep: 1, spo: 1, committee };
+  }
+}
+
+/** Whether a voting body takes part in ratifying this action */
+export function isVotingBodyRequired(action: GovernanceAction, body: VotingBody): boolean {
+  return getRequiredThresholds(action, DEFAULT_VOTING_THRESHOLDS)[body] !== null;
+}
+
+function getYesPercent(action: GovernanceAction, body: VotingBody): number | null {
+  switch (body) {
+    case "drep":
+      return action.drepYesPercent;
+    case "spo":
+      return action.spoYesPercent ?? null;
+    case "committee":
+      return action.ccYesPercent ?? null;
+  }
+}
+
+function evaluateBody(action: GovernanceAction, body: VotingBody, threshold: number | null): BodyRatification {
+  if (threshold === null) {
+    return {
+      body,
+      required: false,
+      threshold: null,
+      yesPercent: getYesPercent(action, body),
+      passing: null,
+      margin: null,
+    };
+  }
+
+  const thresholdPercent = threshold * 100;
+  const yesPercent = getYesPercent(action, body);
+  if (yesPercent === null) {
+    return { body, required: true, threshold: thresholdPercent, yesPercent: null, passing: null, margin: null };
+  }
+
+  return {
+    body,
+    required: true,
+    threshold: thresholdPercent,
+    yesPercent,
+    passing: yesPercent >= thresholdPercent,
+    margin: yesPercent - thresholdPercent,
+  };
+}
+
+/**
+ * Evaluates an action's current tally against the CIP-1694 thresholds for
+ * its type. Only reflects the vote; enactment order and prior-action checks
+ * are not considered.
+ */
+export function evaluateRatification(
+  action: GovernanceAction,
+  thresholds: VotingThresholds = DEFAULT_VOTING_THRESHOLDS
+): RatificationResult {
+  const required = getRequiredThresholds(action, thresholds);
+  const bodies: Record<VotingBody, BodyRatification> = {
+    drep: evaluateBody(action, "drep", required.drep),
+    spo: evaluateBody(action, "spo", required.spo),
+    committee: evaluateBody(action, "committee", required.committee),
+  };
+
+  const all = Object.values(bodies);
+  const blockingBodies = all.filter((b) => b.passing === false).map((b) => b.body);
+  const pendingBodies = all.filter((b) => b.required && b.passing === null).map((b) => b.body);
+
+  const verdict: RatificationVerdict =
+    blockingBodies.length > 0 ? "failing" : pendingBodies.length > 0 ? "pending" : "passing";
+
+  return {
+    bodies,
+    verdict,
+    passing: verdict === "passing",
+    blockingBodies,
+    pendingBodies,
+  };
+}
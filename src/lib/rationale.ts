@@ -0,0 +1,164 @@
+import {
+  CIP100_AUTHORS_CONTEXT,
+  CIP100_CONTEXT_URL,
+  CIP100_HASH_ALGORITHM,
+  referencesContext,
+  validateCip100Envelope,
+  validateReferences,
+} from "@/lib/cip100";
+import type { RationaleAuthor, RationaleReference, VoteRationale } from "@/types/governance";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// CIP-100 documents may wrap values as JSON-LD objects: { "@value": "..." }
+function jsonLdText(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (isObject(value)) return jsonLdText(value["@value"]);
+  return undefined;
+}
+
+function parseReferences(value: unknown): RationaleReference[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isObject).flatMap((reference) => {
+    const uri = jsonLdText(reference.uri);
+    if (!uri) return [];
+    return [{ label: jsonLdText(reference.label) ?? uri, uri, type: jsonLdText(reference["@type"]) }];
+  });
+}
+
+function parseAuthors(value: unknown): RationaleAuthor[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isObject).map((author) => {
+    const witness = isObject(author.witness) ? author.witness : {};
+    return {
+      name: jsonLdText(author.name),
+      witnessAlgorithm: jsonLdText(witness.witnessAlgorithm),
+      publicKey: jsonLdText(witness.publicKey),
+    };
+  });
+}
+
+/**
+ * Reads the CIP-100 envelope and CIP-136 vote rationale fields out of an
+ * anchor document. Returns null when the document has no `body` object.
+ */
+export function parseRationaleDocument(document: unknown): VoteRationale | null {
+  if (!isObject(document) || !isObject(document.body)) return null;
+  const { body } = document;
+
+  return {
+    summary: jsonLdText(body.summary),
+    rationaleStatement: jsonLdText(body.rationaleStatement),
+    precedentDiscussion: jsonLdText(body.precedentDiscussion),
+    counterargumentDiscussion: jsonLdText(body.counterargumentDiscussion),
+    conclusion: jsonLdText(body.conclusion),
+    comment: jsonLdText(body.comment),
+    references: parseReferences(body.references),
+    authors: parseAuthors(document.authors),
+  };
+}
+
+/** Whether a parsed rationale has any text to show */
+export function hasRationaleText(rationale: VoteRationale): boolean {
+  return [
+    rationale.summary,
+    rationale.rationaleStatement,
+    rationale.precedentDiscussion,
+    rationale.counterargumentDiscussion,
+    rationale.conclusion,
+    rationale.comment,
+  ].some(Boolean);
+}
+
+/** CIP-136 caps the summary at 300 characters */
+export const RATIONALE_SUMMARY_MAX_LENGTH = 300;
+
+export const RATIONALE_REFERENCE_TYPES = ["Other", "GovernanceMetadata", "RelevantArticles"] as const;
+
+// JSON-LD context of the CIP-136 example documents, trimmed to the fields the editor writes
+const RATIONALE_CONTEXT = {
+  "@language": "en-us",
+  CIP100: CIP100_CONTEXT_URL,
+  CIP136: "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0136/README.md#",
+  hashAlgorithm: "CIP100:hashAlgorithm",
+  body: {
+    "@id": "CIP136:body",
+    "@context": {
+      references: referencesContext("CIP100:references", { RelevantArticles: "CIP136:RelevantArticles" }),
+      summary: "CIP136:summary",
+      rationaleStatement: "CIP136:rationaleStatement",
+      precedentDiscussion: "CIP136:precedentDiscussion",
+      counterargumentDiscussion: "CIP136:counterargumentDiscussion",
+      conclusion: "CIP136:conclusion",
+    },
+  },
+  authors: CIP100_AUTHORS_CONTEXT,
+};
+
+export interface RationaleIssue {
+  /** Field the problem is in, or "document" for the envelope */
+  field: keyof VoteRationale | "document";
+  message: string;
+}
+
+/** Problems that keep a rationale from being a valid CIP-136 document; empty when valid */
+export function validateRationale(rationale: VoteRationale): RationaleIssue[] {
+  const issues: RationaleIssue[] = [];
+  if (!rationale.summary) {
+    issues.push({ field: "summary", message: "A summary is required" });
+  } else if (rationale.summary.length > RATIONALE_SUMMARY_MAX_LENGTH) {
+    issues.push({
+      field: "summary",
+      message: `The summary is ${rationale.summary.length} characters; the limit is ${RATIONALE_SUMMARY_MAX_LENGTH}`,
+    });
+  }
+  if (!rationale.rationaleStatement) {
+    issues.push({ field: "rationaleStatement", message: "A rationale statement is required" });
+  }
+  for (const message of validateReferences(rationale.references, RATIONALE_REFERENCE_TYPES)) {
+    issues.push({ field: "references", message });
+  }
+  return issues;
+}
+
+/**
+ * Builds the CIP-100 envelope around a CIP-136 rationale. Authors are listed
+ * by name only: witnesses need the author's key and are added by signing tools.
+ */
+export function createRationaleDocument(rationale: VoteRationale): JsonObject {
+  const body: JsonObject = {
+    summary: rationale.summary,
+    rationaleStatement: rationale.rationaleStatement,
+    precedentDiscussion: rationale.precedentDiscussion,
+    counterargumentDiscussion: rationale.counterargumentDiscussion,
+    conclusion: rationale.conclusion,
+  };
+  if (rationale.references.length > 0) {
+    body.references = rationale.references.map(({ type, label, uri }) => ({ "@type": type ?? "Other", label, uri }));
+  }
+
+  return {
+    "@context": RATIONALE_CONTEXT,
+    hashAlgorithm: CIP100_HASH_ALGORITHM,
+    authors: rationale.authors.filter((author) => author.name).map(({ name }) => ({ name })),
+    body,
+  };
+}
+
+/**
+ * Checks a rationale document: the CIP-100 envelope, then the CIP-136 body
+ * as read by `parseRationaleDocument`, so it is judged exactly as it will be
+ * rendered.
+ */
+export function validateRationaleDocument(document: unknown): RationaleIssue[] {
+  if (!isObject(document)) return [{ field: "document", message: "The document must be a JSON object" }];
+
+  const issues: RationaleIssue[] = validateCip100Envelope(document).map((message) => ({ field: "document", message }));
+  const rationale = parseRationaleDocument(document);
+  if (!rationale) return [...issues, { field: "document", message: "The document needs a body object" }];
+  return [...issues, ...validateRationale(rationale)];
+}
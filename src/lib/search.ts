@@ -0,0 +1,161 @@
+import { getActionId, parseGovActionReference, type GovActionId } from "@/lib/cip129";
+import type { GovernanceDataSource } from "@/lib/dataSource";
+import type {
+  ActionSearchResult,
+  GovernanceAction,
+  GovernanceActionDetail,
+  RationaleSearchResult,
+  SearchResults,
+  VoteRationale,
+} from "@/types/governance";
+
+export const MIN_QUERY_LENGTH = 2;
+const MAX_RESULTS_PER_GROUP = 8;
+const MAX_INDEXED_RATIONALES = 2000;
+const SNIPPET_CONTEXT = 60;
+// Hash fragments shorter than this match too many unrelated hashes
+const MIN_HASH_FRAGMENT_LENGTH = 6;
+// Shared by every CIP-129 action ID, so it doesn't count toward a fragment's length
+const GOV_ACTION_ID_PREFIX = "gov_action1";
+
+interface IndexedRationale {
+  actionHash: string;
+  text: string;
+}
+
+// Vote rationales the server has resolved, keyed by anchor URL. Documents are
+// only fetched on demand, so search covers rationales someone has opened.
+const rationaleIndex = new Map<string, IndexedRationale>();
+
+async function isVoteAnchor(dataSource: GovernanceDataSource, actionHash: string, anchorUrl: string) {
+  const votes = await Promise.all([
+    dataSource.getVotes(actionHash),
+    dataSource.getSpoVotes(actionHash),
+    dataSource.getCommitteeVotes(actionHash),
+  ]);
+  return votes.some((records) => records?.some((vote) => vote.anchorUrl === anchorUrl));
+}
+
+/**
+ * Adds a resolved vote rationale to the search index. The anchor must belong
+ * to a vote on the action, so callers can't attach arbitrary documents to it.
+ */
+export async function indexRationale(
+  dataSource: GovernanceDataSource,
+  anchorUrl: string,
+  actionHash: string,
+  rationale: VoteRationale
+): Promise<void> {
+  const text = [
+    rationale.summary,
+    rationale.rationaleStatement,
+    rationale.precedentDiscussion,
+    rationale.counterargumentDiscussion,
+    rationale.conclusion,
+    rationale.comment,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  if (!text || !(await isVoteAnchor(dataSource, actionHash, anchorUrl))) return;
+
+  rationaleIndex.delete(anchorUrl);
+  rationaleIndex.set(anchorUrl, { actionHash, text });
+  // Drop the oldest entry; Map iterates in insertion order
+  if (rationaleIndex.size > MAX_INDEXED_RATIONALES) {
+    rationaleIndex.delete(rationaleIndex.keys().next().value!);
+  }
+}
+
+function getSnippet(text: string, needle: string): string | undefined {
+  const at = text.toLowerCase().indexOf(needle);
+  if (at === -1) return undefined;
+
+  const start = Math.max(0, at - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, at + needle.length + SNIPPET_CONTEXT);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+function toResult(
+  action: GovernanceAction,
+  matchedField: ActionSearchResult["matchedField"],
+  snippet?: string
+): ActionSearchResult {
+  const { hash, index, title, type, status } = action;
+  return { hash, index, title, type, status, matchedField, snippet };
+}
+
+function matchAction(
+  action: GovernanceActionDetail,
+  reference: GovActionId | null,
+  needle: string
+): ActionSearchResult | null {
+  if (reference) {
+    const sameAction = action.hash === reference.txHash && (action.index ?? 0) === reference.index;
+    return sameAction ? toResult(action, "id") : null;
+  }
+
+  if (needle.length >= MIN_HASH_FRAGMENT_LENGTH && action.hash.toLowerCase().includes(needle)) {
+    return toResult(action, "hash");
+  }
+  // Proposals after the first in their transaction are known by their CIP-129 ID
+  const actionId = getActionId(action);
+  const idFragment = needle.startsWith(GOV_ACTION_ID_PREFIX) ? needle.slice(GOV_ACTION_ID_PREFIX.length) : needle;
+  if (actionId !== action.hash && idFragment.length >= MIN_HASH_FRAGMENT_LENGTH && actionId.includes(needle)) {
+    return toResult(action, "id");
+  }
+  if (action.title.toLowerCase().includes(needle)) return toResult(action, "title");
+
+  const description = action.description && getSnippet(action.description, needle);
+  if (description) return toResult(action, "description", description);
+
+  const rationale = action.rationale && getSnippet(action.rationale, needle);
+  if (rationale) return toResult(action, "rationale", rationale);
+  return null;
+}
+
+const FIELD_RANK: Record<ActionSearchResult["matchedField"], number> = {
+  id: 0,
+  hash: 1,
+  title: 2,
+  description: 3,
+  rationale: 4,
+};
+
+/**
+ * Matches a query against action titles, descriptions and hashes (including
+ * CIP-129 IDs), DRep names and IDs, and the vote rationales indexed so far.
+ */
+export async function searchGovernance(dataSource: GovernanceDataSource, query: string): Promise<SearchResults> {
+  const trimmed = query.trim();
+  if (trimmed.length < MIN_QUERY_LENGTH) return { actions: [], dreps: [], rationales: [] };
+  const needle = trimmed.toLowerCase();
+
+  const [actions, dreps] = await Promise.all([dataSource.getActions(), dataSource.getDReps()]);
+  const details = await Promise.all(actions.map((action) => dataSource.getAction(getActionId(action))));
+  const reference = parseGovActionReference(trimmed);
+
+  const actionResults = details
+    .flatMap((detail) => {
+      const result = detail && matchAction(detail, reference, needle);
+      return result ? [result] : [];
+    })
+    .sort((a, b) => FIELD_RANK[a.matchedField] - FIELD_RANK[b.matchedField])
+    .slice(0, MAX_RESULTS_PER_GROUP);
+
+  const drepResults = dreps
+    .filter((drep) => drep.drepId.toLowerCase().includes(needle) || drep.name?.toLowerCase().includes(needle))
+    .slice(0, MAX_RESULTS_PER_GROUP);
+
+  const titleByHash = new Map(actions.map((action) => [getActionId(action), action.title]));
+  const rationaleResults: RationaleSearchResult[] = [];
+  for (const [anchorUrl, { actionHash, text }] of rationaleIndex) {
+    const actionTitle = titleByHash.get(actionHash);
+    const snippet = actionTitle && getSnippet(text, needle);
+    if (!snippet) continue;
+    rationaleResults.push({ anchorUrl, actionHash, actionTitle, snippet });
+    if (rationaleResults.length === MAX_RESULTS_PER_GROUP) break;
+  }
+
+  return { actions: actionResults, dreps: drepResults, rationales: rationaleResults };
+}
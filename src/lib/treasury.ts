@@ -0,0 +1,133 @@
+import { dateToEpoch, epochStartDate, getCurrentEpoch } from "@/lib/cardanoTime";
+import { getActionId } from "@/lib/cip129";
+import type {
+  GovernanceAction,
+  NCLData,
+  NCLPeriod,
+  NCLPeriodUsage,
+  TreasuryWithdrawalRecord,
+  TreasuryWithdrawalStage,
+} from "@/types/governance";
+
+export const TREASURY_WITHDRAWAL_STAGE_LABELS: Record<TreasuryWithdrawalStage, string> = {
+  Enacted: "Enacted",
+  Ratified: "Ratified, awaiting enactment",
+  Pending: "Pending vote",
+  Lapsed: "Expired or dropped",
+};
+
+function getStage(action: GovernanceAction): TreasuryWithdrawalStage {
+  switch (action.status) {
+    case "Approved":
+      return "Enacted";
+    case "Ratified":
+      return "Ratified";
+    case "Active":
+      return "Pending";
+    case "Expired":
+    case "Not approved":
+      return "Lapsed";
+  }
+}
+
+/**
+ * One record per recipient of every Treasury Withdrawals action, newest
+ * proposal first. Other action types are skipped.
+ */
+export function extractTreasuryWithdrawals(actions: GovernanceAction[]): TreasuryWithdrawalRecord[] {
+  return actions
+    .flatMap((action) =>
+      action.type !== "TreasuryWithdrawals"
+        ? []
+        : action.withdrawals.map((withdrawal) => ({
+            ...withdrawal,
+            actionHash: getActionId(action),
+            actionTitle: action.title,
+            stage: getStage(action),
+            submissionEpoch: action.submissionEpoch,
+            ratifiedEpoch: action.ratifiedEpoch,
+            enactedEpoch: action.enactedEpoch,
+          }))
+    )
+    .sort((a, b) => b.submissionEpoch - a.submissionEpoch);
+}
+
+/** First epoch that starts in the given calendar year (UTC) */
+function firstEpochOfYear(year: number): number {
+  const epoch = dateToEpoch(new Date(Date.UTC(year, 0, 1)));
+  return epochStartDate(epoch).getUTCFullYear() === year ? epoch : epoch + 1;
+}
+
+/** A limit covering the epochs that start within one calendar year */
+export function getCalendarYearNCLPeriod(year: number, limitAda: number): NCLPeriod {
+  return { startEpoch: firstEpochOfYear(year), endEpoch: firstEpochOfYear(year + 1) - 1, limitAda };
+}
+
+/**
+ * Parses periods written as comma-separated "startEpoch-endEpoch:limitAda"
+ * entries, e.g. "532-612:350000000,613-685:300000000".
+ */
+export function parseNCLPeriods(value: string): NCLPeriod[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^(\d+)-(\d+):(\d+(?:\.\d+)?)$/.exec(entry);
+      if (!match || Number(match[1]) > Number(match[2])) {
+        throw new Error(`Invalid Net Change Limit period "${entry}", expected "startEpoch-endEpoch:limitAda"`);
+      }
+      return { startEpoch: Number(match[1]), endEpoch: Number(match[2]), limitAda: Number(match[3]) };
+    });
+}
+
+export const getNCLPeriodLabel = (period: NCLPeriod): string => `Epochs ${period.startEpoch}–${period.endEpoch}`;
+
+/**
+ * Epoch a withdrawal is paid out in: its enactment epoch, or the boundary
+ * after ratification for ratified ones. Undefined when it hasn't passed.
+ */
+function getWithdrawalEpoch(withdrawal: TreasuryWithdrawalRecord): number | undefined {
+  if (withdrawal.stage === "Enacted") return withdrawal.enactedEpoch;
+  if (withdrawal.stage === "Ratified" && withdrawal.ratifiedEpoch !== undefined) return withdrawal.ratifiedEpoch + 1;
+  return undefined;
+}
+
+/** True when the withdrawal was, or is about to be, paid out within the period */
+export function countsAgainstNCL(withdrawal: TreasuryWithdrawalRecord, period: NCLPeriod): boolean {
+  const epoch = getWithdrawalEpoch(withdrawal);
+  return epoch !== undefined && epoch >= period.startEpoch && epoch <= period.endEpoch;
+}
+
+/**
+ * Enacted and ratified totals for every period. Pending withdrawals are
+ * projected onto the period covering `currentEpoch`; there is no current
+ * period between or after the configured ones.
+ */
+export function computeNCLData(
+  periods: NCLPeriod[],
+  withdrawals: TreasuryWithdrawalRecord[],
+  currentEpoch: number = getCurrentEpoch()
+): NCLData {
+  const total = (period: NCLPeriod, stage: TreasuryWithdrawalStage) =>
+    withdrawals
+      .filter((w) => w.stage === stage && countsAgainstNCL(w, period))
+      .reduce((sum, w) => sum + w.amountAda, 0);
+  const pendingAda = withdrawals.filter((w) => w.stage === "Pending").reduce((sum, w) => sum + w.amountAda, 0);
+
+  const sorted = [...periods].sort((a, b) => a.startEpoch - b.startEpoch);
+  const current = sorted.find((period) => period.startEpoch <= currentEpoch && period.endEpoch >= currentEpoch);
+  const usage = sorted.map((period): NCLPeriodUsage => ({
+    ...period,
+    enactedAda: total(period, "Enacted"),
+    ratifiedAda: total(period, "Ratified"),
+    pendingAda: period === current ? pendingAda : 0,
+  }));
+
+  return { periods: usage, current: current ? usage[sorted.indexOf(current)] : null };
+}
+
+/** ADA the period would reach if every ratified and pending withdrawal went through */
+export function getProjectedNCLValue(period: NCLPeriodUsage): number {
+  return period.enactedAda + period.ratifiedAda + period.pendingAda;
+}
@@ -0,0 +1,110 @@
+import { getActionId } from "@/lib/cip129";
+import { getDRepParticipation } from "@/lib/drep";
+import { mapWithConcurrency } from "@/lib/utils";
+import type { GovernanceDataSource } from "@/lib/dataSource";
+import type {
+  ActionTurnout,
+  DRepSummary,
+  GovernanceAction,
+  ParticipationReport,
+  PredefinedDRepStake,
+  VoteRecord,
+} from "@/types/governance";
+
+// Vote lists are loaded a few actions at a time so a long action list doesn't flood the data source
+const VOTE_LIST_CONCURRENCY = 4;
+
+const sumStake = (items: { votingPowerAda: number }[]) => items.reduce((sum, item) => sum + item.votingPowerAda, 0);
+
+/**
+ * DRep turnout on one action, following the CIP-1694 DRep tally: inactive
+ * DReps are left out, active stake that didn't vote counts as No, Always No
+ * Confidence is added to the denominator and Abstain votes and Always Abstain
+ * are taken out of it. DReps that are not voters are weighed by the registry
+ * passed in, i.e. today's voting power.
+ */
+export function computeActionTurnout(
+  actionHash: string,
+  votes: VoteRecord[],
+  dreps: DRepSummary[],
+  predefined: PredefinedDRepStake
+): ActionTurnout {
+  const voterIds = new Set(votes.map((vote) => vote.drepId));
+  const silent = dreps.filter((drep) => drep.status === "Active" && !voterIds.has(drep.drepId));
+
+  const yesAda = sumStake(votes.filter((vote) => vote.vote === "Yes"));
+  const noAda = sumStake(votes.filter((vote) => vote.vote === "No"));
+  const abstainAda = sumStake(votes.filter((vote) => vote.vote === "Abstain"));
+  const nonVotingAda = sumStake(silent);
+  const votedAda = yesAda + noAda + abstainAda;
+  const activeStakeAda = votedAda + nonVotingAda;
+
+  return {
+    actionHash,
+    activeStakeAda,
+    activeDRepCount: votes.length + silent.length,
+    voterCount: votes.length,
+    yesAda,
+    noAda,
+    abstainAda,
+    nonVotingAda,
+    turnoutPercent: activeStakeAda > 0 ? (votedAda / activeStakeAda) * 100 : 0,
+    alwaysAbstainAda: predefined.alwaysAbstainAda,
+    alwaysNoConfidenceAda: predefined.alwaysNoConfidenceAda,
+    denominatorAda: activeStakeAda + predefined.alwaysNoConfidenceAda - abstainAda,
+  };
+}
+
+/** Turnout on every action and each DRep's participation rate across them */
+export function buildParticipationReport(
+  actions: GovernanceAction[],
+  votesByAction: Map<string, VoteRecord[]>,
+  dreps: DRepSummary[],
+  predefined: PredefinedDRepStake
+): ParticipationReport {
+  const votedActions = new Map<string, { actionHash: string }[]>();
+  for (const [actionHash, votes] of votesByAction) {
+    for (const vote of votes) {
+      const voted = votedActions.get(vote.drepId) ?? [];
+      voted.push({ actionHash });
+      votedActions.set(vote.drepId, voted);
+    }
+  }
+
+  return {
+    predefined,
+    actions: [...actions]
+      .sort((a, b) => b.submissionEpoch - a.submissionEpoch)
+      .map((action) => ({
+        ...computeActionTurnout(getActionId(action), votesByAction.get(getActionId(action)) ?? [], dreps, predefined),
+        title: action.title,
+        type: action.type,
+        status: action.status,
+        submissionEpoch: action.submissionEpoch,
+      })),
+    dreps: dreps
+      .map((drep) => ({ ...drep, ...getDRepParticipation(drep, votedActions.get(drep.drepId) ?? [], actions) }))
+      .filter((drep) => drep.eligible !== 0)
+      // DReps with an unknown rate go last
+      .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1) || b.voted - a.voted || b.votingPowerAda - a.votingPowerAda),
+  };
+}
+
+/**
+ * Loads every action's DRep votes to build the participation report. Data
+ * sources share one DRep lookup across vote lists, so this costs one vote
+ * query per action.
+ */
+export async function getParticipationReport(dataSource: GovernanceDataSource): Promise<ParticipationReport> {
+  const [actions, dreps, predefined] = await Promise.all([
+    dataSource.getActions(),
+    dataSource.getDReps(),
+    dataSource.getPredefinedDRepStake(),
+  ]);
+  const votes = await mapWithConcurrency(actions, VOTE_LIST_CONCURRENCY, (action) =>
+    dataSource.getVotes(getActionId(action))
+  );
+  const votesByAction = new Map(actions.map((action, i) => [getActionId(action), votes[i] ?? []]));
+
+  return buildParticipationReport(actions, votesByAction, dreps, predefined);
+}
@@ -0,0 +1,162 @@
+import type { ParsedUrlQuery } from "querystring";
+import type { SortDirection, SpoVoteRecord, VotePage, VoteRecord, VoteSortKey, VoteType } from "@/types/governance";
+
+export const DEFAULT_VOTE_PAGE_SIZE = 100;
+export const MAX_VOTE_PAGE_SIZE = 500;
+
+export class InvalidCursorError extends Error {
+  constructor(message = "Invalid or expired cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+interface PageableVote {
+  vote: VoteRecord["vote"];
+  votedAt: string;
+}
+
+/** How to identify, weigh and search one kind of vote record */
+export interface VoteFields<T extends PageableVote> {
+  id: (vote: T) => string;
+  power: (vote: T) => number;
+  searchable: (vote: T) => (string | undefined)[];
+}
+
+export const DREP_VOTE_FIELDS: VoteFields<VoteRecord> = {
+  id: (vote) => vote.drepId,
+  power: (vote) => vote.votingPowerAda,
+  searchable: (vote) => [vote.drepName, vote.drepId],
+};
+
+export const SPO_VOTE_FIELDS: VoteFields<SpoVoteRecord> = {
+  id: (vote) => vote.poolId,
+  power: (vote) => vote.activeStakeAda,
+  searchable: (vote) => [vote.poolName, vote.ticker, vote.poolId],
+};
+
+/** Which of an action's votes to return, and in what order */
+export interface VoteSelection {
+  query?: string;
+  vote?: VoteType;
+  sortBy: VoteSortKey;
+  direction: SortDirection;
+}
+
+export interface VotePageParams extends VoteSelection {
+  limit: number;
+  cursor?: string;
+}
+
+const VOTE_TYPES: VoteType[] = ["All", "Yes", "No", "Abstain"];
+
+/** Reads `q`, `vote`, `sort` and `dir`; returns an error message for invalid values */
+export function parseVoteSelection(params: ParsedUrlQuery): VoteSelection | string {
+  const param = (name: string) => (typeof params[name] === "string" ? (params[name] as string) : undefined);
+
+  const vote = VOTE_TYPES.find((type) => type.toLowerCase() === (param("vote") ?? "all").toLowerCase());
+  if (!vote) return `Unknown vote "${param("vote")}"`;
+  const sortBy = param("sort") ?? "power";
+  if (sortBy !== "power" && sortBy !== "time") return `Unknown sort "${sortBy}"`;
+  const direction = param("dir") ?? "desc";
+  if (direction !== "asc" && direction !== "desc") return `Unknown direction "${direction}"`;
+
+  return { query: param("q"), vote, sortBy, direction };
+}
+
+/** Position after the last returned vote, bound to the sort it was issued for */
+interface Cursor {
+  sortBy: VoteSortKey;
+  direction: SortDirection;
+  value: number;
+  id: string;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(encoded: string, sortBy: VoteSortKey, direction: SortDirection): Cursor {
+  let cursor: Partial<Cursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (typeof cursor.value !== "number" || typeof cursor.id !== "string") throw new InvalidCursorError();
+  if (cursor.sortBy !== sortBy || cursor.direction !== direction) {
+    throw new InvalidCursorError("Cursor was issued for a different sort order");
+  }
+  return cursor as Cursor;
+}
+
+interface RankedVote<T> {
+  record: T;
+  value: number;
+  id: string;
+}
+
+function compareRanked(a: Pick<RankedVote<unknown>, "value" | "id">, b: Pick<Cursor, "value" | "id">, sign: number) {
+  return (a.value - b.value || a.id.localeCompare(b.id)) * sign;
+}
+
+function rankVotes<T extends PageableVote>(
+  votes: T[],
+  fields: VoteFields<T>,
+  { query, vote, sortBy, direction }: VoteSelection
+): RankedVote<T>[] {
+  const sortValue = sortBy === "power" ? fields.power : (v: T) => new Date(v.votedAt).getTime();
+  const sign = direction === "asc" ? 1 : -1;
+  const needle = query?.trim().toLowerCase() ?? "";
+
+  return votes
+    .filter(
+      (v) =>
+        (!vote || vote === "All" || v.vote === vote) &&
+        (needle === "" || fields.searchable(v).some((field) => field?.toLowerCase().includes(needle)))
+    )
+    .map((v) => ({ record: v, value: sortValue(v), id: fields.id(v) }))
+    .sort((a, b) => compareRanked(a, b, sign));
+}
+
+/** Every vote matching the selection, in its sort order (voter id breaks ties) */
+export function selectVotes<T extends PageableVote>(votes: T[], fields: VoteFields<T>, selection: VoteSelection): T[] {
+  return rankVotes(votes, fields, selection).map((entry) => entry.record);
+}
+
+/**
+ * Filters, sorts and slices an action's votes. Cursors point at the last
+ * vote of the previous page (sort value plus voter id as tie-breaker), so
+ * votes arriving between requests don't shift or repeat rows.
+ */
+export function paginateVotes<T extends PageableVote>(
+  votes: T[],
+  fields: VoteFields<T>,
+  { limit, cursor, ...selection }: VotePageParams
+): VotePage<T> {
+  const { sortBy, direction } = selection;
+  const matching = rankVotes(votes, fields, selection);
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor, sortBy, direction);
+    const sign = direction === "asc" ? 1 : -1;
+    start = matching.findIndex((entry) => compareRanked(entry, after, sign) > 0);
+    if (start === -1) start = matching.length;
+  }
+
+  const page = matching.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < matching.length;
+
+  return {
+    items: page.map((entry) => entry.record),
+    total: matching.length,
+    tally: {
+      yes: votes.filter((v) => v.vote === "Yes").length,
+      no: votes.filter((v) => v.vote === "No").length,
+      abstain: votes.filter((v) => v.vote === "Abstain").length,
+    },
+    nextCursor: hasMore && last ? encodeCursor({ sortBy, direction, value: last.value, id: last.id }) : null,
+  };
+}
@@ -0,0 +1,118 @@
+import { addDays, format, startOfDay } from "date-fns";
+import { dateToEpoch } from "@/lib/cardanoTime";
+import type { ActionTurnout, VoteRecord } from "@/types/governance";
+
+export type TimelineGranularity = "day" | "epoch";
+
+export interface VoteTimelinePoint {
+  /** Epoch number, or the start of the day in ms */
+  key: number;
+  label: string;
+  /** Cumulative stake behind each vote up to and including this bucket */
+  yesAda: number;
+  noAda: number;
+  abstainAda: number;
+  /** Cumulative Yes share of the DRep denominator in percent, null without a stake base */
+  yesPercent: number | null;
+  /** Large votes cast in this bucket */
+  largeVotes: VoteRecord[];
+}
+
+/**
+ * What the DRep Yes share is measured against under CIP-1694: all active
+ * stake, voted or not, plus Always No Confidence, less Abstain votes so far
+ */
+export interface DRepStakeBase {
+  activeStakeAda: ActionTurnout["activeStakeAda"];
+  alwaysNoConfidenceAda: ActionTurnout["alwaysNoConfidenceAda"];
+  /** Always No Confidence counts as Yes on motions of no confidence */
+  noConfidenceIsYes: boolean;
+}
+
+export interface VoteTimeline {
+  points: VoteTimelinePoint[];
+  /** The vote after which the Yes share last rose to the threshold, if it ends above it */
+  tippingVote: VoteRecord | null;
+}
+
+/** Votes with at least this share of the total voting stake are marked on the timeline */
+export const LARGE_VOTE_SHARE = 0.02;
+
+function getBucketKey(date: Date, granularity: TimelineGranularity): number {
+  return granularity === "epoch" ? dateToEpoch(date) : startOfDay(date).getTime();
+}
+
+function getNextBucketKey(key: number, granularity: TimelineGranularity): number {
+  return granularity === "epoch" ? key + 1 : addDays(key, 1).getTime();
+}
+
+function getBucketLabel(key: number, granularity: TimelineGranularity): string {
+  return granularity === "epoch" ? `Epoch ${key}` : format(key, "MMM d");
+}
+
+function getYesPercent(totals: Record<VoteRecord["vote"], number>, base: DRepStakeBase | null): number | null {
+  if (!base) return null;
+  const yesAda = totals.Yes + (base.noConfidenceIsYes ? base.alwaysNoConfidenceAda : 0);
+  const denominatorAda = base.activeStakeAda + base.alwaysNoConfidenceAda - totals.Abstain;
+  return denominatorAda > 0 ? (yesAda / denominatorAda) * 100 : null;
+}
+
+/**
+ * Builds cumulative Yes/No/Abstain stake per day or epoch from DRep votes.
+ * Empty buckets between the first and last vote are filled in so the axis
+ * stays proportional to time. `threshold` is the Yes share in percent; the
+ * Yes share and tipping vote need `base`, as stake that hasn't voted counts
+ * against the threshold too.
+ */
+export function buildVoteTimeline(
+  votes: VoteRecord[],
+  granularity: TimelineGranularity,
+  threshold: number | null = null,
+  base: DRepStakeBase | null = null
+): VoteTimeline {
+  const sorted = [...votes].sort((a, b) => new Date(a.votedAt).getTime() - new Date(b.votedAt).getTime());
+  if (sorted.length === 0) return { points: [], tippingVote: null };
+
+  const totalAda = sorted.reduce((sum, vote) => sum + vote.votingPowerAda, 0);
+  const byBucket = new Map<number, VoteRecord[]>();
+  for (const vote of sorted) {
+    const key = getBucketKey(new Date(vote.votedAt), granularity);
+    byBucket.set(key, [...(byBucket.get(key) ?? []), vote]);
+  }
+
+  const points: VoteTimelinePoint[] = [];
+  const totals: Record<VoteRecord["vote"], number> = { Yes: 0, No: 0, Abstain: 0 };
+  let tippingVote: VoteRecord | null = null;
+  let above = false;
+
+  const lastKey = getBucketKey(new Date(sorted[sorted.length - 1].votedAt), granularity);
+  for (
+    let key = getBucketKey(new Date(sorted[0].votedAt), granularity);
+    key <= lastKey;
+    key = getNextBucketKey(key, granularity)
+  ) {
+    const bucketVotes = byBucket.get(key) ?? [];
+    for (const vote of bucketVotes) {
+      totals[vote.vote] += vote.votingPowerAda;
+      if (threshold === null) continue;
+
+      const yesPercent = getYesPercent(totals, base);
+      const nowAbove = yesPercent !== null && yesPercent >= threshold;
+      if (nowAbove && !above) tippingVote = vote;
+      if (!nowAbove) tippingVote = null;
+      above = nowAbove;
+    }
+
+    points.push({
+      key,
+      label: getBucketLabel(key, granularity),
+      yesAda: totals.Yes,
+      noAda: totals.No,
+      abstainAda: totals.Abstain,
+      yesPercent: getYesPercent(totals, base),
+      largeVotes: bucketVotes.filter((vote) => totalAda > 0 && vote.votingPowerAda / totalAda >= LARGE_VOTE_SHARE),
+    });
+  }
+
+  return { points, tippingVote };
+}
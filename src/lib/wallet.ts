@@ -0,0 +1,111 @@
+import { BrowserWallet, type UTxO } from "@meshsdk/core";
+
+/**
+ * The part of a CIP-30 wallet injected at `window.cardano[id]` that the app
+ * relies on. Any object of this shape works, including a test double.
+ */
+export interface Cip30Wallet {
+  name: string;
+  icon: string;
+  apiVersion: string;
+  isEnabled(): Promise<boolean>;
+  enable(options?: { extensions: { cip: number }[] }): Promise<{ getRewardAddresses(): Promise<string[]> }>;
+}
+
+export interface InstalledWallet {
+  /** Key under `window.cardano` */
+  id: string;
+  name: string;
+  icon: string;
+}
+
+export class WalletConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WalletConnectionError";
+  }
+}
+
+const LAST_WALLET_KEY = "cgov:wallet";
+
+// The enabled wallet API, kept for signing; only one wallet is connected at a time
+let connected: BrowserWallet | null = null;
+
+function getInjectedWallet(walletId: string): Cip30Wallet | undefined {
+  // Mesh types `window.cardano` without the CIP-30 `isEnabled` method
+  return (window.cardano as unknown as Record<string, Cip30Wallet> | undefined)?.[walletId];
+}
+
+export function getInstalledWallets(): InstalledWallet[] {
+  return BrowserWallet.getInstalledWallets().map(({ id, name, icon }) => ({ id, name, icon }));
+}
+
+/**
+ * Asks the wallet for access and returns the bech32 stake address of its
+ * account. CIP-95 is requested as well so a DRep can vote; wallets without it
+ * still connect.
+ */
+export async function connectWallet(walletId: string): Promise<string> {
+  let stakeAddress: string | undefined;
+  try {
+    const wallet = await BrowserWallet.enable(walletId, [{ cip: 95 }]);
+    [stakeAddress] = await wallet.getRewardAddresses();
+    connected = wallet;
+  } catch (error) {
+    throw new WalletConnectionError(
+      error instanceof Error ? error.message : `Could not connect to ${walletId}: access was refused`
+    );
+  }
+  if (!stakeAddress) throw new WalletConnectionError("The wallet did not return a stake address");
+
+  localStorage.setItem(LAST_WALLET_KEY, walletId);
+  return stakeAddress;
+}
+
+/** The previously connected wallet, when it still grants access without prompting */
+export async function getAuthorizedWallet(): Promise<string | null> {
+  const walletId = localStorage.getItem(LAST_WALLET_KEY);
+  if (!walletId) return null;
+  try {
+    return (await getInjectedWallet(walletId)?.isEnabled()) ? walletId : null;
+  } catch {
+    return null;
+  }
+}
+
+export function forgetWallet(): void {
+  connected = null;
+  localStorage.removeItem(LAST_WALLET_KEY);
+}
+
+function requireWallet(): BrowserWallet {
+  if (!connected) throw new WalletConnectionError("No wallet is connected");
+  return connected;
+}
+
+/** The CIP-105 DRep ID of the connected account, or null when the wallet lacks CIP-95 */
+export async function getWalletDRepId(): Promise<string | null> {
+  const drep = await requireWallet().getDRep();
+  return drep?.dRepIDCip105 ?? null;
+}
+
+/** UTxOs and change address to balance a transaction with */
+export async function getWalletTxInputs(): Promise<{ utxos: UTxO[]; changeAddress: string }> {
+  const wallet = requireWallet();
+  const [utxos, changeAddress] = await Promise.all([wallet.getUtxos(), wallet.getChangeAddress()]);
+  return { utxos, changeAddress };
+}
+
+/** Has the wallet sign (prompting the user) and submit the transaction; resolves to its hash */
+export async function signAndSubmit(unsignedTx: string): Promise<string> {
+  const wallet = requireWallet();
+  try {
+    // A CIP-95 wallet adds the DRep key witness alongside the payment key's
+    const signedTx = await wallet.signTx(unsignedTx);
+    return await wallet.submitTx(signedTx);
+  } catch (error) {
+    throw new WalletConnectionError(
+      error instanceof Error ? error.message : "The wallet declined to sign or submit the transaction"
+    );
+  }
+}
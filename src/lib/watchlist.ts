@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import { getActionId } from "@/lib/cip129";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { loadWatchlist, markSeen } from "@/store/watchlistSlice";
+import type { WatchableDRep } from "@/store/watchlistSlice";
+import type { ActionSnapshot, DRepSnapshot, GovernanceAction, Watchlist } from "@/types/governance";
+
+const WATCHLIST_KEY = "cgov:watchlist";
+
+const EMPTY_WATCHLIST: Watchlist = { actions: {}, dreps: {} };
+
+// Yes shares move by fractions of a point as stake shifts; smaller moves aren't worth flagging
+const MIN_TALLY_MOVEMENT = 0.1;
+
+function formatCompactAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(ada);
+}
+
+const signed = (value: string, delta: number) => (delta > 0 ? `+${value}` : value);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+function readWatchlist(): Watchlist {
+  try {
+    const saved = localStorage.getItem(WATCHLIST_KEY);
+    return saved ? { ...EMPTY_WATCHLIST, ...(JSON.parse(saved) as Partial<Watchlist>) } : EMPTY_WATCHLIST;
+  } catch {
+    return EMPTY_WATCHLIST;
+  }
+}
+
+/** What changed on an action since it was last seen: new votes, status, and Yes share movement */
+export function getActionChanges(seen: ActionSnapshot, action: GovernanceAction): string[] {
+  const changes: string[] = [];
+  if (action.status !== seen.status) changes.push(`${seen.status} → ${action.status}`);
+
+  const newVotes =
+    action.totalYes + action.totalNo + action.totalAbstain - (seen.totalYes + seen.totalNo + seen.totalAbstain);
+  if (newVotes > 0) changes.push(`+${plural(newVotes, "vote")}`);
+
+  const drepDelta = action.drepYesPercent - seen.drepYesPercent;
+  if (Math.abs(drepDelta) >= MIN_TALLY_MOVEMENT) {
+    changes.push(`DRep Yes ${signed(drepDelta.toFixed(1), drepDelta)} pts`);
+  }
+  if (action.spoYesPercent !== undefined && seen.spoYesPercent !== undefined) {
+    const spoDelta = action.spoYesPercent - seen.spoYesPercent;
+    if (Math.abs(spoDelta) >= MIN_TALLY_MOVEMENT) {
+      changes.push(`SPO Yes ${signed(spoDelta.toFixed(1), spoDelta)} pts`);
+    }
+  }
+  return changes;
+}
+
+/** What changed on a DRep since it was last seen: new votes, status, and voting power */
+export function getDRepChanges(seen: DRepSnapshot, drep: WatchableDRep): string[] {
+  const changes: string[] = [];
+  if (drep.status !== seen.status) changes.push(`${seen.status} → ${drep.status}`);
+
+  if (drep.voteCount !== undefined && seen.voteCount !== undefined && drep.voteCount > seen.voteCount) {
+    changes.push(`+${plural(drep.voteCount - seen.voteCount, "vote")}`);
+  }
+
+  const powerDelta = drep.votingPowerAda - seen.votingPowerAda;
+  if (Math.abs(powerDelta) >= 1) {
+    changes.push(`Voting power ${signed(formatCompactAda(powerDelta), powerDelta)} ₳`);
+  }
+  return changes;
+}
+
+/**
+ * Reads the watchlist from localStorage after hydration and writes every
+ * change back. Edits made in other tabs are picked up as they happen.
+ */
+export function useWatchlistStorage(): void {
+  const dispatch = useAppDispatch();
+  const { loaded, actions, dreps } = useAppSelector((state) => state.watchlist);
+
+  useEffect(() => {
+    dispatch(loadWatchlist(readWatchlist()));
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === WATCHLIST_KEY) dispatch(loadWatchlist(readWatchlist()));
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(WATCHLIST_KEY, JSON.stringify({ actions, dreps }));
+  }, [loaded, actions, dreps]);
+}
+
+/**
+ * Marks a watched action as seen once it has loaded, returning what changed
+ * since the previous visit. Empty for unwatched actions.
+ */
+export function useActionVisit(action: GovernanceAction | null): string[] {
+  const dispatch = useAppDispatch();
+  const { loaded, actions } = useAppSelector((state) => state.watchlist);
+  const visited = useRef<string | null>(null);
+  const [changes, setChanges] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!action || !loaded || visited.current === getActionId(action)) return;
+    visited.current = getActionId(action);
+    const watched = actions[visited.current];
+    setChanges(watched ? getActionChanges(watched.seen, action) : []);
+    if (watched) dispatch(markSeen({ actions: [action] }));
+  }, [action, loaded, actions, dispatch]);
+
+  return changes;
+}
+
+/** The DRep counterpart of `useActionVisit` */
+export function useDRepVisit(drep: WatchableDRep | null): string[] {
+  const dispatch = useAppDispatch();
+  const { loaded, dreps } = useAppSelector((state) => state.watchlist);
+  const visited = useRef<string | null>(null);
+  const [changes, setChanges] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!drep || !loaded || visited.current === drep.drepId) return;
+    visited.current = drep.drepId;
+    const watched = dreps[drep.drepId];
+    setChanges(watched ? getDRepChanges(watched.seen, drep) : []);
+    if (watched) dispatch(markSeen({ dreps: [drep] }));
+  }, [drep, loaded, dreps, dispatch]);
+
+  return changes;
+}
@@ -3,13 +3,45 @@ import type { AppProps } from "next/app";
 import { Provider } from "react-redux";
 import { store } from "@/store";
 import Head from "next/head";
+import Link from "next/link";
+import { WalletConnect } from "@/components/WalletConnect";
+import { useWatchlistStorage } from "@/lib/watchlist";
+
+// Hooks need the store, which is provided below the App component
+function WatchlistStorage() {
+  useWatchlistStorage();
+  return null;
+}
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
     <Provider store={store}>
+      <WatchlistStorage />
       <Head>
         <link rel="icon" href="/favicon.ico?v=2" />
       </Head>
+      <div className="border-b border-border/50 bg-background">
+        <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-4">
+          <nav className="flex gap-4 text-sm text-muted-foreground">
+            <Link href="/" className="hover:text-foreground">
+              Actions
+            </Link>
+            <Link href="/dreps" className="hover:text-foreground">
+              DReps
+            </Link>
+            <Link href="/participation" className="hover:text-foreground">
+              Participation
+            </Link>
+            <Link href="/rationale" className="hover:text-foreground">
+              Rationale editor
+            </Link>
+            <Link href="/proposals/new" className="hover:text-foreground">
+              New proposal
+            </Link>
+          </nav>
+          <WalletConnect />
+        </div>
+      </div>
       <Component {...pageProps} />
     </Provider>
   );
@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { AnchorError, fetchAnchorDocument, type AnchorErrorReason } from "@/lib/anchors";
+import { getDataSource } from "@/lib/dataSource";
+import { parseRationaleDocument } from "@/lib/rationale";
+import { indexRationale } from "@/lib/search";
+import type { VoteRationale } from "@/types/governance";
+
+type ResponseData = VoteRationale | { error: string };
+
+const ERROR_STATUS: Record<AnchorErrorReason, number> = {
+  unsupported: 400,
+  unreachable: 502,
+  "too-large": 502,
+  malformed: 422,
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const url = req.query.url;
+  if (typeof url !== "string" || url === "") {
+    return res.status(400).json({ error: "Missing anchor url" });
+  }
+
+  try {
+    const rationale = parseRationaleDocument(await fetchAnchorDocument(url));
+    if (!rationale) {
+      return res.status(422).json({ error: "Anchor document is not a CIP-100 document (no body)" });
+    }
+    // Makes the rationale findable from the global search
+    if (typeof req.query.action === "string") {
+      await indexRationale(getDataSource(), url, req.query.action, rationale).catch((error) =>
+        console.error(`Failed to index rationale ${url}`, error)
+      );
+    }
+    // Anchored documents are immutable, so let browsers and CDNs keep them
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    res.status(200).json(rationale);
+  } catch (error) {
+    if (error instanceof AnchorError) {
+      return res.status(ERROR_STATUS[error.reason]).json({ error: error.message });
+    }
+    console.error(`Failed to resolve anchor ${url}`, error);
+    res.status(500).json({ error: "Failed to resolve anchor" });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { verifyAnchor } from "@/lib/anchors";
+import type { AnchorVerification } from "@/types/governance";
+
+type ResponseData = AnchorVerification | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { url, hash } = req.query;
+  if (typeof url !== "string" || url === "") {
+    return res.status(400).json({ error: "Missing anchor url" });
+  }
+
+  try {
+    const verification = await verifyAnchor(url, typeof hash === "string" ? hash : undefined);
+    // Only a completed comparison is final; unreachable documents may come back later
+    if (verification.integrity !== "unverifiable") {
+      res.setHeader("Cache-Control", "public, max-age=3600");
+    }
+    res.status(200).json(verification);
+  } catch (error) {
+    console.error(`Failed to verify anchor ${url}`, error);
+    res.status(500).json({ error: "Failed to verify anchor" });
+  }
+}
@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { serverEnv } from "@/config/env";
+import { renderAtomFeed } from "@/lib/feed";
+import { getGovernanceNotifier } from "@/lib/notifications";
+
+type ErrorResponse = { error: string };
+
+// How stale the events may be when nothing polls in the background
+const FEED_MAX_AGE_MS = 60_000;
+
+// The Host header is client-controlled, so it only stands in for PUBLIC_SITE_URL in development
+function getSiteUrl(req: NextApiRequest): string | null {
+  if (serverEnv.publicSiteUrl) return serverEnv.publicSiteUrl.replace(/\/+$/, "");
+  return process.env.NODE_ENV === "development" ? `http://${req.headers.host}` : null;
+}
+
+/**
+ * Atom feed of governance events, newest first. Narrow it with `type`
+ * (comma-separated event types) and `action` (an action hash).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<string | ErrorResponse>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const types = typeof req.query.type === "string" ? req.query.type.split(",") : null;
+  const action = typeof req.query.action === "string" ? req.query.action : null;
+
+  const siteUrl = getSiteUrl(req);
+  if (!siteUrl) {
+    console.error("PUBLIC_SITE_URL must be set to serve the governance event feed");
+    return res.status(500).json({ error: "Feed is not configured" });
+  }
+
+  try {
+    const notifier = getGovernanceNotifier();
+    await notifier.refresh(serverEnv.eventPollIntervalMs || FEED_MAX_AGE_MS);
+    const events = (await notifier.getEvents()).filter(
+      (event) => (!types || types.includes(event.type)) && (!action || event.actionHash === action)
+    );
+
+    res.setHeader("Content-Type", "application/atom+xml; charset=utf-8");
+    res.status(200).send(renderAtomFeed(events, { feedUrl: `${siteUrl}${req.url}`, siteUrl }));
+  } catch (error) {
+    console.error("Failed to build governance event feed", error);
+    res.status(500).json({ error: "Failed to build feed" });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import { isStakeAddress } from "@/lib/delegation";
+import type { AccountDelegation } from "@/types/governance";
+
+type ResponseData = AccountDelegation | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const stakeAddress = req.query.stakeAddress as string;
+  if (!isStakeAddress(stakeAddress)) {
+    return res.status(400).json({ error: "Invalid stake address" });
+  }
+
+  try {
+    const delegation = await getDataSource().getAccountDelegation(stakeAddress);
+    if (!delegation) {
+      return res.status(404).json({ error: "Stake address is not registered" });
+    }
+    res.status(200).json(delegation);
+  } catch (error) {
+    console.error(`Failed to fetch delegation for ${stakeAddress}`, error);
+    res.status(500).json({ error: "Failed to fetch delegation" });
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { GovernanceActionDetail } from "@/types/governance";
+
+type ResponseData = GovernanceActionDetail | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const hash = req.query.hash as string;
+
+  try {
+    const action = await getDataSource().getAction(hash);
+    if (!action) {
+      return res.status(404).json({ error: "Governance action not found" });
+    }
+    res.status(200).json(action);
+  } catch (error) {
+    console.error(`Failed to fetch governance action ${hash}`, error);
+    res.status(500).json({ error: "Failed to fetch action" });
+  }
+}
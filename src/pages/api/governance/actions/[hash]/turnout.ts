@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import { computeActionTurnout } from "@/lib/turnout";
+import type { ActionTurnout } from "@/types/governance";
+
+type ResponseData = ActionTurnout | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const hash = req.query.hash as string;
+
+  try {
+    const dataSource = getDataSource();
+    const [votes, dreps, predefined] = await Promise.all([
+      dataSource.getVotes(hash),
+      dataSource.getDReps(),
+      dataSource.getPredefinedDRepStake(),
+    ]);
+    if (!votes) {
+      return res.status(404).json({ error: "Governance action not found" });
+    }
+    res.status(200).json(computeActionTurnout(hash, votes, dreps, predefined));
+  } catch (error) {
+    console.error(`Failed to compute DRep turnout for governance action ${hash}`, error);
+    res.status(500).json({ error: "Failed to compute turnout" });
+  }
+}
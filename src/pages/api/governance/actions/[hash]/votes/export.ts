@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import { DREP_VOTE_FIELDS, parseVoteSelection, selectVotes, SPO_VOTE_FIELDS } from "@/lib/votePages";
+import {
+  committeeVoteExportColumns,
+  drepVoteExportColumns,
+  EXPORT_FORMATS,
+  spoVoteExportColumns,
+  streamExport,
+} from "@/lib/exports";
+import type { ExportFormat } from "@/types/governance";
+
+type ErrorResponse = { error: string };
+
+/**
+ * Downloads an action's votes for `role` (drep, spo or cc) as `format` (csv
+ * or json). DRep and SPO votes take the same `q`, `vote`, `sort` and `dir`
+ * parameters as the votes search route; committee votes are exported in full.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ErrorResponse>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const hash = req.query.hash as string;
+  const role = req.query.role ?? "drep";
+  if (role !== "drep" && role !== "spo" && role !== "cc") {
+    return res.status(400).json({ error: `Unknown voter role "${role}"` });
+  }
+  const format = (req.query.format ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `Unknown export format "${format}"` });
+  }
+  const selection = parseVoteSelection(req.query);
+  if (typeof selection === "string") {
+    return res.status(400).json({ error: selection });
+  }
+
+  const filename = `votes-${role}-${hash.slice(0, 16)}`;
+  try {
+    const dataSource = getDataSource();
+    // The route takes either ID form; the columns carry the transaction hash and index apart
+    const action = await dataSource.getAction(hash);
+    if (!action) return res.status(404).json({ error: "Governance action not found" });
+
+    if (role === "cc") {
+      const votes = await dataSource.getCommitteeVotes(hash);
+      if (!votes) return res.status(404).json({ error: "Governance action not found" });
+      return await streamExport(res, votes, committeeVoteExportColumns(action), format, filename);
+    }
+    if (role === "spo") {
+      const votes = await dataSource.getSpoVotes(hash);
+      if (!votes) return res.status(404).json({ error: "Governance action not found" });
+      const selected = selectVotes(votes, SPO_VOTE_FIELDS, selection);
+      return await streamExport(res, selected, spoVoteExportColumns(action), format, filename);
+    }
+
+    const votes = await dataSource.getVotes(hash);
+    if (!votes) return res.status(404).json({ error: "Governance action not found" });
+    await streamExport(
+      res,
+      selectVotes(votes, DREP_VOTE_FIELDS, selection),
+      drepVoteExportColumns(action),
+      format,
+      filename
+    );
+  } catch (error) {
+    console.error(`Failed to export ${role} votes for governance action ${hash}`, error);
+    if (res.headersSent) return res.end();
+    res.status(500).json({ error: "Failed to export votes" });
+  }
+}
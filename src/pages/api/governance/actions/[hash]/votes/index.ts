@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { CommitteeVoteRecord, SpoVoteRecord, VoteRecord } from "@/types/governance";
+
+type ResponseData = VoteRecord[] | SpoVoteRecord[] | CommitteeVoteRecord[] | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const hash = req.query.hash as string;
+  const role = req.query.role ?? "drep";
+  if (role !== "drep" && role !== "spo" && role !== "cc") {
+    return res.status(400).json({ error: `Unknown voter role "${role}"` });
+  }
+
+  try {
+    const dataSource = getDataSource();
+    const votes =
+      role === "cc"
+        ? await dataSource.getCommitteeVotes(hash)
+        : role === "spo"
+          ? await dataSource.getSpoVotes(hash)
+          : await dataSource.getVotes(hash);
+    if (!votes) {
+      return res.status(404).json({ error: "Governance action not found" });
+    }
+    res.status(200).json(votes);
+  } catch (error) {
+    console.error(`Failed to fetch ${role} votes for governance action ${hash}`, error);
+    res.status(500).json({ error: "Failed to fetch votes" });
+  }
+}
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import {
+  DEFAULT_VOTE_PAGE_SIZE,
+  DREP_VOTE_FIELDS,
+  InvalidCursorError,
+  MAX_VOTE_PAGE_SIZE,
+  paginateVotes,
+  parseVoteSelection,
+  SPO_VOTE_FIELDS,
+  type VotePageParams,
+} from "@/lib/votePages";
+import type { SpoVoteRecord, VotePage, VoteRecord } from "@/types/governance";
+
+type ResponseData = VotePage<VoteRecord> | VotePage<SpoVoteRecord> | { error: string };
+
+function parseParams(query: NextApiRequest["query"]): VotePageParams | string {
+  const selection = parseVoteSelection(query);
+  if (typeof selection === "string") return selection;
+
+  const limit = Number(typeof query.limit === "string" ? query.limit : DEFAULT_VOTE_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VOTE_PAGE_SIZE) {
+    return `limit must be an integer between 1 and ${MAX_VOTE_PAGE_SIZE}`;
+  }
+  return { ...selection, limit, cursor: typeof query.cursor === "string" ? query.cursor : undefined };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const hash = req.query.hash as string;
+  const role = req.query.role ?? "drep";
+  if (role !== "drep" && role !== "spo") {
+    return res.status(400).json({ error: `Unknown voter role "${role}"` });
+  }
+  const params = parseParams(req.query);
+  if (typeof params === "string") {
+    return res.status(400).json({ error: params });
+  }
+
+  try {
+    const dataSource = getDataSource();
+    if (role === "spo") {
+      const votes = await dataSource.getSpoVotes(hash);
+      if (!votes) return res.status(404).json({ error: "Governance action not found" });
+      return res.status(200).json(paginateVotes(votes, SPO_VOTE_FIELDS, params));
+    }
+
+    const votes = await dataSource.getVotes(hash);
+    if (!votes) return res.status(404).json({ error: "Governance action not found" });
+    res.status(200).json(paginateVotes(votes, DREP_VOTE_FIELDS, params));
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(`Failed to search ${role} votes for governance action ${hash}`, error);
+    res.status(500).json({ error: "Failed to search votes" });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import { ACTION_LIST_FILTERS, DEFAULT_FILTERS, filterActions } from "@/lib/filters";
+import { ACTION_EXPORT_COLUMNS, EXPORT_FORMATS, streamExport } from "@/lib/exports";
+import type { ExportFormat } from "@/types/governance";
+
+type ErrorResponse = { error: string };
+
+/**
+ * Downloads the governance actions as `format` (csv or json), filtered and
+ * sorted by the dashboard's query string parameters (`type`, `status`,
+ * `from`, `to`, `sort`, `dir`).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ErrorResponse>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const format = (req.query.format ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `Unknown export format "${format}"` });
+  }
+
+  try {
+    const actions = await getDataSource().getActions();
+    const filtered = filterActions(actions, { ...DEFAULT_FILTERS, ...ACTION_LIST_FILTERS.parse(req.query) });
+    await streamExport(res, filtered, ACTION_EXPORT_COLUMNS, format, "governance-actions");
+  } catch (error) {
+    console.error("Failed to export governance actions", error);
+    if (res.headersSent) return res.end();
+    res.status(500).json({ error: "Failed to export actions" });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { GovernanceAction } from "@/types/governance";
+
+type ResponseData = GovernanceAction[] | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { type, status } = req.query;
+
+  try {
+    const actions = await getDataSource().getActions();
+    const filtered = actions.filter(
+      (action) =>
+        (typeof type !== "string" || action.type === type) && (typeof status !== "string" || action.status === status)
+    );
+    res.status(200).json(filtered);
+  } catch (error) {
+    console.error("Failed to fetch governance actions", error);
+    res.status(500).json({ error: "Failed to fetch actions" });
+  }
+}
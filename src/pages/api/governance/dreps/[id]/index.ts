@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { DRepProfile } from "@/types/governance";
+
+type ResponseData = DRepProfile | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const id = req.query.id as string;
+
+  try {
+    const drep = await getDataSource().getDRep(id);
+    if (!drep) {
+      return res.status(404).json({ error: "DRep not found" });
+    }
+    res.status(200).json(drep);
+  } catch (error) {
+    console.error(`Failed to fetch DRep ${id}`, error);
+    res.status(500).json({ error: "Failed to fetch DRep" });
+  }
+}
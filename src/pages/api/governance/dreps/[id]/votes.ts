@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { DRepVote } from "@/types/governance";
+
+type ResponseData = DRepVote[] | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const id = req.query.id as string;
+
+  try {
+    const votes = await getDataSource().getDRepVotes(id);
+    if (!votes) {
+      return res.status(404).json({ error: "DRep not found" });
+    }
+    res.status(200).json(votes);
+  } catch (error) {
+    console.error(`Failed to fetch votes for DRep ${id}`, error);
+    res.status(500).json({ error: "Failed to fetch votes" });
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import { getParticipationReport } from "@/lib/turnout";
+import type { ParticipationReport } from "@/types/governance";
+
+type ResponseData = ParticipationReport | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    res.status(200).json(await getParticipationReport(getDataSource()));
+  } catch (error) {
+    console.error("Failed to build DRep participation report", error);
+    res.status(500).json({ error: "Failed to build participation report" });
+  }
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+
+type ResponseData = { lovelace: number } | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    res.status(200).json({ lovelace: await getDataSource().getProposalDeposit() });
+  } catch (error) {
+    console.error("Failed to fetch proposal deposit", error);
+    res.status(500).json({ error: "Failed to fetch proposal deposit" });
+  }
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Protocol } from "@meshsdk/core";
+import { getDataSource } from "@/lib/dataSource";
+
+type ResponseData = Protocol | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    res.status(200).json(await getDataSource().getProtocolParameters());
+  } catch (error) {
+    console.error("Failed to fetch protocol parameters", error);
+    res.status(500).json({ error: "Failed to fetch protocol parameters" });
+  }
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { VotingThresholds } from "@/types/governance";
+
+type ResponseData = VotingThresholds | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    res.status(200).json(await getDataSource().getVotingThresholds());
+  } catch (error) {
+    console.error("Failed to fetch voting thresholds", error);
+    res.status(500).json({ error: "Failed to fetch voting thresholds" });
+  }
+}
@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import type { TreasuryLedger } from "@/types/governance";
+
+type ResponseData = TreasuryLedger | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const dataSource = getDataSource();
+    const [ncl, withdrawals] = await Promise.all([dataSource.getNCLData(), dataSource.getTreasuryWithdrawals()]);
+    res.status(200).json({ ncl, withdrawals });
+  } catch (error) {
+    console.error("Failed to fetch treasury ledger", error);
+    res.status(500).json({ error: "Failed to fetch treasury ledger" });
+  }
+}
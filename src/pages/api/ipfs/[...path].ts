@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getIpfsClient, IpfsError } from "@/lib/ipfs";
+
+const ERROR_STATUS: Record<IpfsError["reason"], number> = {
+  "invalid-cid": 400,
+  unavailable: 502,
+  "too-large": 502,
+};
+
+function isJson(bytes: Uint8Array): boolean {
+  try {
+    JSON.parse(new TextDecoder().decode(bytes));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Serves IPFS content through the server's gateways and cache, so ipfs:// links open in any browser */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Buffer | { error: string }>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const segments = Array.isArray(req.query.path) ? req.query.path : [req.query.path ?? ""];
+  const ipfsUrl = `ipfs://${segments.join("/")}`;
+
+  try {
+    const bytes = await getIpfsClient().fetch(ipfsUrl);
+    // Never let arbitrary IPFS content render as a page on this origin
+    res.setHeader("Content-Type", isJson(bytes) ? "application/json" : "text/plain; charset=utf-8");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Security-Policy", "sandbox");
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.status(200).send(Buffer.from(bytes));
+  } catch (error) {
+    if (error instanceof IpfsError) {
+      return res.status(ERROR_STATUS[error.reason]).json({ error: error.message });
+    }
+    console.error(`Failed to fetch ${ipfsUrl}`, error);
+    res.status(500).json({ error: "Failed to fetch IPFS content" });
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getDataSource } from "@/lib/dataSource";
+import { searchGovernance } from "@/lib/search";
+import type { SearchResults } from "@/types/governance";
+
+type ResponseData = SearchResults | { error: string };
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const query = req.query.q;
+  if (typeof query !== "string") {
+    return res.status(400).json({ error: "Missing search query" });
+  }
+
+  try {
+    res.status(200).json(await searchGovernance(getDataSource(), query));
+  } catch (error) {
+    console.error(`Failed to search for "${query}"`, error);
+    res.status(500).json({ error: "Failed to search" });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getGovernanceNotifier, type WebhookDelivery } from "@/lib/notifications";
+
+type ResponseData = { deliveries: WebhookDelivery[] } | { error: string };
+
+/**
+ * Sends a signed `ping` to every configured webhook and reports how each
+ * delivery went, retries included. Development only, so a deployed instance
+ * can't be used to flood its receivers.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ResponseData>) {
+  if (process.env.NODE_ENV === "production") {
+    return res.status(404).json({ error: "Not found" });
+  }
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    res.status(200).json({ deliveries: await getGovernanceNotifier().ping() });
+  } catch (error) {
+    console.error("Failed to ping webhooks", error);
+    res.status(500).json({ error: "Failed to ping webhooks" });
+  }
+}
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RationaleDialog } from "@/components/RationaleDialog";
+import { DelegateDialog } from "@/components/DelegateDialog";
+import { WatchChanges, WatchDRepButton } from "@/components/Watchlist";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { setActions, setSelectedDRep } from "@/store/governanceSlice";
+import { ApiError, fetchDRep, fetchDRepVotes, fetchGovernanceActions, getAnchorHref } from "@/lib/api";
+import { GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import { getDRepParticipation } from "@/lib/drep";
+import { useDRepVisit } from "@/lib/watchlist";
+import { dateToEpoch } from "@/lib/cardanoTime";
+import type { DRepProfile, DRepVote } from "@/types/governance";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function getStatusColor(status: DRepProfile["status"]): string {
+  switch (status) {
+    case "Active":
+      return "bg-success/20 text-success border-success/30";
+    case "Inactive":
+      return "bg-muted text-muted-foreground border-border";
+    case "Retired":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+  }
+}
+
+function getVoteBadgeClasses(vote: DRepVote["vote"]): string {
+  switch (vote) {
+    case "Yes":
+      return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30";
+    case "No":
+      return "bg-red-500/20 text-red-400 border-red-500/30";
+    case "Abstain":
+      return "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  }
+}
+
+export default function DRepDetail() {
+  const router = useRouter();
+  const { id } = router.query;
+  const dispatch = useAppDispatch();
+  const selectedDRep = useAppSelector((state) => state.governance.selectedDRep);
+  const actions = useAppSelector((state) => state.governance.actions);
+  const [error, setError] = useState<string | null>(null);
+  const visitedDRep = useMemo(
+    () => (selectedDRep ? { ...selectedDRep, voteCount: selectedDRep.votes?.length ?? 0 } : null),
+    [selectedDRep]
+  );
+  const changesSinceVisit = useDRepVisit(visitedDRep);
+
+  useEffect(() => {
+    if (typeof id !== "string") return;
+    let cancelled = false;
+
+    dispatch(setSelectedDRep(null));
+    setError(null);
+
+    Promise.all([fetchDRep(id), fetchDRepVotes(id), fetchGovernanceActions()])
+      .then(([drep, votes, governanceActions]) => {
+        if (cancelled) return;
+        dispatch(setActions(governanceActions));
+        dispatch(setSelectedDRep({ ...drep, votes }));
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setError(
+          err instanceof ApiError && err.status === 404
+            ? "This DRep is not registered."
+            : `Failed to load DRep: ${err.message}`
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, dispatch]);
+
+  if (!selectedDRep) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto py-8 px-4">
+          <div className="text-center space-y-4">
+            <p className="text-muted-foreground">{error ?? "Loading DRep..."}</p>
+            {error && (
+              <Link href="/">
+                <Button variant="outline">Return to Dashboard</Button>
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const votes = selectedDRep.votes ?? [];
+  const participation = getDRepParticipation(selectedDRep, votes, actions);
+  const displayName = selectedDRep.name ?? "Unnamed DRep";
+
+  return (
+    <>
+      <Head>
+        <title>{displayName} - Cardano Governance</title>
+        <meta name="description" content={selectedDRep.objectives || `DRep ${selectedDRep.drepId}`} />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {/* Back Button */}
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <Button variant="ghost" onClick={() => router.back()}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+            {visitedDRep && <WatchDRepButton drep={visitedDRep} />}
+          </div>
+
+          {changesSinceVisit.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-muted-foreground">
+              <span>Since your last visit:</span>
+              <WatchChanges changes={changesSinceVisit} />
+            </div>
+          )}
+
+          {/* Header Section */}
+          <div className="mb-8">
+            <div className="flex flex-wrap gap-3 mb-4">
+              <Badge variant="outline" className={getStatusColor(selectedDRep.status)}>
+                {selectedDRep.status}
+              </Badge>
+              <Badge variant="outline" className="border-border">
+                DRep
+              </Badge>
+            </div>
+            <div className="flex items-center gap-4 mb-4">
+              {selectedDRep.imageUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={selectedDRep.imageUrl}
+                  alt={displayName}
+                  className="h-16 w-16 rounded-full object-cover border border-border"
+                />
+              )}
+              <h1 className="text-3xl md:text-4xl font-bold">{displayName}</h1>
+            </div>
+            <code className="text-sm text-muted-foreground bg-secondary px-3 py-1 rounded font-mono break-all">
+              {selectedDRep.drepId}
+            </code>
+          </div>
+
+          {/* Main Grid: 2/3 Left, 1/3 Right */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Left Column - Main Content */}
+            <div className="lg:col-span-2 space-y-6">
+              {/* Profile Card */}
+              <Card className="p-6 space-y-6">
+                <div>
+                  <h2 className="text-xl font-semibold mb-2">Objectives</h2>
+                  <p className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
+                    {selectedDRep.objectives || "No objectives published."}
+                  </p>
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold mb-2">Motivations</h2>
+                  <p className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
+                    {selectedDRep.motivations || "No motivations published."}
+                  </p>
+                </div>
+                {selectedDRep.qualifications && (
+                  <div>
+                    <h2 className="text-xl font-semibold mb-2">Qualifications</h2>
+                    <p className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
+                      {selectedDRep.qualifications}
+                    </p>
+                  </div>
+                )}
+              </Card>
+
+              {/* Voting History Card */}
+              <Card>
+                <div className="p-6 pb-0">
+                  <h2 className="text-xl font-semibold mb-2">Voting History</h2>
+                  <p className="text-sm text-muted-foreground mb-4">Every vote this DRep has cast, newest first</p>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Governance Action</TableHead>
+                        <TableHead>Vote</TableHead>
+                        <TableHead>Voted At</TableHead>
+                        <TableHead className="text-right">Rationale</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {votes.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-muted-foreground py-12">
+                            This DRep has not voted yet
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        votes.map((vote) => (
+                          <TableRow key={vote.actionHash} className="hover:bg-muted/50">
+                            <TableCell>
+                              <Link href={`/governance/${vote.actionHash}`} className="font-semibold hover:underline">
+                                {vote.actionTitle}
+                              </Link>
+                              <div className="text-xs text-muted-foreground">
+                                {GOVERNANCE_ACTION_LABELS[vote.actionType]}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
+                                {vote.vote}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              <div>{new Date(vote.votedAt).toLocaleDateString()}</div>
+                              <div className="text-xs">Epoch {dateToEpoch(new Date(vote.votedAt))}</div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {vote.anchorUrl ? (
+                                <RationaleDialog
+                                  voterName={displayName}
+                                  vote={vote.vote}
+                                  anchorUrl={vote.anchorUrl}
+                                  anchorHash={vote.anchorHash}
+                                  actionHash={vote.actionHash}
+                                />
+                              ) : (
+                                <span className="text-xs text-muted-foreground">No rationale</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </Card>
+            </div>
+
+            {/* Right Column - Sidebar */}
+            <div className="space-y-6">
+              {/* Delegation Card */}
+              <Card className="p-6">
+                <div className="flex items-center justify-between gap-2 mb-4">
+                  <h3 className="font-semibold">Delegation</h3>
+                  {selectedDRep.status !== "Retired" && (
+                    <DelegateDialog
+                      drepId={selectedDRep.drepId}
+                      drepName={selectedDRep.name}
+                      votingPowerAda={selectedDRep.votingPowerAda}
+                    />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Voting Power</span>
+                    <span className="text-sm font-semibold">{formatAda(selectedDRep.votingPowerAda)} ₳</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Delegators</span>
+                    <span className="text-sm font-semibold">{selectedDRep.delegatorCount.toLocaleString()}</span>
+                  </div>
+                  {selectedDRep.registeredEpoch !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Registered</span>
+                      <span className="text-sm">Epoch {selectedDRep.registeredEpoch}</span>
+                    </div>
+                  )}
+                </div>
+              </Card>
+
+              {/* Participation Card */}
+              <Card className="p-6">
+                <h3 className="font-semibold mb-4">Participation</h3>
+                {participation.rate === null ? (
+                  <p className="text-sm text-muted-foreground">
+                    Voted on {participation.voted} actions. The rate is unknown because the registration epoch
+                    isn&apos;t available.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex justify-between mb-2">
+                      <span className="text-sm">{participation.rate.toFixed(1)}%</span>
+                      <span className="text-sm text-muted-foreground">
+                        {participation.voted} of {participation.eligible} actions
+                      </span>
+                    </div>
+                    <Progress value={participation.rate} className="h-3 bg-secondary" />
+                  </>
+                )}
+              </Card>
+
+              {/* Links Card */}
+              <Card className="p-6">
+                <h3 className="font-semibold mb-4">Links</h3>
+                {selectedDRep.links.length === 0 && !selectedDRep.anchorUrl ? (
+                  <p className="text-sm text-muted-foreground">No links published.</p>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    {selectedDRep.links.map((link) => (
+                      <a
+                        key={link.uri}
+                        href={getAnchorHref(link.uri)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline flex items-center gap-1 break-all">
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                        {link.label}
+                      </a>
+                    ))}
+                    {selectedDRep.anchorUrl && (
+                      <a
+                        href={getAnchorHref(selectedDRep.anchorUrl)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline flex items-center gap-1 break-all">
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                        Metadata document
+                      </a>
+                    )}
+                  </div>
+                )}
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
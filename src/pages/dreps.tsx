@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DelegateDialog } from "@/components/DelegateDialog";
+import { WatchDRepButton } from "@/components/Watchlist";
+import { useAppSelector } from "@/store/hooks";
+import { fetchDReps } from "@/lib/api";
+import { ALWAYS_ABSTAIN_DREP, ALWAYS_NO_CONFIDENCE_DREP } from "@/lib/delegation";
+import type { DRepSummary } from "@/types/governance";
+import { ArrowLeft } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const PREDEFINED_OPTIONS = [
+  {
+    drepId: ALWAYS_ABSTAIN_DREP,
+    title: "Always abstain",
+    description: "Your stake counts as abstaining on every action and is left out of the active voting stake.",
+  },
+  {
+    drepId: ALWAYS_NO_CONFIDENCE_DREP,
+    title: "Always no confidence",
+    description: "Your stake votes Yes on every No confidence action and No on every other action.",
+  },
+];
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function getStatusColor(status: DRepSummary["status"]): string {
+  switch (status) {
+    case "Active":
+      return "bg-success/20 text-success border-success/30";
+    case "Inactive":
+      return "bg-muted text-muted-foreground border-border";
+    case "Retired":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+  }
+}
+
+export default function DRepDirectory() {
+  const delegatedDRepId = useAppSelector((state) => state.wallet.delegation?.drepId ?? null);
+  const [dreps, setDReps] = useState<DRepSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDReps()
+      .then((result) => {
+        if (!cancelled) setDReps(result);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(`Failed to load DReps: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const matching = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    // Retired DReps can't receive delegations
+    const candidates = (dreps ?? []).filter((drep) => drep.status !== "Retired");
+    if (!needle) return candidates;
+    return candidates.filter(
+      (drep) => drep.drepId.toLowerCase().includes(needle) || drep.name?.toLowerCase().includes(needle)
+    );
+  }, [dreps, query]);
+
+  return (
+    <>
+      <Head>
+        <title>DRep Directory - Cardano Governance</title>
+        <meta name="description" content="Browse registered DReps and delegate your voting power" />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {/* Back Button */}
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">DRep Directory</h1>
+            <p className="text-muted-foreground">
+              Delegate the voting power of your stake to a DRep, or to one of the predefined voting options.
+            </p>
+          </div>
+
+          {/* Predefined Options */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {PREDEFINED_OPTIONS.map((option) => (
+              <Card
+                key={option.drepId}
+                className={`p-6 flex items-start justify-between gap-4 ${
+                  delegatedDRepId === option.drepId ? "border-primary/50" : ""
+                }`}>
+                <div>
+                  <h2 className="font-semibold mb-1">{option.title}</h2>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+                <DelegateDialog drepId={option.drepId} />
+              </Card>
+            ))}
+          </div>
+
+          {/* DRep Table */}
+          <Card>
+            <div className="p-6 pb-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold">Registered DReps</h2>
+                <p className="text-sm text-muted-foreground">
+                  {dreps ? `${matching.length.toLocaleString()} DReps, largest voting power first` : "Loading DReps..."}
+                </p>
+              </div>
+              <Input
+                placeholder="Search by name or DRep ID"
+                aria-label="Search DReps"
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setVisible(PAGE_SIZE);
+                }}
+                className="md:w-80"
+              />
+            </div>
+            {error && <p className="px-6 pb-4 text-sm text-destructive">{error}</p>}
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>DRep</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Voting Power</TableHead>
+                    <TableHead className="text-right">Delegation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dreps && matching.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground py-12">
+                        No DReps match your search
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    matching.slice(0, visible).map((drep) => (
+                      <TableRow
+                        key={drep.drepId}
+                        className={drep.drepId === delegatedDRepId ? "bg-primary/5" : "hover:bg-muted/50"}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <WatchDRepButton drep={drep} />
+                            <div className="min-w-0">
+                              <Link
+                                href={`/drep/${encodeURIComponent(drep.drepId)}`}
+                                className="font-semibold hover:underline">
+                                {drep.name ?? "Unnamed DRep"}
+                              </Link>
+                              <div className="text-xs text-muted-foreground font-mono truncate max-w-xs">
+                                {drep.drepId}
+                              </div>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={getStatusColor(drep.status)}>
+                            {drep.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatAda(drep.votingPowerAda)} ₳</TableCell>
+                        <TableCell className="text-right">
+                          <DelegateDialog
+                            drepId={drep.drepId}
+                            drepName={drep.name}
+                            votingPowerAda={drep.votingPowerAda}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {matching.length > visible && (
+              <div className="p-4 text-center">
+                <Button variant="outline" onClick={() => setVisible((count) => count + PAGE_SIZE)}>
+                  Show more
+                </Button>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,15 +1,37 @@
-import { useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import Link from "next/link";
 import { Card } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { VotingRecords } from "@/components/VotingRecords";
+import { CommitteeVotesCard } from "@/components/CommitteeVotesCard";
+import { VoteTimelineChart } from "@/components/VoteTimelineChart";
+import { CastVotePanel } from "@/components/CastVotePanel";
+import { DRepTurnoutCard } from "@/components/DRepTurnoutCard";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
-import { setSelectedAction } from "@/store/governanceSlice";
-import { getActionByHash } from "@/data/mockData";
+import { setCommittee, setSelectedAction, setVotingThresholds } from "@/store/governanceSlice";
+import {
+  ApiError,
+  fetchCommittee,
+  fetchActionTurnout,
+  fetchCommitteeVotes,
+  fetchGovernanceAction,
+  fetchVotes,
+  fetchVotingThresholds,
+} from "@/lib/api";
+import { DEFAULT_VOTING_THRESHOLDS, evaluateRatification, isVotingBodyRequired } from "@/lib/ratification";
+import { getCommitteeTally } from "@/lib/committee";
+import { getCurrentEpoch } from "@/lib/cardanoTime";
+import { getActionId } from "@/lib/cip129";
+import { RatificationSummary } from "@/components/RatificationVerdict";
+import { GovernanceActionDetails } from "@/components/GovernanceActionDetails";
+import { GovernanceActionHeader, GovernanceActionText } from "@/components/GovernanceActionOverview";
+import { WatchActionButton, WatchChanges } from "@/components/Watchlist";
+import { useActionVisit } from "@/lib/watchlist";
+import type { DRepStakeBase } from "@/lib/voteTimeline";
+import type { ActionTurnout } from "@/types/governance";
 import { ArrowLeft } from "lucide-react";
 
 function formatAda(ada: string | number): string {
@@ -17,49 +39,110 @@ function formatAda(ada: string | number): string {
   return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(num);
 }
 
-function getStatusColor(status: string): string {
-  switch (status) {
-    case "Active":
-      return "bg-success/20 text-success border-success/30";
-    case "Ratified":
-    case "Approved":
-      return "bg-primary/20 text-primary border-primary/30";
-    case "Expired":
-      return "bg-muted text-muted-foreground border-border";
-    case "Not approved":
-      return "bg-destructive/20 text-destructive border-destructive/30";
-    default:
-      return "bg-muted text-muted-foreground border-border";
-  }
-}
-
 export default function GovernanceDetail() {
   const router = useRouter();
   const { hash } = router.query;
   const dispatch = useAppDispatch();
   const selectedAction = useAppSelector((state) => state.governance.selectedAction);
+  const thresholds = useAppSelector((state) => state.governance.thresholds);
+  const committee = useAppSelector((state) => state.governance.committee);
+  const [error, setError] = useState<string | null>(null);
+  const [turnout, setTurnout] = useState<ActionTurnout | null>(null);
+  const [turnoutError, setTurnoutError] = useState<string | null>(null);
+  const changesSinceVisit = useActionVisit(selectedAction);
 
   useEffect(() => {
-    if (typeof hash === "string") {
-      const action = getActionByHash(hash);
-      if (action) {
-        dispatch(setSelectedAction(action));
-      }
-    }
+    if (typeof hash !== "string") return;
+    let cancelled = false;
+
+    dispatch(setSelectedAction(null));
+    setError(null);
+
+    Promise.all([
+      fetchGovernanceAction(hash),
+      fetchVotes(hash),
+      fetchCommitteeVotes(hash),
+      fetchCommittee(),
+      fetchVotingThresholds(),
+    ])
+      .then(([action, votes, committeeVotes, currentCommittee, votingThresholds]) => {
+        if (cancelled) return;
+        dispatch(setVotingThresholds(votingThresholds));
+        dispatch(setCommittee(currentCommittee));
+        dispatch(setSelectedAction({ ...action, votes, committeeVotes }));
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setError(
+          err instanceof ApiError && err.status === 404
+            ? "This governance action doesn't exist."
+            : `Failed to load governance action: ${err.message}`
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [hash, dispatch]);
 
+  // Loaded apart from the action so a slow turnout doesn't hold up the page
+  useEffect(() => {
+    if (typeof hash !== "string") return;
+    let cancelled = false;
+
+    setTurnout(null);
+    setTurnoutError(null);
+    fetchActionTurnout(hash)
+      .then((result) => {
+        if (!cancelled) setTurnout(result);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setTurnoutError(`Failed to load turnout: ${err.message}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  const actionType = selectedAction?.type;
+  const stakeBase = useMemo<DRepStakeBase | null>(
+    () =>
+      turnout && actionType
+        ? {
+            activeStakeAda: turnout.activeStakeAda,
+            alwaysNoConfidenceAda: turnout.alwaysNoConfidenceAda,
+            noConfidenceIsYes: actionType === "NoConfidence",
+          }
+        : null,
+    [turnout, actionType]
+  );
+
   if (!selectedAction) {
     return (
       <div className="min-h-screen bg-background">
         <div className="container mx-auto py-8 px-4">
-          <div className="text-center">
-            <p className="text-muted-foreground">Loading governance action...</p>
+          <div className="text-center space-y-4">
+            <p className="text-muted-foreground">{error ?? "Loading governance action..."}</p>
+            {error && (
+              <Link href="/">
+                <Button variant="outline">Return to Dashboard</Button>
+              </Link>
+            )}
           </div>
         </div>
       </div>
     );
   }
 
+  const ratification = evaluateRatification(selectedAction, thresholds ?? DEFAULT_VOTING_THRESHOLDS);
+  // Ratification counts the members active now, not those active when the action was submitted
+  const currentEpoch = getCurrentEpoch();
+  const committeeTally =
+    committee && isVotingBodyRequired(selectedAction, "committee")
+      ? getCommitteeTally(committee, selectedAction.committeeVotes ?? [], currentEpoch)
+      : null;
+
   return (
     <>
       <Head>
@@ -69,59 +152,56 @@ export default function GovernanceDetail() {
       <div className="min-h-screen bg-background">
         <div className="container mx-auto px-4 py-8">
           {/* Back Button */}
-          <Link href="/">
-            <Button variant="ghost" className="mb-6">
-              <ArrowLeft className="mr-2 h-4 w-4" />
-              Back to Dashboard
-            </Button>
-          </Link>
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <Link href="/">
+              <Button variant="ghost">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <WatchActionButton action={selectedAction} />
+          </div>
 
-          {/* Header Section */}
-          <div className="mb-8">
-            <div className="flex flex-wrap gap-3 mb-4">
-              <Badge variant="outline" className={getStatusColor(selectedAction.status)}>
-                {selectedAction.status}
-              </Badge>
-              <Badge variant="outline" className="border-border">
-                {selectedAction.type}
-              </Badge>
+          {changesSinceVisit.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-muted-foreground">
+              <span>Since your last visit:</span>
+              <WatchChanges changes={changesSinceVisit} />
             </div>
-            <h1 className="text-3xl md:text-4xl font-bold mb-4">{selectedAction.title}</h1>
-            <code className="text-sm text-muted-foreground bg-secondary px-3 py-1 rounded font-mono">
-              {selectedAction.hash}
-            </code>
-            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-4">
-              <span>Submission: Epoch {selectedAction.submissionEpoch}</span>
-              <span>•</span>
-              <span>Expiry: Epoch {selectedAction.expiryEpoch}</span>
-            </div>
-          </div>
+          )}
+
+          {/* Header Section */}
+          <GovernanceActionHeader action={selectedAction} />
 
           {/* Main Grid: 2/3 Left, 1/3 Right */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Left Column - Main Content */}
             <div className="lg:col-span-2 space-y-6">
-              {/* Description Card */}
-              <Card className="p-6">
-                <h2 className="text-xl font-semibold mb-4">Description</h2>
-                <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
-                  {selectedAction.description || "No description provided."}
-                </div>
-              </Card>
+              <GovernanceActionText action={selectedAction} />
 
-              {/* Rationale Card */}
-              {selectedAction.rationale && (
-                <Card className="p-6">
-                  <h2 className="text-xl font-semibold mb-4">Rationale</h2>
-                  <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
-                    {selectedAction.rationale}
-                  </div>
-                </Card>
+              {/* Vote Timeline Card */}
+              {selectedAction.votes && isVotingBodyRequired(selectedAction, "drep") && (
+                <VoteTimelineChart
+                  votes={selectedAction.votes}
+                  threshold={ratification.bodies.drep.threshold}
+                  stakeBase={stakeBase}
+                />
               )}
             </div>
 
             {/* Right Column - Sidebar */}
             <div className="space-y-6">
+              {/* Cast Vote Card */}
+              <CastVotePanel action={selectedAction} />
+
+              {/* Ratification Card */}
+              <Card className="p-6">
+                <h3 className="font-semibold mb-4">Ratification</h3>
+                <RatificationSummary result={ratification} showVerdict={selectedAction.status === "Active"} />
+              </Card>
+
+              {/* Type-specific Details Card */}
+              <GovernanceActionDetails action={selectedAction} />
+
               {/* Constitutionality Card */}
               <Card className="p-6">
                 <h3 className="font-semibold mb-2">Constitutionality</h3>
@@ -137,7 +217,11 @@ export default function GovernanceDetail() {
                       <span className="text-sm text-success">Yes: {selectedAction.drepYesPercent.toFixed(1)}%</span>
                       <span className="text-sm text-muted-foreground">{formatAda(selectedAction.drepYesAda)} ₳</span>
                     </div>
-                    <Progress value={selectedAction.drepYesPercent} className="h-3 bg-secondary" />
+                    <Progress
+                      value={selectedAction.drepYesPercent}
+                      marker={ratification.bodies.drep.threshold ?? undefined}
+                      className="h-3 bg-secondary"
+                    />
                   </div>
                   <div>
                     <div className="flex justify-between mb-2">
@@ -149,8 +233,13 @@ export default function GovernanceDetail() {
                 </div>
               </Card>
 
+              {/* DRep Turnout Card */}
+              {isVotingBodyRequired(selectedAction, "drep") && (
+                <DRepTurnoutCard turnout={turnout} error={turnoutError} actionType={selectedAction.type} />
+              )}
+
               {/* SPO Votes Card */}
-              {selectedAction.spoYesPercent !== undefined && (
+              {selectedAction.spoYesPercent !== undefined && isVotingBodyRequired(selectedAction, "spo") && (
                 <Card className="p-6">
                   <h3 className="font-semibold mb-4">SPO Votes</h3>
                   <div className="space-y-4">
@@ -161,7 +250,11 @@ export default function GovernanceDetail() {
                           {formatAda(selectedAction.spoYesAda || "0")} ₳
                         </span>
                       </div>
-                      <Progress value={selectedAction.spoYesPercent} className="h-3 bg-secondary" />
+                      <Progress
+                        value={selectedAction.spoYesPercent}
+                        marker={ratification.bodies.spo.threshold ?? undefined}
+                        className="h-3 bg-secondary"
+                      />
                     </div>
                     <div>
                       <div className="flex justify-between mb-2">
@@ -178,6 +271,9 @@ export default function GovernanceDetail() {
                 </Card>
               )}
 
+              {/* Constitutional Committee Card */}
+              {committeeTally && <CommitteeVotesCard tally={committeeTally} />}
+
               {/* Vote Summary Card */}
               <Card className="p-6">
                 <h3 className="font-semibold mb-4">Vote Summary</h3>
@@ -208,11 +304,14 @@ export default function GovernanceDetail() {
           </div>
 
           {/* Voting Records Section */}
-          {selectedAction.votes && selectedAction.votes.length > 0 && (
-            <div className="mt-12">
-              <VotingRecords votes={selectedAction.votes} />
-            </div>
-          )}
+          <div className="mt-12">
+            <VotingRecords
+              committeeVotes={selectedAction.committeeVotes}
+              committee={committee}
+              actionHash={getActionId(selectedAction)}
+              epoch={currentEpoch}
+            />
+          </div>
         </div>
       </div>
     </>
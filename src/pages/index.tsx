@@ -1,16 +1,40 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import Head from "next/head";
+import { Card } from "@/components/ui/card";
 import { GovernanceStats } from "@/components/GovernanceStats";
 import { GovernanceTable } from "@/components/GovernanceTable";
-import { useAppDispatch } from "@/store/hooks";
-import { setActions } from "@/store/governanceSlice";
-import { mockGovernanceActions } from "@/data/mockData";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { WatchlistPanel } from "@/components/WatchlistPanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { setActions, setNCLData, setVotingThresholds } from "@/store/governanceSlice";
+import { fetchGovernanceActions, fetchNCLData, fetchVotingThresholds } from "@/lib/api";
 
 export default function Home() {
   const dispatch = useAppDispatch();
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState("actions");
+  const watchedCount = useAppSelector(
+    (state) => Object.keys(state.watchlist.actions).length + Object.keys(state.watchlist.dreps).length
+  );
 
   useEffect(() => {
-    dispatch(setActions(mockGovernanceActions));
+    let cancelled = false;
+
+    Promise.all([fetchGovernanceActions(), fetchNCLData(), fetchVotingThresholds()])
+      .then(([actions, ncl, thresholds]) => {
+        if (cancelled) return;
+        dispatch(setActions(actions));
+        dispatch(setNCLData(ncl));
+        dispatch(setVotingThresholds(thresholds));
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [dispatch]);
 
   return (
@@ -32,8 +56,25 @@ export default function Home() {
               Track and monitor on-chain governance actions
             </p>
           </div>
+          <GlobalSearch />
+          {error && (
+            <Card className="p-4 mb-8 border-destructive/30 text-destructive text-sm">
+              Failed to load governance data: {error}
+            </Card>
+          )}
           <GovernanceStats />
-          <GovernanceTable />
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="actions">All actions</TabsTrigger>
+              <TabsTrigger value="watching">Watching{watchedCount > 0 && ` (${watchedCount})`}</TabsTrigger>
+            </TabsList>
+            <TabsContent value="actions">
+              <GovernanceTable />
+            </TabsContent>
+            <TabsContent value="watching">
+              <WatchlistPanel />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
     </>
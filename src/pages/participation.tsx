@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { WatchDRepButton } from "@/components/Watchlist";
+import { fetchParticipationReport } from "@/lib/api";
+import { GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import type { DRepParticipationEntry, GovernanceAction, ParticipationReport } from "@/types/governance";
+import { ArrowLeft } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+type LeaderboardSort = "participation" | "power";
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function formatCompactAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(ada);
+}
+
+function getActionStatusColor(status: GovernanceAction["status"]): string {
+  switch (status) {
+    case "Active":
+      return "bg-success/20 text-success border-success/30";
+    case "Ratified":
+    case "Approved":
+      return "bg-primary/20 text-primary border-primary/30";
+    case "Not approved":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+    default:
+      return "bg-muted text-muted-foreground border-border";
+  }
+}
+
+function getDRepStatusColor(status: DRepParticipationEntry["status"]): string {
+  switch (status) {
+    case "Active":
+      return "bg-success/20 text-success border-success/30";
+    case "Inactive":
+      return "bg-muted text-muted-foreground border-border";
+    case "Retired":
+      return "bg-destructive/20 text-destructive border-destructive/30";
+  }
+}
+
+function TurnoutTable({ actions }: { actions: ParticipationReport["actions"] }) {
+  return (
+    <Card>
+      <div className="p-6 pb-4">
+        <h2 className="text-xl font-semibold">Turnout per action</h2>
+        <p className="text-sm text-muted-foreground">
+          Share of active DRep stake that voted. Stake that didn&apos;t vote counts as No.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Action</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="min-w-40">Turnout</TableHead>
+              <TableHead className="text-right">Voted</TableHead>
+              <TableHead className="text-right">Not voted</TableHead>
+              <TableHead className="text-right" title="Active stake plus Always No Confidence, less Abstain votes">
+                Yes share measured against
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {actions.map((action) => (
+              <TableRow key={action.actionHash} className="hover:bg-muted/50">
+                <TableCell>
+                  <Link href={`/governance/${action.actionHash}`} className="font-medium hover:underline">
+                    {action.title}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    {GOVERNANCE_ACTION_LABELS[action.type]} · Epoch {action.submissionEpoch}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={getActionStatusColor(action.status)}>
+                    {action.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Progress value={action.turnoutPercent} className="h-2 bg-secondary" />
+                    <span className="text-sm w-14 text-right">{action.turnoutPercent.toFixed(1)}%</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {action.voterCount} of {action.activeDRepCount} DReps
+                  </div>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatCompactAda(action.activeStakeAda - action.nonVotingAda)} ₳
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatCompactAda(action.nonVotingAda)} ₳
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatCompactAda(action.denominatorAda)} ₳
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
+
+function Leaderboard({ dreps }: { dreps: DRepParticipationEntry[] }) {
+  const [query, setQuery] = useState("");
+  const [activeOnly, setActiveOnly] = useState(true);
+  const [sort, setSort] = useState<LeaderboardSort>("participation");
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  // Ranks follow participation across every DRep, whatever the filters and sort
+  const ranks = useMemo(() => new Map(dreps.map((drep, i) => [drep.drepId, i + 1])), [dreps]);
+
+  const matching = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = dreps.filter(
+      (drep) =>
+        (!activeOnly || drep.status === "Active") &&
+        (!needle || drep.drepId.toLowerCase().includes(needle) || drep.name?.toLowerCase().includes(needle))
+    );
+    return sort === "power" ? [...filtered].sort((a, b) => b.votingPowerAda - a.votingPowerAda) : filtered;
+  }, [dreps, query, activeOnly, sort]);
+
+  return (
+    <Card>
+      <div className="p-6 pb-4 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">DRep participation</h2>
+          <p className="text-sm text-muted-foreground">
+            Share of the actions open while each DRep was registered that they voted on
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Search by name or DRep ID"
+            aria-label="Search DReps"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setVisible(PAGE_SIZE);
+            }}
+            className="sm:w-64"
+          />
+          <Select value={activeOnly ? "active" : "all"} onValueChange={(value) => setActiveOnly(value === "active")}>
+            <SelectTrigger className="sm:w-40" aria-label="DRep status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active DReps</SelectItem>
+              <SelectItem value="all">All DReps</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as LeaderboardSort)}>
+            <SelectTrigger className="sm:w-48" aria-label="Sort DReps">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="participation">Highest participation</SelectItem>
+              <SelectItem value="power">Largest voting power</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12 text-right">#</TableHead>
+              <TableHead>DRep</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="min-w-48">Participation</TableHead>
+              <TableHead className="text-right">Voting Power</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {matching.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-12">
+                  No DReps match your search
+                </TableCell>
+              </TableRow>
+            ) : (
+              matching.slice(0, visible).map((drep) => (
+                <TableRow key={drep.drepId} className="hover:bg-muted/50">
+                  <TableCell className="text-right text-muted-foreground">{ranks.get(drep.drepId)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <WatchDRepButton drep={drep} />
+                      <div className="min-w-0">
+                        <Link
+                          href={`/drep/${encodeURIComponent(drep.drepId)}`}
+                          className="font-semibold hover:underline">
+                          {drep.name ?? "Unnamed DRep"}
+                        </Link>
+                        <div className="text-xs text-muted-foreground font-mono truncate max-w-xs">{drep.drepId}</div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getDRepStatusColor(drep.status)}>
+                      {drep.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {drep.rate === null ? (
+                      <>
+                        <div className="text-sm text-muted-foreground">Unknown</div>
+                        <div className="text-xs text-muted-foreground">
+                          Voted on {drep.voted} actions, registration epoch unknown
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <Progress value={drep.rate} className="h-2 bg-secondary" />
+                          <span className="text-sm w-14 text-right">{drep.rate.toFixed(1)}%</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {drep.voted} of {drep.eligible} actions
+                        </div>
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAda(drep.votingPowerAda)} ₳</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {matching.length > visible && (
+        <div className="p-4 text-center">
+          <Button variant="outline" onClick={() => setVisible((count) => count + PAGE_SIZE)}>
+            Show more
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default function ParticipationPage() {
+  const [report, setReport] = useState<ParticipationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchParticipationReport()
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(`Failed to load participation: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto py-8 px-4 text-center text-muted-foreground">
+          {error ?? "Loading participation..."}
+        </div>
+      </div>
+    );
+  }
+
+  const { actions, dreps, predefined } = report;
+  const averageTurnout =
+    actions.length > 0 ? actions.reduce((sum, action) => sum + action.turnoutPercent, 0) / actions.length : 0;
+  const fullParticipation = dreps.filter((drep) => drep.status === "Active" && drep.rate === 100).length;
+
+  const summary = [
+    { label: "Average turnout", value: `${averageTurnout.toFixed(1)}%`, detail: "of active DRep stake per action" },
+    {
+      label: "Voted on everything",
+      value: fullParticipation.toLocaleString(),
+      detail: "active DReps with 100% participation",
+    },
+    {
+      label: "Always Abstain",
+      value: `${formatCompactAda(predefined.alwaysAbstainAda)} ₳`,
+      detail: "left out of every DRep denominator",
+    },
+    {
+      label: "Always No Confidence",
+      value: `${formatCompactAda(predefined.alwaysNoConfidenceAda)} ₳`,
+      detail: "counts as No, or Yes on no confidence motions",
+    },
+  ];
+
+  return (
+    <>
+      <Head>
+        <title>DRep Participation - Cardano Governance</title>
+        <meta name="description" content="DRep turnout per governance action and participation rates" />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {/* Back Button */}
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">DRep Participation</h1>
+            <p className="text-muted-foreground">
+              How much DRep stake turns out on each action, and how consistently each DRep votes
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+            {summary.map(({ label, value, detail }) => (
+              <Card key={label} className="p-6">
+                <div className="text-sm text-muted-foreground uppercase tracking-wide mb-1">{label}</div>
+                <div className="text-2xl font-bold">{value}</div>
+                <div className="text-xs text-muted-foreground mt-1">{detail}</div>
+              </Card>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <TurnoutTable actions={actions} />
+            <Leaderboard dreps={dreps} />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,1022 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import type { Protocol } from "@meshsdk/core";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GovernanceActionDetails } from "@/components/GovernanceActionDetails";
+import { GovernanceActionHeader, GovernanceActionText } from "@/components/GovernanceActionOverview";
+import { useAppSelector } from "@/store/hooks";
+import { fetchGuardrailsScript, fetchProposalDeposit, fetchProtocolParameters } from "@/lib/api";
+import { getWalletTxInputs, signAndSubmit } from "@/lib/wallet";
+import { buildProposalTx, type TxPreview } from "@/lib/governanceTx";
+import { hashAnchorDocument, serializeAnchorDocument } from "@/lib/cip100";
+import { isStakeAddress } from "@/lib/delegation";
+import { GOVERNANCE_ACTION_KINDS, GOVERNANCE_ACTION_LABELS } from "@/lib/actionTypes";
+import { getProtocolParameterInfo } from "@/lib/protocolParameters";
+import {
+  CHAINED_ACTION_KINDS,
+  createParameterChange,
+  createProposalMetadataDocument,
+  getCurrentParameterValue,
+  PROPOSABLE_PARAMETERS,
+  PROPOSAL_ABSTRACT_MAX_LENGTH,
+  PROPOSAL_REFERENCE_TYPES,
+  PROPOSAL_TITLE_MAX_LENGTH,
+  toMeshGovernanceAction,
+  validateProposalContent,
+  validateProposalMetadata,
+  type ProposalContent,
+  type ProposalMetadata,
+} from "@/lib/proposal";
+import type { GovernanceActionDetail, GovernanceActionKind } from "@/types/governance";
+import { ArrowLeft, Check, Copy, Download, Plus, Trash2 } from "lucide-react";
+
+type ReferenceType = (typeof PROPOSAL_REFERENCE_TYPES)[number];
+
+/** Form state; numbers stay strings until the draft is converted, so half-typed values survive */
+interface ProposalDraft {
+  type: GovernanceActionKind;
+  title: string;
+  abstract: string;
+  motivation: string;
+  rationale: string;
+  references: { type: ReferenceType; label: string; uri: string }[];
+  authors: string[];
+  /** Last enacted action of the same purpose, for the action types that chain */
+  previousAction: string;
+  parameterChanges: { parameter: string; proposedValue: string }[];
+  protocolVersion: { major: string; minor: string };
+  withdrawals: { stakeAddress: string; amountAda: string }[];
+  membersToAdd: { coldCredential: string; expiryEpoch: string }[];
+  membersToRemove: string[];
+  thresholdPercent: string;
+  constitution: { anchorUrl: string; anchorHash: string; guardrailsScriptHash: string };
+  returnAddress: string;
+  anchorUrl: string;
+}
+
+type MetadataField = "title" | "abstract" | "motivation" | "rationale";
+
+const DRAFT_KEY = "cgov:proposal-draft";
+
+const STEPS = ["Action type", "Metadata", "Details", "Deposit", "Review"];
+
+const EMPTY_DRAFT: ProposalDraft = {
+  type: "Info",
+  title: "",
+  abstract: "",
+  motivation: "",
+  rationale: "",
+  references: [],
+  authors: [],
+  previousAction: "",
+  parameterChanges: [],
+  protocolVersion: { major: "", minor: "0" },
+  withdrawals: [],
+  membersToAdd: [],
+  membersToRemove: [],
+  thresholdPercent: "",
+  constitution: { anchorUrl: "", anchorHash: "", guardrailsScriptHash: "" },
+  returnAddress: "",
+  anchorUrl: "",
+};
+
+const ACTION_DESCRIPTIONS: Record<GovernanceActionKind, string> = {
+  ParameterChange: "Change one or more protocol parameters.",
+  HardForkInitiation: "Move the network to a new major or minor protocol version.",
+  TreasuryWithdrawals: "Pay ADA from the treasury to one or more stake addresses.",
+  NoConfidence: "Remove the current Constitutional Committee.",
+  UpdateCommittee: "Add or remove committee members and set the quorum threshold.",
+  NewConstitution: "Replace the constitution and, optionally, its guardrails script.",
+  Info: "Record the community's view on a question, with no on-chain effect.",
+};
+
+const METADATA_FIELDS: { field: MetadataField; label: string; hint: string; rows: number; max?: number }[] = [
+  {
+    field: "title",
+    label: "Title",
+    hint: "A short, clear name for the action.",
+    rows: 1,
+    max: PROPOSAL_TITLE_MAX_LENGTH,
+  },
+  {
+    field: "abstract",
+    label: "Abstract",
+    hint: "A summary of what the action does.",
+    rows: 4,
+    max: PROPOSAL_ABSTRACT_MAX_LENGTH,
+  },
+  { field: "motivation", label: "Motivation", hint: "The problem the action solves.", rows: 6 },
+  { field: "rationale", label: "Rationale", hint: "Why this action solves it.", rows: 8 },
+];
+
+const REFERENCE_TYPE_LABELS: Record<ReferenceType, string> = {
+  Other: "Other",
+  GovernanceMetadata: "Governance metadata",
+};
+
+const PARAMETER_OPTIONS = Object.keys(PROPOSABLE_PARAMETERS);
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 6 }).format(ada);
+}
+
+function formatLovelace(lovelace: string | number): string {
+  return `${(Number(lovelace) / 1_000_000).toFixed(6)} ₳`;
+}
+
+function toMetadata(draft: ProposalDraft): ProposalMetadata {
+  return {
+    title: draft.title,
+    abstract: draft.abstract,
+    motivation: draft.motivation,
+    rationale: draft.rationale,
+    references: draft.references.map((reference) => ({
+      type: reference.type,
+      label: reference.label.trim(),
+      uri: reference.uri.trim(),
+    })),
+    authors: draft.authors.map((name) => ({ name: name.trim() || undefined })),
+  };
+}
+
+function toContent(draft: ProposalDraft, protocol: Protocol | null): ProposalContent {
+  switch (draft.type) {
+    case "ParameterChange":
+      return {
+        type: draft.type,
+        parameterChanges: draft.parameterChanges.map(({ parameter, proposedValue }) =>
+          createParameterChange(
+            parameter,
+            proposedValue.trim(),
+            protocol ? getCurrentParameterValue(parameter, protocol) : undefined
+          )
+        ),
+      };
+    case "HardForkInitiation":
+      return {
+        type: draft.type,
+        protocolVersion: { major: Number(draft.protocolVersion.major), minor: Number(draft.protocolVersion.minor) },
+      };
+    case "TreasuryWithdrawals":
+      return {
+        type: draft.type,
+        withdrawals: draft.withdrawals.map((withdrawal) => ({
+          stakeAddress: withdrawal.stakeAddress.trim(),
+          amountAda: Number(withdrawal.amountAda),
+        })),
+      };
+    case "UpdateCommittee":
+      return {
+        type: draft.type,
+        membersToAdd: draft.membersToAdd.map((member) => ({
+          coldCredential: member.coldCredential.trim(),
+          expiryEpoch: Number(member.expiryEpoch),
+        })),
+        membersToRemove: draft.membersToRemove.map((credential) => credential.trim()),
+        newThreshold: Number(draft.thresholdPercent) / 100,
+      };
+    case "NewConstitution":
+      return {
+        type: draft.type,
+        constitution: {
+          anchorUrl: draft.constitution.anchorUrl.trim(),
+          anchorHash: draft.constitution.anchorHash.trim(),
+          guardrailsScriptHash: draft.constitution.guardrailsScriptHash.trim() || undefined,
+        },
+      };
+    case "NoConfidence":
+    case "Info":
+      return { type: draft.type };
+  }
+}
+
+// The draft shaped like a loaded action, so the review step renders with the detail page's components
+function toPreviewAction(draft: ProposalDraft, content: ProposalContent): GovernanceActionDetail {
+  return {
+    ...content,
+    hash: "",
+    title: draft.title.trim(),
+    status: "Active",
+    constitutionality: "",
+    drepYesPercent: 0,
+    drepNoPercent: 0,
+    drepYesAda: "0",
+    drepNoAda: "0",
+    drepYesLovelace: "0",
+    drepNoLovelace: "0",
+    totalYes: 0,
+    totalNo: 0,
+    totalAbstain: 0,
+    submissionEpoch: 0,
+    expiryEpoch: 0,
+    description: draft.abstract.trim() || undefined,
+    motivation: draft.motivation.trim() || undefined,
+    rationale: draft.rationale.trim() || undefined,
+  } as GovernanceActionDetail;
+}
+
+function loadDraft(): ProposalDraft {
+  try {
+    const saved = localStorage.getItem(DRAFT_KEY);
+    return saved ? { ...EMPTY_DRAFT, ...(JSON.parse(saved) as Partial<ProposalDraft>) } : EMPTY_DRAFT;
+  } catch {
+    return EMPTY_DRAFT;
+  }
+}
+
+function download(contents: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function Field({
+  label,
+  htmlFor,
+  hint,
+  children,
+}: {
+  label: string;
+  htmlFor?: string;
+  hint?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <label htmlFor={htmlFor} className="text-sm font-medium block">
+        {label}
+      </label>
+      {children}
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+function ListHeading({ label, onAdd }: { label: string; onAdd: () => void }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-sm font-medium">{label}</span>
+      <Button size="sm" variant="outline" onClick={onAdd}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+function RemoveButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <Button size="icon" variant="ghost" aria-label={label} onClick={onClick}>
+      <Trash2 className="h-4 w-4" />
+    </Button>
+  );
+}
+
+function Issues({ issues }: { issues: string[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+      {issues.map((issue, index) => (
+        <li key={index}>{issue}</li>
+      ))}
+    </ul>
+  );
+}
+
+interface DetailsEditorProps {
+  draft: ProposalDraft;
+  update: (change: Partial<ProposalDraft>) => void;
+  protocol: Protocol | null;
+}
+
+function ParameterChangesEditor({ draft, update, protocol }: DetailsEditorProps) {
+  const setChange = (index: number, change: Partial<ProposalDraft["parameterChanges"][number]>) =>
+    update({ parameterChanges: draft.parameterChanges.map((c, i) => (i === index ? { ...c, ...change } : c)) });
+
+  return (
+    <div className="space-y-2">
+      <ListHeading
+        label="Parameter changes"
+        onAdd={() =>
+          update({
+            parameterChanges: [
+              ...draft.parameterChanges,
+              {
+                parameter: PARAMETER_OPTIONS.find((p) => !draft.parameterChanges.some((c) => c.parameter === p)) ?? "",
+                proposedValue: "",
+              },
+            ],
+          })
+        }
+      />
+      {draft.parameterChanges.map((change, index) => {
+        const current = protocol ? getCurrentParameterValue(change.parameter, protocol) : undefined;
+        return (
+          <div key={index} className="flex flex-col md:flex-row gap-2">
+            <Select value={change.parameter} onValueChange={(value) => setChange(index, { parameter: value })}>
+              <SelectTrigger className="md:w-72 h-9" aria-label="Parameter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARAMETER_OPTIONS.map((parameter) => (
+                  <SelectItem key={parameter} value={parameter}>
+                    {getProtocolParameterInfo(parameter).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={current !== undefined ? `Currently ${current}` : "New value"}
+              aria-label="Proposed value"
+              inputMode="numeric"
+              value={change.proposedValue}
+              onChange={(e) => setChange(index, { proposedValue: e.target.value })}
+              className="h-9 font-mono"
+            />
+            <RemoveButton
+              label="Remove parameter change"
+              onClick={() => update({ parameterChanges: draft.parameterChanges.filter((_, i) => i !== index) })}
+            />
+          </div>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">
+        Values are whole numbers in the ledger&apos;s units; ADA amounts are in lovelace.
+      </p>
+    </div>
+  );
+}
+
+function WithdrawalsEditor({ draft, update }: DetailsEditorProps) {
+  const setWithdrawal = (index: number, change: Partial<ProposalDraft["withdrawals"][number]>) =>
+    update({ withdrawals: draft.withdrawals.map((w, i) => (i === index ? { ...w, ...change } : w)) });
+  const total = draft.withdrawals.reduce((sum, w) => sum + (Number(w.amountAda) || 0), 0);
+
+  return (
+    <div className="space-y-2">
+      <ListHeading
+        label="Withdrawals"
+        onAdd={() => update({ withdrawals: [...draft.withdrawals, { stakeAddress: "", amountAda: "" }] })}
+      />
+      {draft.withdrawals.map((withdrawal, index) => (
+        <div key={index} className="flex flex-col md:flex-row gap-2">
+          <Input
+            placeholder="stake1…"
+            aria-label="Recipient stake address"
+            value={withdrawal.stakeAddress}
+            onChange={(e) => setWithdrawal(index, { stakeAddress: e.target.value })}
+            className="h-9 font-mono text-xs"
+          />
+          <Input
+            placeholder="Amount in ₳"
+            aria-label="Amount in ADA"
+            inputMode="decimal"
+            value={withdrawal.amountAda}
+            onChange={(e) => setWithdrawal(index, { amountAda: e.target.value })}
+            className="h-9 md:w-48"
+          />
+          <RemoveButton
+            label="Remove withdrawal"
+            onClick={() => update({ withdrawals: draft.withdrawals.filter((_, i) => i !== index) })}
+          />
+        </div>
+      ))}
+      {draft.withdrawals.length > 0 && <p className="text-sm text-muted-foreground">Total: {formatAda(total)} ₳</p>}
+    </div>
+  );
+}
+
+function CommitteeEditor({ draft, update }: DetailsEditorProps) {
+  const setMember = (index: number, change: Partial<ProposalDraft["membersToAdd"][number]>) =>
+    update({ membersToAdd: draft.membersToAdd.map((m, i) => (i === index ? { ...m, ...change } : m)) });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <ListHeading
+          label="Members to add"
+          onAdd={() => update({ membersToAdd: [...draft.membersToAdd, { coldCredential: "", expiryEpoch: "" }] })}
+        />
+        {draft.membersToAdd.map((member, index) => (
+          <div key={index} className="flex flex-col md:flex-row gap-2">
+            <Input
+              placeholder="cc_cold1… or key hash"
+              aria-label="Cold credential"
+              value={member.coldCredential}
+              onChange={(e) => setMember(index, { coldCredential: e.target.value })}
+              className="h-9 font-mono text-xs"
+            />
+            <Input
+              placeholder="Expiry epoch"
+              aria-label="Expiry epoch"
+              inputMode="numeric"
+              value={member.expiryEpoch}
+              onChange={(e) => setMember(index, { expiryEpoch: e.target.value })}
+              className="h-9 md:w-36"
+            />
+            <RemoveButton
+              label="Remove new member"
+              onClick={() => update({ membersToAdd: draft.membersToAdd.filter((_, i) => i !== index) })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <ListHeading
+          label="Members to remove"
+          onAdd={() => update({ membersToRemove: [...draft.membersToRemove, ""] })}
+        />
+        {draft.membersToRemove.map((credential, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="cc_cold1… or key hash"
+              aria-label="Cold credential to remove"
+              value={credential}
+              onChange={(e) =>
+                update({ membersToRemove: draft.membersToRemove.map((c, i) => (i === index ? e.target.value : c)) })
+              }
+              className="h-9 font-mono text-xs"
+            />
+            <RemoveButton
+              label="Keep member"
+              onClick={() => update({ membersToRemove: draft.membersToRemove.filter((_, i) => i !== index) })}
+            />
+          </div>
+        ))}
+      </div>
+      <Field label="Quorum threshold (%)" htmlFor="threshold" hint="Share of committee members that must vote Yes.">
+        <Input
+          id="threshold"
+          inputMode="decimal"
+          value={draft.thresholdPercent}
+          onChange={(e) => update({ thresholdPercent: e.target.value })}
+          className="h-9 md:w-36"
+        />
+      </Field>
+    </div>
+  );
+}
+
+function DetailsEditor(props: DetailsEditorProps) {
+  const { draft, update } = props;
+  switch (draft.type) {
+    case "ParameterChange":
+      return <ParameterChangesEditor {...props} />;
+    case "TreasuryWithdrawals":
+      return <WithdrawalsEditor {...props} />;
+    case "UpdateCommittee":
+      return <CommitteeEditor {...props} />;
+    case "HardForkInitiation":
+      return (
+        <div className="flex gap-4">
+          <Field label="Major version" htmlFor="major">
+            <Input
+              id="major"
+              inputMode="numeric"
+              value={draft.protocolVersion.major}
+              onChange={(e) => update({ protocolVersion: { ...draft.protocolVersion, major: e.target.value } })}
+              className="h-9 w-32"
+            />
+          </Field>
+          <Field label="Minor version" htmlFor="minor">
+            <Input
+              id="minor"
+              inputMode="numeric"
+              value={draft.protocolVersion.minor}
+              onChange={(e) => update({ protocolVersion: { ...draft.protocolVersion, minor: e.target.value } })}
+              className="h-9 w-32"
+            />
+          </Field>
+        </div>
+      );
+    case "NewConstitution":
+      return (
+        <div className="space-y-4">
+          <Field label="Constitution URL" htmlFor="constitution-url">
+            <Input
+              id="constitution-url"
+              placeholder="https:// or ipfs://"
+              value={draft.constitution.anchorUrl}
+              onChange={(e) => update({ constitution: { ...draft.constitution, anchorUrl: e.target.value } })}
+              className="h-9"
+            />
+          </Field>
+          <Field label="Constitution hash" htmlFor="constitution-hash" hint="blake2b-256 of the constitution text.">
+            <Input
+              id="constitution-hash"
+              value={draft.constitution.anchorHash}
+              onChange={(e) => update({ constitution: { ...draft.constitution, anchorHash: e.target.value } })}
+              className="h-9 font-mono text-xs"
+            />
+          </Field>
+          <Field label="Guardrails script hash" htmlFor="guardrails" hint="Optional. Leave empty for no script.">
+            <Input
+              id="guardrails"
+              value={draft.constitution.guardrailsScriptHash}
+              onChange={(e) =>
+                update({ constitution: { ...draft.constitution, guardrailsScriptHash: e.target.value } })
+              }
+              className="h-9 font-mono text-xs"
+            />
+          </Field>
+        </div>
+      );
+    case "NoConfidence":
+    case "Info":
+      return (
+        <p className="text-sm text-muted-foreground">
+          {GOVERNANCE_ACTION_LABELS[draft.type]} actions carry no details beyond their metadata.
+        </p>
+      );
+  }
+}
+
+export default function ProposalWizard() {
+  const { status, stakeAddress } = useAppSelector((state) => state.wallet);
+  const [draft, setDraft] = useState<ProposalDraft>(EMPTY_DRAFT);
+  const [loaded, setLoaded] = useState(false);
+  const [step, setStep] = useState(0);
+  const [protocol, setProtocol] = useState<Protocol | null>(null);
+  const [depositLovelace, setDepositLovelace] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<"hash" | "tx" | null>(null);
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+  const [busy, setBusy] = useState<"building" | "submitting" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submittedTx, setSubmittedTx] = useState<string | null>(null);
+
+  // Drafts live in localStorage only, so they are read after hydration
+  useEffect(() => {
+    setDraft(loadDraft());
+    setLoaded(true);
+  }, []);
+
+  // Any edit invalidates the metadata hash and a transaction that was already built
+  useEffect(() => {
+    if (loaded) localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+    setCopied(null);
+    setPreview(null);
+    setError(null);
+  }, [draft, loaded]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchProposalDeposit(), fetchProtocolParameters()])
+      .then(([deposit, parameters]) => {
+        if (cancelled) return;
+        setDepositLovelace(deposit.lovelace);
+        setProtocol(parameters);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setLoadError(`Failed to load the proposal deposit: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Default the deposit return address to the connected wallet's stake address
+  useEffect(() => {
+    if (loaded && stakeAddress) {
+      setDraft((current) => (current.returnAddress ? current : { ...current, returnAddress: stakeAddress }));
+    }
+  }, [loaded, stakeAddress]);
+
+  const update = (change: Partial<ProposalDraft>) => setDraft((current) => ({ ...current, ...change }));
+
+  const output = useMemo(() => {
+    const metadata = toMetadata(draft);
+    const content = toContent(draft, protocol);
+    const serialized = serializeAnchorDocument(createProposalMetadataDocument(metadata));
+    const returnAddress = draft.returnAddress.trim();
+    return {
+      content,
+      serialized,
+      hash: hashAnchorDocument(serialized),
+      action: toPreviewAction(draft, content),
+      issues: [
+        validateProposalMetadata(metadata),
+        validateProposalContent(content, CHAINED_ACTION_KINDS.includes(draft.type) ? draft.previousAction : ""),
+        isStakeAddress(returnAddress) ? [] : ["The deposit return address must be a stake address"],
+      ],
+    };
+  }, [draft, protocol]);
+
+  // Issues of the metadata, details and deposit steps, in the order of STEPS
+  const stepIssues = [[], ...output.issues, []];
+  const allIssues = output.issues.flat();
+  const anchorUrl = draft.anchorUrl.trim();
+
+  const handleCopy = async (what: "hash" | "tx", text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(what);
+  };
+
+  const handleBuild = async () => {
+    if (depositLovelace === null) return;
+    setBusy("building");
+    setError(null);
+    try {
+      const [protocolParameters, { script: guardrails }, { utxos, changeAddress }] = await Promise.all([
+        fetchProtocolParameters(),
+        fetchGuardrailsScript(),
+        getWalletTxInputs(),
+      ]);
+      setPreview(
+        await buildProposalTx({
+          governanceAction: toMeshGovernanceAction(
+            output.content,
+            CHAINED_ACTION_KINDS.includes(draft.type) ? draft.previousAction : ""
+          ),
+          anchor: { url: anchorUrl, dataHash: output.hash },
+          returnAddress: draft.returnAddress.trim(),
+          depositLovelace: String(depositLovelace),
+          guardrails,
+          utxos,
+          changeAddress,
+          protocolParameters,
+        })
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!preview) return;
+    setBusy("submitting");
+    setError(null);
+    try {
+      setSubmittedTx(await signAndSubmit(preview.unsignedTx));
+      setPreview(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // cardano-cli's text envelope, so the draft can also be signed offline
+  const handleDownloadTx = () => {
+    if (!preview) return;
+    const envelope = { type: "Tx ConwayEra", description: "Ledger Cddl Format", cborHex: preview.unsignedTx };
+    download(`${JSON.stringify(envelope, null, 2)}\n`, "proposal.tx.json", "application/json");
+  };
+
+  return (
+    <>
+      <Head>
+        <title>New Proposal - Cardano Governance</title>
+        <meta name="description" content="Draft a governance action with CIP-108 metadata and build its transaction" />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {/* Back Button */}
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">New Governance Action</h1>
+            <p className="text-muted-foreground">
+              Draft an action and its CIP-108 metadata, publish the metadata, then build the proposal transaction.
+            </p>
+          </div>
+
+          {/* Step Indicator */}
+          <div className="flex flex-wrap gap-2 mb-6">
+            {STEPS.map((label, index) => (
+              <Button
+                key={label}
+                size="sm"
+                variant={index === step ? "default" : "outline"}
+                onClick={() => setStep(index)}>
+                {index + 1}. {label}
+                {index < step && stepIssues[index].length === 0 && <Check className="h-4 w-4 ml-1" />}
+              </Button>
+            ))}
+          </div>
+
+          {step === 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {GOVERNANCE_ACTION_KINDS.map((kind) => (
+                <button key={kind} type="button" onClick={() => update({ type: kind })} className="text-left">
+                  <Card className={`p-6 h-full hover:bg-muted/50 ${draft.type === kind ? "border-primary" : ""}`}>
+                    <h2 className="font-semibold mb-1">{GOVERNANCE_ACTION_LABELS[kind]}</h2>
+                    <p className="text-sm text-muted-foreground">{ACTION_DESCRIPTIONS[kind]}</p>
+                  </Card>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {step === 1 && (
+            <Card className="p-6 space-y-6">
+              {METADATA_FIELDS.map(({ field, label, hint, rows, max }) => (
+                <div key={field} className="space-y-2">
+                  <div className="flex justify-between gap-2">
+                    <label htmlFor={field} className="text-sm font-medium">
+                      {label}
+                    </label>
+                    {max !== undefined && (
+                      <span
+                        className={`text-xs ${
+                          draft[field].trim().length > max ? "text-destructive" : "text-muted-foreground"
+                        }`}>
+                        {draft[field].trim().length}/{max}
+                      </span>
+                    )}
+                  </div>
+                  {rows === 1 ? (
+                    <Input id={field} value={draft[field]} onChange={(e) => update({ [field]: e.target.value })} />
+                  ) : (
+                    <Textarea
+                      id={field}
+                      rows={rows}
+                      value={draft[field]}
+                      onChange={(e) => update({ [field]: e.target.value })}
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">{hint}</p>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <ListHeading
+                  label="References"
+                  onAdd={() => update({ references: [...draft.references, { type: "Other", label: "", uri: "" }] })}
+                />
+                {draft.references.map((reference, index) => {
+                  const setReference = (change: Partial<ProposalDraft["references"][number]>) =>
+                    update({ references: draft.references.map((r, i) => (i === index ? { ...r, ...change } : r)) });
+                  return (
+                    <div key={index} className="flex flex-col md:flex-row gap-2">
+                      <Select
+                        value={reference.type}
+                        onValueChange={(value) => setReference({ type: value as ReferenceType })}>
+                        <SelectTrigger className="md:w-44 h-9" aria-label="Reference type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROPOSAL_REFERENCE_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {REFERENCE_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Label"
+                        aria-label="Reference label"
+                        value={reference.label}
+                        onChange={(e) => setReference({ label: e.target.value })}
+                        className="h-9"
+                      />
+                      <Input
+                        placeholder="https:// or ipfs://"
+                        aria-label="Reference URI"
+                        value={reference.uri}
+                        onChange={(e) => setReference({ uri: e.target.value })}
+                        className="h-9"
+                      />
+                      <RemoveButton
+                        label="Remove reference"
+                        onClick={() => update({ references: draft.references.filter((_, i) => i !== index) })}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-2">
+                <ListHeading label="Authors" onAdd={() => update({ authors: [...draft.authors, ""] })} />
+                {draft.authors.map((name, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      placeholder="Name"
+                      aria-label="Author name"
+                      value={name}
+                      onChange={(e) =>
+                        update({ authors: draft.authors.map((author, i) => (i === index ? e.target.value : author)) })
+                      }
+                      className="h-9"
+                    />
+                    <RemoveButton
+                      label="Remove author"
+                      onClick={() => update({ authors: draft.authors.filter((_, i) => i !== index) })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <Issues issues={stepIssues[1]} />
+            </Card>
+          )}
+
+          {step === 2 && (
+            <Card className="p-6 space-y-6">
+              {CHAINED_ACTION_KINDS.includes(draft.type) && (
+                <Field
+                  label="Previous action"
+                  htmlFor="previous-action"
+                  hint={`The last enacted ${GOVERNANCE_ACTION_LABELS[draft.type].toLowerCase()} action (gov_action1… or <tx hash>#<index>). Leave empty if there is none.`}>
+                  <Input
+                    id="previous-action"
+                    value={draft.previousAction}
+                    onChange={(e) => update({ previousAction: e.target.value })}
+                    className="h-9 font-mono text-xs"
+                  />
+                </Field>
+              )}
+              <DetailsEditor draft={draft} update={update} protocol={protocol} />
+              <Issues issues={stepIssues[2]} />
+            </Card>
+          )}
+
+          {step === 3 && (
+            <Card className="p-6 space-y-6">
+              <div>
+                <div className="text-sm font-medium">Deposit</div>
+                <div className="text-2xl font-bold">
+                  {depositLovelace === null ? "Loading..." : formatLovelace(depositLovelace)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Locked while the action is live and returned once it is enacted, expires or is dropped.
+                </p>
+                {loadError && <p className="text-sm text-destructive mt-1">{loadError}</p>}
+              </div>
+              <Field
+                label="Deposit return address"
+                htmlFor="return-address"
+                hint="A registered stake address; the deposit is paid back to its rewards.">
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Input
+                    id="return-address"
+                    placeholder="stake1…"
+                    value={draft.returnAddress}
+                    onChange={(e) => update({ returnAddress: e.target.value })}
+                    className="h-9 font-mono text-xs"
+                  />
+                  {stakeAddress && draft.returnAddress !== stakeAddress && (
+                    <Button variant="outline" size="sm" onClick={() => update({ returnAddress: stakeAddress })}>
+                      Use wallet address
+                    </Button>
+                  )}
+                </div>
+              </Field>
+              <Issues issues={stepIssues[3]} />
+            </Card>
+          )}
+
+          {step === 4 && (
+            <div className="space-y-6">
+              {/* Preview, in the layout of the action detail page */}
+              <GovernanceActionHeader action={output.action} draft />
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 space-y-6">
+                  <GovernanceActionText action={output.action} draft />
+                </div>
+
+                <div className="space-y-6">
+                  {/* Publish & Build Card */}
+                  <Card className="p-6 space-y-4">
+                    <h3 className="font-semibold">Metadata & transaction</h3>
+                    {allIssues.length > 0 ? (
+                      <Issues issues={allIssues} />
+                    ) : (
+                      <p className="text-sm text-success">Ready to publish</p>
+                    )}
+
+                    <div className="space-y-1">
+                      <div className="text-xs font-medium text-muted-foreground">Metadata hash (blake2b-256)</div>
+                      <div className="flex items-center gap-2">
+                        <code className="text-xs font-mono bg-secondary px-2 py-1 rounded break-all">
+                          {output.hash}
+                        </code>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          aria-label="Copy metadata hash"
+                          onClick={() => handleCopy("hash", output.hash)}>
+                          {copied === "hash" ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={allIssues.length > 0}
+                      onClick={() => download(output.serialized, "proposal.jsonld", "application/ld+json")}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Download proposal.jsonld
+                    </Button>
+
+                    <Field
+                      label="Published metadata URL"
+                      htmlFor="anchor-url"
+                      hint="Publish the downloaded file unchanged; the hash covers it byte for byte.">
+                      <Input
+                        id="anchor-url"
+                        placeholder="https:// or ipfs://"
+                        value={draft.anchorUrl}
+                        onChange={(e) => update({ anchorUrl: e.target.value })}
+                        className="h-9"
+                      />
+                    </Field>
+
+                    {status !== "connected" ? (
+                      <p className="text-sm text-muted-foreground">Connect a wallet to build the transaction.</p>
+                    ) : preview ? (
+                      <div className="space-y-3">
+                        <dl className="text-sm space-y-1">
+                          <div className="flex justify-between">
+                            <dt className="text-muted-foreground">Deposit</dt>
+                            <dd className="font-medium">{formatLovelace(depositLovelace ?? 0)}</dd>
+                          </div>
+                          <div className="flex justify-between">
+                            <dt className="text-muted-foreground">Fee</dt>
+                            <dd className="font-medium">{formatLovelace(preview.feeLovelace)}</dd>
+                          </div>
+                          <div className="flex justify-between">
+                            <dt className="text-muted-foreground">Inputs</dt>
+                            <dd>{preview.inputCount}</dd>
+                          </div>
+                          <div className="flex justify-between">
+                            <dt className="text-muted-foreground">Size</dt>
+                            <dd>{preview.sizeBytes} bytes</dd>
+                          </div>
+                        </dl>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => handleCopy("tx", preview.unsignedTx)}>
+                            {copied === "tx" ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                            CBOR
+                          </Button>
+                          <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadTx}>
+                            <Download className="h-4 w-4 mr-1" />
+                            Draft tx
+                          </Button>
+                        </div>
+                        <Button className="w-full" disabled={busy !== null} onClick={handleSubmit}>
+                          {busy === "submitting" ? "Waiting for wallet..." : "Sign & submit"}
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        className="w-full"
+                        disabled={allIssues.length > 0 || !anchorUrl || depositLovelace === null || busy !== null}
+                        onClick={handleBuild}>
+                        {busy === "building" ? "Building transaction..." : "Build draft transaction"}
+                      </Button>
+                    )}
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    {submittedTx && (
+                      <p className="text-sm text-success break-all">
+                        Proposal submitted in transaction <span className="font-mono">{submittedTx}</span>
+                      </p>
+                    )}
+                  </Card>
+
+                  {/* Type-specific Details Card */}
+                  <GovernanceActionDetails action={output.action} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Step Navigation */}
+          <div className="flex justify-between gap-2 mt-6">
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={step === 0} onClick={() => setStep((current) => current - 1)}>
+                Back
+              </Button>
+              <Button variant="ghost" onClick={() => setDraft({ ...EMPTY_DRAFT, returnAddress: stakeAddress ?? "" })}>
+                Clear draft
+              </Button>
+            </div>
+            {step < STEPS.length - 1 && (
+              <Button onClick={() => setStep((current) => current + 1)}>Next: {STEPS[step + 1]}</Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
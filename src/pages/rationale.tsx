@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RationaleContent } from "@/components/RationaleDialog";
+import {
+  createRationaleDocument,
+  parseRationaleDocument,
+  RATIONALE_REFERENCE_TYPES,
+  RATIONALE_SUMMARY_MAX_LENGTH,
+  validateRationaleDocument,
+} from "@/lib/rationale";
+import { hashAnchorDocument, serializeAnchorDocument } from "@/lib/cip100";
+import type { VoteRationale } from "@/types/governance";
+import { ArrowLeft, Check, Copy, Download, Plus, Trash2 } from "lucide-react";
+
+type ReferenceType = (typeof RATIONALE_REFERENCE_TYPES)[number];
+
+interface RationaleDraft {
+  summary: string;
+  rationaleStatement: string;
+  precedentDiscussion: string;
+  counterargumentDiscussion: string;
+  conclusion: string;
+  references: { type: ReferenceType; label: string; uri: string }[];
+  authors: string[];
+}
+
+type TextField = Exclude<keyof RationaleDraft, "references" | "authors">;
+
+const DRAFT_KEY = "cgov:rationale-draft";
+
+const EMPTY_DRAFT: RationaleDraft = {
+  summary: "",
+  rationaleStatement: "",
+  precedentDiscussion: "",
+  counterargumentDiscussion: "",
+  conclusion: "",
+  references: [],
+  authors: [],
+};
+
+const TEXT_FIELDS: { field: TextField; label: string; hint: string; rows: number }[] = [
+  { field: "summary", label: "Summary", hint: "Required. A short overview of the vote.", rows: 3 },
+  { field: "rationaleStatement", label: "Rationale statement", hint: "Required. The full argument.", rows: 8 },
+  { field: "precedentDiscussion", label: "Precedent discussion", hint: "Optional.", rows: 4 },
+  { field: "counterargumentDiscussion", label: "Counterarguments", hint: "Optional.", rows: 4 },
+  { field: "conclusion", label: "Conclusion", hint: "Optional.", rows: 3 },
+];
+
+const REFERENCE_TYPE_LABELS: Record<ReferenceType, string> = {
+  Other: "Other",
+  GovernanceMetadata: "Governance metadata",
+  RelevantArticles: "Relevant articles",
+};
+
+function optionalText(value: string): string | undefined {
+  return value.trim() || undefined;
+}
+
+function toRationale(draft: RationaleDraft): VoteRationale {
+  return {
+    summary: optionalText(draft.summary),
+    rationaleStatement: optionalText(draft.rationaleStatement),
+    precedentDiscussion: optionalText(draft.precedentDiscussion),
+    counterargumentDiscussion: optionalText(draft.counterargumentDiscussion),
+    conclusion: optionalText(draft.conclusion),
+    references: draft.references.map((reference) => ({
+      type: reference.type,
+      label: reference.label.trim(),
+      uri: reference.uri.trim(),
+    })),
+    authors: draft.authors.map((name) => ({ name: optionalText(name) })),
+  };
+}
+
+function loadDraft(): RationaleDraft {
+  try {
+    const saved = localStorage.getItem(DRAFT_KEY);
+    return saved ? { ...EMPTY_DRAFT, ...(JSON.parse(saved) as Partial<RationaleDraft>) } : EMPTY_DRAFT;
+  } catch {
+    return EMPTY_DRAFT;
+  }
+}
+
+export default function RationaleEditor() {
+  const [draft, setDraft] = useState<RationaleDraft>(EMPTY_DRAFT);
+  const [loaded, setLoaded] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Drafts live in localStorage only, so they are read after hydration
+  useEffect(() => {
+    setDraft(loadDraft());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+    setCopied(false);
+  }, [draft, loaded]);
+
+  const output = useMemo(() => {
+    const serialized = serializeAnchorDocument(createRationaleDocument(toRationale(draft)));
+    // Validate and preview what was serialized, exactly as a reader of the published file would parse it
+    const published: unknown = JSON.parse(serialized);
+    return {
+      serialized,
+      hash: hashAnchorDocument(serialized),
+      issues: validateRationaleDocument(published),
+      rationale: parseRationaleDocument(published),
+    };
+  }, [draft]);
+
+  const setText = (field: TextField, value: string) => setDraft((current) => ({ ...current, [field]: value }));
+
+  const updateReference = (index: number, change: Partial<RationaleDraft["references"][number]>) =>
+    setDraft((current) => ({
+      ...current,
+      references: current.references.map((reference, i) => (i === index ? { ...reference, ...change } : reference)),
+    }));
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([output.serialized], { type: "application/ld+json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "rationale.jsonld";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyHash = async () => {
+    await navigator.clipboard.writeText(output.hash);
+    setCopied(true);
+  };
+
+  const valid = output.issues.length === 0;
+
+  return (
+    <>
+      <Head>
+        <title>Rationale Editor - Cardano Governance</title>
+        <meta name="description" content="Write a CIP-136 vote rationale and compute its anchor hash" />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {/* Back Button */}
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">Rationale Editor</h1>
+            <p className="text-muted-foreground">
+              Write a CIP-136 vote rationale, download it, pin it, then attach its URL and hash to your vote.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Column - Form */}
+            <Card className="p-6 space-y-6">
+              {TEXT_FIELDS.map(({ field, label, hint, rows }) => (
+                <div key={field} className="space-y-2">
+                  <div className="flex justify-between gap-2">
+                    <label htmlFor={field} className="text-sm font-medium">
+                      {label}
+                    </label>
+                    {field === "summary" && (
+                      <span
+                        className={`text-xs ${
+                          draft.summary.trim().length > RATIONALE_SUMMARY_MAX_LENGTH
+                            ? "text-destructive"
+                            : "text-muted-foreground"
+                        }`}>
+                        {draft.summary.trim().length}/{RATIONALE_SUMMARY_MAX_LENGTH}
+                      </span>
+                    )}
+                  </div>
+                  <Textarea
+                    id={field}
+                    rows={rows}
+                    value={draft[field]}
+                    onChange={(e) => setText(field, e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">{hint}</p>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">References</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setDraft((current) => ({
+                        ...current,
+                        references: [...current.references, { type: "Other", label: "", uri: "" }],
+                      }))
+                    }>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {draft.references.map((reference, index) => (
+                  <div key={index} className="flex flex-col md:flex-row gap-2">
+                    <Select
+                      value={reference.type}
+                      onValueChange={(value) => updateReference(index, { type: value as ReferenceType })}>
+                      <SelectTrigger className="md:w-44 h-9" aria-label="Reference type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RATIONALE_REFERENCE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {REFERENCE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Label"
+                      aria-label="Reference label"
+                      value={reference.label}
+                      onChange={(e) => updateReference(index, { label: e.target.value })}
+                      className="h-9"
+                    />
+                    <Input
+                      placeholder="https:// or ipfs://"
+                      aria-label="Reference URI"
+                      value={reference.uri}
+                      onChange={(e) => updateReference(index, { uri: e.target.value })}
+                      className="h-9"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove reference"
+                      onClick={() =>
+                        setDraft((current) => ({
+                          ...current,
+                          references: current.references.filter((_, i) => i !== index),
+                        }))
+                      }>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Authors</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDraft((current) => ({ ...current, authors: [...current.authors, ""] }))}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {draft.authors.map((name, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      placeholder="Name"
+                      aria-label="Author name"
+                      value={name}
+                      onChange={(e) =>
+                        setDraft((current) => ({
+                          ...current,
+                          authors: current.authors.map((author, i) => (i === index ? e.target.value : author)),
+                        }))
+                      }
+                      className="h-9"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove author"
+                      onClick={() =>
+                        setDraft((current) => ({ ...current, authors: current.authors.filter((_, i) => i !== index) }))
+                      }>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Authors are listed by name; signing witnesses have to be added with a signing tool.
+                </p>
+              </div>
+
+              <Button variant="ghost" size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+                Clear draft
+              </Button>
+            </Card>
+
+            {/* Right Column - Output */}
+            <div className="space-y-6">
+              <Card className="p-6 space-y-4">
+                <h2 className="text-xl font-semibold">Document</h2>
+                {valid ? (
+                  <p className="text-sm text-success">Valid CIP-100 / CIP-136 rationale document</p>
+                ) : (
+                  <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+                    {output.issues.map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-muted-foreground">Anchor hash (blake2b-256)</div>
+                  <div className="flex items-center gap-2">
+                    <code className="text-xs font-mono bg-secondary px-2 py-1 rounded break-all">{output.hash}</code>
+                    <Button size="icon" variant="ghost" aria-label="Copy anchor hash" onClick={handleCopyHash}>
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The hash covers the downloaded file byte for byte; publish it unchanged.
+                  </p>
+                </div>
+                <Button className="w-full" disabled={!valid} onClick={handleDownload}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download rationale.jsonld
+                </Button>
+              </Card>
+
+              <Card className="p-6">
+                <h2 className="text-xl font-semibold mb-4">Preview</h2>
+                {output.rationale && <RationaleContent rationale={output.rationale} />}
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { NCLHistoryChart } from "@/components/NCLHistoryChart";
+import { fetchTreasuryLedger } from "@/lib/api";
+import { formatEpochDate } from "@/lib/cardanoTime";
+import {
+  countsAgainstNCL,
+  getNCLPeriodLabel,
+  getProjectedNCLValue,
+  TREASURY_WITHDRAWAL_STAGE_LABELS,
+} from "@/lib/treasury";
+import type {
+  NCLPeriodUsage,
+  TreasuryLedger,
+  TreasuryWithdrawalRecord,
+  TreasuryWithdrawalStage,
+} from "@/types/governance";
+import { AlertTriangle, ArrowLeft } from "lucide-react";
+
+function formatAda(ada: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(ada);
+}
+
+function formatAddress(address: string): string {
+  if (address.length <= 24) return address;
+  return `${address.slice(0, 14)}...${address.slice(-8)}`;
+}
+
+function getStageColor(stage: TreasuryWithdrawalStage): string {
+  switch (stage) {
+    case "Enacted":
+      return "bg-primary/20 text-primary border-primary/30";
+    case "Ratified":
+      return "bg-success/20 text-success border-success/30";
+    case "Pending":
+      return "bg-amber-500/20 text-amber-400 border-amber-500/30";
+    case "Lapsed":
+      return "bg-muted text-muted-foreground border-border";
+  }
+}
+
+function getStageEpoch(withdrawal: TreasuryWithdrawalRecord): string {
+  if (withdrawal.enactedEpoch !== undefined) return `Enacted in ${withdrawal.enactedEpoch}`;
+  if (withdrawal.ratifiedEpoch !== undefined) return `Ratified in ${withdrawal.ratifiedEpoch}`;
+  return `Proposed in ${withdrawal.submissionEpoch}`;
+}
+
+interface WithdrawalTableProps {
+  title: string;
+  description: string;
+  withdrawals: TreasuryWithdrawalRecord[];
+}
+
+function WithdrawalTable({ title, description, withdrawals }: WithdrawalTableProps) {
+  const total = withdrawals.reduce((sum, w) => sum + w.amountAda, 0);
+
+  return (
+    <Card>
+      <div className="p-6 pb-4">
+        <h2 className="text-xl font-semibold">{title}</h2>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Action</TableHead>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Stage</TableHead>
+              <TableHead>Epoch</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {withdrawals.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  None
+                </TableCell>
+              </TableRow>
+            ) : (
+              withdrawals.map((withdrawal) => (
+                <TableRow key={`${withdrawal.actionHash}:${withdrawal.stakeAddress}`} className="hover:bg-muted/50">
+                  <TableCell>
+                    <Link href={`/governance/${withdrawal.actionHash}`} className="font-medium hover:underline">
+                      {withdrawal.actionTitle}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs" title={withdrawal.stakeAddress}>
+                    {formatAddress(withdrawal.stakeAddress)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getStageColor(withdrawal.stage)}>
+                      {TREASURY_WITHDRAWAL_STAGE_LABELS[withdrawal.stage]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{getStageEpoch(withdrawal)}</TableCell>
+                  <TableCell className="text-right">{formatAda(withdrawal.amountAda)} ₳</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          {withdrawals.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="font-semibold">
+                  Total
+                </TableCell>
+                <TableCell className="text-right font-semibold">{formatAda(total)} ₳</TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+    </Card>
+  );
+}
+
+/** The current period's consumption, and where it lands if every pending withdrawal passes */
+function NCLProjection({ period }: { period: NCLPeriodUsage }) {
+  const committedValue = period.enactedAda + period.ratifiedAda;
+  const projectedValue = getProjectedNCLValue(period);
+  const exceedsLimit = projectedValue > period.limitAda;
+  const percentOf = (value: number) => (value / period.limitAda) * 100;
+
+  const summary = [
+    { label: "Withdrawn", value: period.enactedAda, className: "text-primary" },
+    { label: "Ratified", value: period.ratifiedAda, className: "text-success" },
+    { label: "Pending vote", value: period.pendingAda, className: "text-amber-400" },
+    {
+      label: "Remaining",
+      value: period.limitAda - committedValue,
+      className: committedValue > period.limitAda ? "text-destructive" : "text-foreground",
+    },
+  ];
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+        {summary.map(({ label, value, className }) => (
+          <div key={label}>
+            <div className="text-sm text-muted-foreground uppercase tracking-wide mb-1">{label}</div>
+            <div className={`text-2xl font-bold ${className}`}>{formatAda(value)} ₳</div>
+          </div>
+        ))}
+      </div>
+      <Progress
+        value={Math.min(percentOf(committedValue), 100)}
+        marker={Math.min(percentOf(projectedValue), 100)}
+        markerClassName="bg-amber-400"
+        className="h-3"
+      />
+      <div className="flex justify-between text-sm text-muted-foreground mt-2">
+        <span>{percentOf(committedValue).toFixed(1)}% withdrawn or ratified</span>
+        <span>
+          {formatEpochDate(period.startEpoch)} – {formatEpochDate(period.endEpoch + 1)}
+        </span>
+      </div>
+      <div className={`flex items-start gap-2 mt-4 text-sm ${exceedsLimit ? "text-amber-400" : "text-foreground"}`}>
+        {exceedsLimit && <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />}
+        <span>
+          If everything pending passes, withdrawals land at {formatAda(projectedValue)} ₳ of{" "}
+          {formatAda(period.limitAda)} ₳ ({percentOf(projectedValue).toFixed(1)}%).{" "}
+          {exceedsLimit
+            ? `That is ${formatAda(projectedValue - period.limitAda)} ₳ over the limit.`
+            : `${formatAda(period.limitAda - projectedValue)} ₳ would remain.`}
+        </span>
+      </div>
+    </Card>
+  );
+}
+
+export default function TreasuryPage() {
+  const [ledger, setLedger] = useState<TreasuryLedger | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTreasuryLedger()
+      .then((result) => {
+        if (!cancelled) setLedger(result);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(`Failed to load treasury withdrawals: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!ledger) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto py-8 px-4 text-center text-muted-foreground">
+          {error ?? "Loading treasury withdrawals..."}
+        </div>
+      </div>
+    );
+  }
+
+  const { ncl, withdrawals } = ledger;
+  const period = ncl.current;
+  const counted = period ? withdrawals.filter((w) => countsAgainstNCL(w, period)) : [];
+  const pending = withdrawals.filter((w) => w.stage === "Pending");
+  const other = withdrawals.filter((w) => w.stage !== "Pending" && !counted.includes(w));
+
+  return (
+    <>
+      <Head>
+        <title>Treasury Withdrawals - Cardano Governance</title>
+        <meta name="description" content="Treasury withdrawals and Net Change Limit consumption" />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {/* Back Button */}
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">Treasury Withdrawals</h1>
+            <p className="text-muted-foreground">
+              {period
+                ? `Net Change Limit for ${getNCLPeriodLabel(period)}: ${formatAda(period.limitAda)} ₳`
+                : "No active Net Change Limit"}
+            </p>
+          </div>
+
+          {period && <NCLProjection period={period} />}
+
+          <div className="space-y-6">
+            <NCLHistoryChart periods={ncl.periods} />
+            <WithdrawalTable
+              title="Counting against the current limit"
+              description="Withdrawals enacted in the current period, and ratified ones enacted at the next epoch boundary"
+              withdrawals={counted}
+            />
+            <WithdrawalTable
+              title="Pending vote"
+              description="Active treasury withdrawal actions; each counts once ratified"
+              withdrawals={pending}
+            />
+            <WithdrawalTable
+              title="Not counted"
+              description="Withdrawals enacted in earlier periods, and actions that expired or were dropped"
+              withdrawals={other}
+            />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
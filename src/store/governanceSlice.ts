@@ -1,24 +1,40 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
-import type { GovernanceAction, GovernanceActionDetail, GovernanceActionType, VoteType } from "@/types/governance";
+import type {
+  ActionSortKey,
+  Committee,
+  DRepDetail,
+  GovernanceAction,
+  GovernanceActionDetail,
+  GovernanceActionStatus,
+  GovernanceActionType,
+  GovernanceFilters,
+  NCLData,
+  SortDirection,
+  VoteSortKey,
+  VoteType,
+  VotingBody,
+  VotingThresholds,
+} from "@/types/governance";
+import { DEFAULT_FILTERS } from "@/lib/filters";
 
 interface GovernanceState {
   actions: GovernanceAction[];
   selectedAction: GovernanceActionDetail | null;
-  filters: {
-    type: GovernanceActionType;
-    searchQuery: string;
-    voteFilter: VoteType;
-  };
+  ncl: NCLData | null;
+  thresholds: VotingThresholds | null;
+  committee: Committee | null;
+  selectedDRep: DRepDetail | null;
+  filters: GovernanceFilters;
 }
 
 const initialState: GovernanceState = {
   actions: [],
   selectedAction: null,
-  filters: {
-    type: "All",
-    searchQuery: "",
-    voteFilter: "All",
-  },
+  ncl: null,
+  thresholds: null,
+  committee: null,
+  selectedDRep: null,
+  filters: DEFAULT_FILTERS,
 };
 
 const governanceSlice = createSlice({
@@ -31,15 +47,52 @@ const governanceSlice = createSlice({
     setSelectedAction: (state, action: PayloadAction<GovernanceActionDetail | null>) => {
       state.selectedAction = action.payload;
     },
+    setNCLData: (state, action: PayloadAction<NCLData>) => {
+      state.ncl = action.payload;
+    },
+    setVotingThresholds: (state, action: PayloadAction<VotingThresholds>) => {
+      state.thresholds = action.payload;
+    },
+    setCommittee: (state, action: PayloadAction<Committee>) => {
+      state.committee = action.payload;
+    },
+    setSelectedDRep: (state, action: PayloadAction<DRepDetail | null>) => {
+      state.selectedDRep = action.payload;
+    },
     setTypeFilter: (state, action: PayloadAction<GovernanceActionType>) => {
       state.filters.type = action.payload;
     },
+    setStatusFilter: (state, action: PayloadAction<GovernanceActionStatus[]>) => {
+      state.filters.statuses = action.payload;
+    },
+    setEpochRange: (state, action: PayloadAction<{ from: number | null; to: number | null }>) => {
+      state.filters.epochFrom = action.payload.from;
+      state.filters.epochTo = action.payload.to;
+    },
+    setActionSort: (state, action: PayloadAction<{ sortBy: ActionSortKey; sortDirection: SortDirection }>) => {
+      state.filters.sortBy = action.payload.sortBy;
+      state.filters.sortDirection = action.payload.sortDirection;
+    },
     setSearchQuery: (state, action: PayloadAction<string>) => {
       state.filters.searchQuery = action.payload;
     },
+    setVoterRole: (state, action: PayloadAction<VotingBody>) => {
+      state.filters.voterRole = action.payload;
+    },
+    setVoterSearch: (state, action: PayloadAction<string>) => {
+      state.filters.voterSearch = action.payload;
+    },
     setVoteFilter: (state, action: PayloadAction<VoteType>) => {
       state.filters.voteFilter = action.payload;
     },
+    setVoteSort: (state, action: PayloadAction<{ sortBy: VoteSortKey; sortDirection: SortDirection }>) => {
+      state.filters.voteSortBy = action.payload.sortBy;
+      state.filters.voteSortDirection = action.payload.sortDirection;
+    },
+    /** Replaces the given filters at once, e.g. when restoring them from the URL */
+    applyFilters: (state, action: PayloadAction<Partial<GovernanceFilters>>) => {
+      state.filters = { ...state.filters, ...action.payload };
+    },
     resetFilters: (state) => {
       state.filters = initialState.filters;
     },
@@ -49,9 +102,20 @@ const governanceSlice = createSlice({
 export const {
   setActions,
   setSelectedAction,
+  setNCLData,
+  setVotingThresholds,
+  setCommittee,
+  setSelectedDRep,
   setTypeFilter,
+  setStatusFilter,
+  setEpochRange,
+  setActionSort,
   setSearchQuery,
+  setVoterRole,
+  setVoterSearch,
   setVoteFilter,
+  setVoteSort,
+  applyFilters,
   resetFilters,
 } = governanceSlice.actions;
 
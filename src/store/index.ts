@@ -1,9 +1,13 @@
 import { configureStore } from "@reduxjs/toolkit";
 import governanceReducer from "./governanceSlice";
+import walletReducer from "./walletSlice";
+import watchlistReducer from "./watchlistSlice";
 
 export const store = configureStore({
   reducer: {
     governance: governanceReducer,
+    wallet: walletReducer,
+    watchlist: watchlistReducer,
   },
 });
 
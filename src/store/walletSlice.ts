@@ -0,0 +1,65 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type { AccountDelegation, DRepVote } from "@/types/governance";
+
+interface WalletState {
+  status: "disconnected" | "connecting" | "connected";
+  /** CIP-30 key under `window.cardano` of the connected wallet */
+  walletId: string | null;
+  stakeAddress: string | null;
+  /** Null when the stake address is not registered */
+  delegation: AccountDelegation | null;
+  loadingDelegation: boolean;
+  /** Votes of the delegated DRep keyed by action hash */
+  drepVotes: Record<string, DRepVote["vote"]>;
+  error: string | null;
+}
+
+const initialState: WalletState = {
+  status: "disconnected",
+  walletId: null,
+  stakeAddress: null,
+  delegation: null,
+  loadingDelegation: false,
+  drepVotes: {},
+  error: null,
+};
+
+const walletSlice = createSlice({
+  name: "wallet",
+  initialState,
+  reducers: {
+    setWalletConnecting: (state, action: PayloadAction<string>) => {
+      state.status = "connecting";
+      state.walletId = action.payload;
+      state.error = null;
+    },
+    setWalletConnected: (state, action: PayloadAction<{ walletId: string; stakeAddress: string }>) => {
+      state.status = "connected";
+      state.walletId = action.payload.walletId;
+      state.stakeAddress = action.payload.stakeAddress;
+      state.delegation = null;
+      state.loadingDelegation = true;
+      state.drepVotes = {};
+      state.error = null;
+    },
+    setDelegation: (state, action: PayloadAction<{ delegation: AccountDelegation | null; drepVotes: DRepVote[] }>) => {
+      state.delegation = action.payload.delegation;
+      state.loadingDelegation = false;
+      state.drepVotes = Object.fromEntries(action.payload.drepVotes.map((vote) => [vote.actionHash, vote.vote]));
+    },
+    setWalletError: (state, action: PayloadAction<string>) => {
+      state.error = action.payload;
+      state.loadingDelegation = false;
+      if (state.status === "connecting") {
+        state.status = "disconnected";
+        state.walletId = null;
+      }
+    },
+    disconnectWallet: () => initialState,
+  },
+});
+
+export const { setWalletConnecting, setWalletConnected, setDelegation, setWalletError, disconnectWallet } =
+  walletSlice.actions;
+
+export default walletSlice.reducer;
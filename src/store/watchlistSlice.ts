@@ -0,0 +1,127 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { getActionId } from "@/lib/cip129";
+import type {
+  ActionSnapshot,
+  DRepSnapshot,
+  DRepSummary,
+  GovernanceAction,
+  Watchlist,
+  WatchedAction,
+  WatchedDRep,
+} from "@/types/governance";
+
+/** A DRep as shown in a list or on its page; the vote count is only known on the page */
+export type WatchableDRep = DRepSummary & { voteCount?: number };
+
+interface WatchlistState extends Watchlist {
+  /** False until the stored watchlist is read after hydration */
+  loaded: boolean;
+}
+
+const initialState: WatchlistState = {
+  actions: {},
+  dreps: {},
+  loaded: false,
+};
+
+function snapshotAction(action: GovernanceAction): ActionSnapshot {
+  return {
+    status: action.status,
+    totalYes: action.totalYes,
+    totalNo: action.totalNo,
+    totalAbstain: action.totalAbstain,
+    drepYesPercent: action.drepYesPercent,
+    spoYesPercent: action.spoYesPercent,
+  };
+}
+
+function snapshotDRep(drep: WatchableDRep): DRepSnapshot {
+  return { status: drep.status, votingPowerAda: drep.votingPowerAda, voteCount: drep.voteCount };
+}
+
+// Timestamps are added in `prepare` so the reducers stay pure
+const withTime = <T>(payload: T) => ({ payload: { ...payload, at: new Date().toISOString() } });
+
+const watchlistSlice = createSlice({
+  name: "watchlist",
+  initialState,
+  reducers: {
+    loadWatchlist: (state, action: PayloadAction<Watchlist>) => {
+      state.actions = action.payload.actions;
+      state.dreps = action.payload.dreps;
+      state.loaded = true;
+    },
+    toggleWatchAction: {
+      reducer: (state, { payload }: PayloadAction<{ action: GovernanceAction; at: string }>) => {
+        const actionId = getActionId(payload.action);
+        if (state.actions[actionId]) {
+          delete state.actions[actionId];
+          return;
+        }
+        const watched: WatchedAction = {
+          actionId,
+          title: payload.action.title,
+          watchedAt: payload.at,
+          seenAt: payload.at,
+          seen: snapshotAction(payload.action),
+        };
+        state.actions[actionId] = watched;
+      },
+      prepare: (action: GovernanceAction) => withTime({ action }),
+    },
+    toggleWatchDRep: {
+      reducer: (state, { payload }: PayloadAction<{ drep: WatchableDRep; at: string }>) => {
+        const { drepId, name } = payload.drep;
+        if (state.dreps[drepId]) {
+          delete state.dreps[drepId];
+          return;
+        }
+        const watched: WatchedDRep = {
+          drepId,
+          name,
+          watchedAt: payload.at,
+          seenAt: payload.at,
+          seen: snapshotDRep(payload.drep),
+        };
+        state.dreps[drepId] = watched;
+      },
+      prepare: (drep: WatchableDRep) => withTime({ drep }),
+    },
+    /** Records the current state of watched items as seen; unwatched ones are ignored */
+    markSeen: {
+      reducer: (
+        state,
+        { payload }: PayloadAction<{ actions: GovernanceAction[]; dreps: WatchableDRep[]; at: string }>
+      ) => {
+        for (const action of payload.actions) {
+          const watched = state.actions[getActionId(action)];
+          if (!watched) continue;
+          watched.title = action.title;
+          watched.seen = snapshotAction(action);
+          watched.seenAt = payload.at;
+        }
+        for (const drep of payload.dreps) {
+          const watched = state.dreps[drep.drepId];
+          if (!watched) continue;
+          watched.name = drep.name;
+          watched.seen = { ...snapshotDRep(drep), voteCount: drep.voteCount ?? watched.seen.voteCount };
+          watched.seenAt = payload.at;
+        }
+      },
+      prepare: (seen: { actions?: GovernanceAction[]; dreps?: WatchableDRep[] }) =>
+        withTime({ actions: seen.actions ?? [], dreps: seen.dreps ?? [] }),
+    },
+    /** Fills in the vote count of DReps starred from a list, without marking anything else as seen */
+    setDRepVoteBaseline: (state, action: PayloadAction<{ drepId: string; voteCount: number }>) => {
+      const watched = state.dreps[action.payload.drepId];
+      if (watched && watched.seen.voteCount === undefined) {
+        watched.seen.voteCount = action.payload.voteCount;
+      }
+    },
+  },
+});
+
+export const { loadWatchlist, toggleWatchAction, toggleWatchDRep, markSeen, setDRepVoteBaseline } =
+  watchlistSlice.actions;
+
+export default watchlistSlice.reducer;
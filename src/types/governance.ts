@@ -1,24 +1,118 @@
-export interface GovernanceAction {
+interface GovernanceActionBase {
   hash: string;
+  /** Index of the proposal within its transaction, when known */
+  index?: number;
   title: string;
-  type: string;
   status: "Active" | "Ratified" | "Expired" | "Approved" | "Not approved";
   constitutionality: string;
   drepYesPercent: number;
   drepNoPercent: number;
   drepYesAda: string;
   drepNoAda: string;
+  /** Exact DRep stake behind Yes and No; the Ada amounts above are rounded for display */
+  drepYesLovelace: string;
+  drepNoLovelace: string;
   spoYesPercent?: number;
   spoNoPercent?: number;
   spoYesAda?: string;
   spoNoAda?: string;
+  ccYesPercent?: number;
+  ccNoPercent?: number;
   totalYes: number;
   totalNo: number;
   totalAbstain: number;
   submissionEpoch: number;
   expiryEpoch: number;
+  /** Epoch the action was ratified in, once it has been */
+  ratifiedEpoch?: number;
+  /** Epoch the action took effect in, once it has */
+  enactedEpoch?: number;
+  /** CIP-108 metadata document of the proposal */
+  anchorUrl?: string;
+  anchorHash?: string;
+}
+
+export type ProtocolParameterGroup = "network" | "economic" | "technical" | "governance";
+
+export interface ProtocolParameterChange {
+  parameter: string;
+  group: ProtocolParameterGroup;
+  /** Security-relevant parameters also need SPO approval */
+  securityRelevant: boolean;
+  currentValue?: string;
+  proposedValue: string;
 }
 
+export interface CommitteeMemberChange {
+  coldCredential: string;
+  expiryEpoch: number;
+}
+
+export interface TreasuryWithdrawal {
+  stakeAddress: string;
+  amountAda: number;
+}
+
+export interface ParameterChangeAction extends GovernanceActionBase {
+  type: "ParameterChange";
+  parameterChanges: ProtocolParameterChange[];
+}
+
+export interface HardForkInitiationAction extends GovernanceActionBase {
+  type: "HardForkInitiation";
+  protocolVersion: { major: number; minor: number };
+}
+
+export interface NoConfidenceAction extends GovernanceActionBase {
+  type: "NoConfidence";
+}
+
+export interface UpdateCommitteeAction extends GovernanceActionBase {
+  type: "UpdateCommittee";
+  membersToAdd: CommitteeMemberChange[];
+  membersToRemove: string[];
+  /** New committee quorum threshold as a fraction (0-1) */
+  newThreshold: number;
+}
+
+export interface NewConstitutionAction extends GovernanceActionBase {
+  type: "NewConstitution";
+  constitution: {
+    anchorUrl: string;
+    anchorHash: string;
+    guardrailsScriptHash?: string;
+  };
+}
+
+/** The enacted constitution's guardrails script, which parameter changes and treasury withdrawals must run */
+export interface GuardrailsScript {
+  /** Blake2b-224 hash, used as the proposal policy hash */
+  scriptHash: string;
+  /** CBOR hex of the Plutus script */
+  cbor: string;
+  version: "V1" | "V2" | "V3";
+}
+
+export interface TreasuryWithdrawalsAction extends GovernanceActionBase {
+  type: "TreasuryWithdrawals";
+  withdrawals: TreasuryWithdrawal[];
+}
+
+export interface InfoAction extends GovernanceActionBase {
+  type: "Info";
+}
+
+export type GovernanceAction =
+  | ParameterChangeAction
+  | HardForkInitiationAction
+  | NoConfidenceAction
+  | UpdateCommitteeAction
+  | NewConstitutionAction
+  | TreasuryWithdrawalsAction
+  | InfoAction;
+
+export type GovernanceActionKind = GovernanceAction["type"];
+
 export interface VoteRecord {
   drepId: string;
   drepName: string;
@@ -30,17 +124,403 @@ export interface VoteRecord {
   votedAt: string;
 }
 
-export interface GovernanceActionDetail extends GovernanceAction {
+export interface DRepLink {
+  label: string;
+  uri: string;
+}
+
+export interface DRepProfile {
+  drepId: string;
+  /** CIP-119 metadata fields, absent when the DRep has not published them */
+  name?: string;
+  objectives?: string;
+  motivations?: string;
+  qualifications?: string;
+  imageUrl?: string;
+  links: DRepLink[];
+  status: "Active" | "Inactive" | "Retired";
+  votingPowerAda: number;
+  delegatorCount: number;
+  registeredEpoch?: number;
+  anchorUrl?: string;
+  anchorHash?: string;
+}
+
+/** A DRep's vote on one governance action */
+export interface DRepVote {
+  actionHash: string;
+  actionTitle: string;
+  actionType: GovernanceActionKind;
+  vote: "Yes" | "No" | "Abstain";
+  anchorUrl?: string;
+  anchorHash?: string;
+  votedAt: string;
+}
+
+export type DRepDetail = DRepProfile & {
+  votes?: DRepVote[];
+};
+
+/** Where a stake account's voting power is delegated */
+export interface AccountDelegation {
+  stakeAddress: string;
+  /**
+   * Delegated DRep ID, `drep_always_abstain` or `drep_always_no_confidence`
+   * for the predefined voting options; null when not delegated
+   */
+  drepId: string | null;
+  /** Display name of the delegated DRep, when known */
+  drepName?: string;
+  /** Balance controlled by the stake address, which moves with its delegation */
+  stakeAda: number;
+}
+
+/** Registry entry for a DRep, without the profile metadata */
+export interface DRepSummary {
+  drepId: string;
+  name?: string;
+  status: DRepProfile["status"];
+  votingPowerAda: number;
+  registeredEpoch?: number;
+}
+
+/** Stake delegated to the predefined voting options, which never cast votes themselves */
+export interface PredefinedDRepStake {
+  alwaysAbstainAda: number;
+  alwaysNoConfidenceAda: number;
+}
+
+/** How much of the DRep stake voted on an action, and what the DRep Yes share is measured against */
+export interface ActionTurnout {
+  actionHash: string;
+  /** Stake of every active DRep, plus DReps that voted and have since gone inactive */
+  activeStakeAda: number;
+  activeDRepCount: number;
+  voterCount: number;
+  yesAda: number;
+  noAda: number;
+  abstainAda: number;
+  /** Active stake that cast no vote; it counts as No */
+  nonVotingAda: number;
+  /** Share of active stake that voted, in percent */
+  turnoutPercent: number;
+  alwaysAbstainAda: number;
+  alwaysNoConfidenceAda: number;
+  /** Active stake plus Always No Confidence, less Abstain votes; Always Abstain is never part of it */
+  denominatorAda: number;
+}
+
+export interface DRepParticipation {
+  /** Actions that were open for voting while the DRep was registered; null when its registration epoch is unknown */
+  eligible: number | null;
+  voted: number;
+  /** Share of eligible actions voted on, in percent; null when eligibility is unknown */
+  rate: number | null;
+}
+
+export type DRepParticipationEntry = DRepSummary & DRepParticipation;
+
+export interface ParticipationReport {
+  predefined: PredefinedDRepStake;
+  /** Every action, newest first */
+  actions: (ActionTurnout & Pick<GovernanceAction, "title" | "type" | "status" | "submissionEpoch">)[];
+  /** Every DRep eligible for at least one action, highest participation first and unknown rates last */
+  dreps: DRepParticipationEntry[];
+}
+
+export interface SpoVoteRecord {
+  poolId: string;
+  poolName?: string;
+  ticker?: string;
+  vote: "Yes" | "No" | "Abstain";
+  pledgeAda: number;
+  /** Active stake delegated to the pool, which is its voting power */
+  activeStakeAda: number;
+  anchorUrl?: string;
+  anchorHash?: string;
+  votedAt: string;
+}
+
+export type AnchorIntegrity = "verified" | "mismatch" | "unverifiable";
+
+export interface AnchorVerification {
+  integrity: AnchorIntegrity;
+  /** Hash recorded on-chain, when it is a well-formed blake2b-256 digest */
+  expectedHash?: string;
+  /** blake2b-256 of the fetched document, when it could be fetched */
+  computedHash?: string;
+  /** Why the anchor could not be verified */
+  reason?: string;
+}
+
+export interface RationaleReference {
+  label: string;
+  uri: string;
+  /** JSON-LD @type, e.g. "Other", "GovernanceMetadata" or "RelevantArticles" */
+  type?: string;
+}
+
+export interface RationaleAuthor {
+  name?: string;
+  witnessAlgorithm?: string;
+  publicKey?: string;
+}
+
+/** Vote rationale parsed from a CIP-100 / CIP-136 anchor document */
+export interface VoteRationale {
+  summary?: string;
+  rationaleStatement?: string;
+  precedentDiscussion?: string;
+  counterargumentDiscussion?: string;
+  conclusion?: string;
+  /** Free-form CIP-100 comment, used by documents without CIP-136 fields */
+  comment?: string;
+  references: RationaleReference[];
+  authors: RationaleAuthor[];
+}
+
+export interface CommitteeMember {
+  /** Off-chain display name, when known */
+  name?: string;
+  coldCredential: string;
+  /** Set once the member has authorized a hot key */
+  hotCredential?: string;
+  status: "Authorized" | "NotAuthorized" | "Resigned";
+  /** Last epoch of the member's term */
+  expiryEpoch: number;
+}
+
+export interface Committee {
+  members: CommitteeMember[];
+  /** Share of active members that must vote Yes, as a fraction (0-1) */
+  threshold: number;
+}
+
+export interface CommitteeVoteRecord {
+  hotCredential: string;
+  coldCredential: string;
+  memberName?: string;
+  vote: "Yes" | "No" | "Abstain";
+  anchorUrl?: string;
+  anchorHash?: string;
+  votedAt: string;
+}
+
+export type GovernanceActionDetail = GovernanceAction & {
   description?: string;
+  motivation?: string;
   rationale?: string;
   votes?: VoteRecord[];
-}
+  spoVotes?: SpoVoteRecord[];
+  committeeVotes?: CommitteeVoteRecord[];
+};
 
-export type GovernanceActionType = "All" | "Info" | "Treasury" | "Constitution";
+export type GovernanceActionType = "All" | GovernanceActionKind;
+export type GovernanceActionStatus = GovernanceAction["status"];
 export type VoteType = "All" | "Yes" | "No" | "Abstain";
+export type ActionSortKey = "submission" | "expiry" | "yesPercent" | "stake";
+export type SortDirection = "asc" | "desc";
+export type VoteSortKey = "power" | "time";
+export type ExportFormat = "csv" | "json";
+
+/** One page of an action's DRep or SPO votes from the votes search route */
+export interface VotePage<T> {
+  items: T[];
+  /** Votes matching the search and vote filter across all pages */
+  total: number;
+  /** Vote counts for the role, ignoring the search and vote filter */
+  tally: { yes: number; no: number; abstain: number };
+  /** Pass as `cursor` to load the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+/** A Net Change Limit: the most ADA the treasury may pay out between two epochs */
+export interface NCLPeriod {
+  startEpoch: number;
+  /** Last epoch the limit applies to, inclusive */
+  endEpoch: number;
+  limitAda: number;
+}
+
+/** A period's limit with the ADA taken from it */
+export interface NCLPeriodUsage extends NCLPeriod {
+  /** ADA withdrawn by actions enacted within the period */
+  enactedAda: number;
+  /** ADA in ratified actions that are enacted at the next epoch boundary */
+  ratifiedAda: number;
+  /** ADA requested by Active treasury withdrawal actions; only set on the current period */
+  pendingAda: number;
+}
 
 export interface NCLData {
-  year: number;
-  currentValue: number;
-  targetValue: number;
+  /** Every configured period, oldest first */
+  periods: NCLPeriodUsage[];
+  /** The period covering the current epoch, null when no limit is in force */
+  current: NCLPeriodUsage | null;
+}
+
+/** Where a treasury withdrawal stands: paid out, about to be, voted on, or never will be */
+export type TreasuryWithdrawalStage = "Enacted" | "Ratified" | "Pending" | "Lapsed";
+
+/** One recipient of one Treasury Withdrawals action */
+export interface TreasuryWithdrawalRecord extends TreasuryWithdrawal {
+  actionHash: string;
+  actionTitle: string;
+  stage: TreasuryWithdrawalStage;
+  submissionEpoch: number;
+  ratifiedEpoch?: number;
+  enactedEpoch?: number;
+}
+
+export interface TreasuryLedger {
+  ncl: NCLData;
+  /** Every treasury withdrawal ever proposed, newest first */
+  withdrawals: TreasuryWithdrawalRecord[];
+}
+
+export type VotingBody = "drep" | "spo" | "committee";
+
+/** List and voting record filters; mirrored in the page's query string */
+export interface GovernanceFilters {
+  type: GovernanceActionType;
+  /** Empty means every status */
+  statuses: GovernanceActionStatus[];
+  /** Inclusive submission epoch range, null when open-ended */
+  epochFrom: number | null;
+  epochTo: number | null;
+  sortBy: ActionSortKey;
+  sortDirection: SortDirection;
+  /** Global search input */
+  searchQuery: string;
+  voterRole: VotingBody;
+  voterSearch: string;
+  voteFilter: VoteType;
+  voteSortBy: VoteSortKey;
+  voteSortDirection: SortDirection;
+}
+
+/** Ratification thresholds as fractions (0-1), as found in protocol parameters */
+export interface VotingThresholds {
+  drep: {
+    motionNoConfidence: number;
+    committeeNormal: number;
+    committeeNoConfidence: number;
+    updateToConstitution: number;
+    hardForkInitiation: number;
+    ppNetworkGroup: number;
+    ppEconomicGroup: number;
+    ppTechnicalGroup: number;
+    ppGovGroup: number;
+    treasuryWithdrawal: number;
+  };
+  spo: {
+    motionNoConfidence: number;
+    committeeNormal: number;
+    committeeNoConfidence: number;
+    hardForkInitiation: number;
+    ppSecurityGroup: number;
+  };
+  /** Share of the committee that must vote Yes (quorum threshold) */
+  committee: number;
+}
+
+export interface ActionSearchResult {
+  hash: string;
+  index?: number;
+  title: string;
+  type: GovernanceActionKind;
+  status: GovernanceAction["status"];
+  /** Which field the query matched, best match first */
+  matchedField: "id" | "hash" | "title" | "description" | "rationale";
+  /** Text around the match for description and rationale hits */
+  snippet?: string;
+}
+
+export interface RationaleSearchResult {
+  anchorUrl: string;
+  actionHash: string;
+  actionTitle: string;
+  snippet: string;
 }
+
+/** Grouped `/api/search` results, each group ordered by relevance */
+export interface SearchResults {
+  actions: ActionSearchResult[];
+  dreps: DRepSummary[];
+  rationales: RationaleSearchResult[];
+}
+
+/** What a watched action looked like the last time it was seen */
+export interface ActionSnapshot {
+  status: GovernanceActionStatus;
+  totalYes: number;
+  totalNo: number;
+  totalAbstain: number;
+  drepYesPercent: number;
+  spoYesPercent?: number;
+}
+
+/** What a watched DRep looked like the last time it was seen */
+export interface DRepSnapshot {
+  status: DRepProfile["status"];
+  votingPowerAda: number;
+  /** Unknown when the DRep was starred from a list without its votes */
+  voteCount?: number;
+}
+
+export interface WatchedAction {
+  /** The action's ID from `getActionId`, which is also its key in the watchlist */
+  actionId: string;
+  title: string;
+  watchedAt: string;
+  seenAt: string;
+  seen: ActionSnapshot;
+}
+
+export interface WatchedDRep {
+  drepId: string;
+  name?: string;
+  watchedAt: string;
+  seenAt: string;
+  seen: DRepSnapshot;
+}
+
+/** Followed actions and DReps, keyed by action hash and DRep ID */
+export interface Watchlist {
+  actions: Record<string, WatchedAction>;
+  dreps: Record<string, WatchedDRep>;
+}
+
+export type GovernanceEventType =
+  "action-submitted" | "status-changed" | "threshold-crossed" | "expiring" | "drep-voted";
+
+interface GovernanceEventBase {
+  /** Stable across retries, so webhook receivers can drop duplicates */
+  id: string;
+  /** When the change was noticed, which can be later than it happened on-chain */
+  detectedAt: string;
+  actionHash: string;
+  actionTitle: string;
+  actionType: GovernanceActionKind;
+  /** One line describing the event */
+  summary: string;
+}
+
+/** A change between two snapshots of the governance data */
+export type GovernanceEvent =
+  | (GovernanceEventBase & { type: "action-submitted"; expiryEpoch: number })
+  | (GovernanceEventBase & {
+      type: "status-changed";
+      previousStatus: GovernanceActionStatus;
+      status: GovernanceActionStatus;
+    })
+  | (GovernanceEventBase & {
+      type: "threshold-crossed";
+      body: VotingBody;
+      /** True when the body's Yes share rose to its threshold, false when it fell below */
+      passing: boolean;
+      yesPercent: number;
+      threshold: number;
+    })
+  | (GovernanceEventBase & { type: "expiring"; expiryEpoch: number; epochsLeft: number })
+  | (GovernanceEventBase & { type: "drep-voted"; drepId: string; drepName?: string; vote: DRepVote["vote"] });